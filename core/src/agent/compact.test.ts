@@ -0,0 +1,214 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ChatMessage, LLMResponse } from "../llm/index.js";
+import { ToolRegistry } from "../tools/index.js";
+import {
+  compactConversation,
+  findCompactionSplit,
+  needsCompaction,
+  SUMMARY_HEADER,
+} from "./compact.js";
+import { runAgentLoop } from "./loop.js";
+
+function makeMockLlm(responses: LLMResponse[]) {
+  let callIdx = 0;
+  return {
+    opts: { baseUrl: "http://test", model: "test", maxTokens: 100 },
+    chat: vi.fn(async (_messages: ChatMessage[]) => responses[callIdx++]),
+  };
+}
+
+const answer = (content: string): LLMResponse => ({
+  content,
+  thinking: null,
+  toolCalls: [],
+  finishReason: "stop",
+});
+
+const big = (label: string) => `${label} ${"x".repeat(400)}`;
+
+/** system, then: user / assistant+tool call / tool / assistant answer, twice. */
+function toolConversation(): ChatMessage[] {
+  return [
+    { role: "system", content: "sys" },
+    { role: "user", content: big("read a") },
+    {
+      role: "assistant",
+      content: "",
+      tool_calls: [{ id: "1", type: "function", function: { name: "read_file", arguments: "{}" } }],
+    },
+    { role: "tool", content: big("contents of a"), tool_call_id: "1" },
+    { role: "assistant", content: big("a says hi") },
+    { role: "user", content: big("read b") },
+    {
+      role: "assistant",
+      content: "",
+      tool_calls: [{ id: "2", type: "function", function: { name: "read_file", arguments: "{}" } }],
+    },
+    { role: "tool", content: big("contents of b"), tool_call_id: "2" },
+    { role: "assistant", content: big("b says bye") },
+  ];
+}
+
+/** Every tool result follows an assistant message that made its call. */
+function pairsConsistent(messages: ChatMessage[]): boolean {
+  const open = new Set<string>();
+  for (const m of messages) {
+    if (m.role === "assistant") {
+      open.clear();
+      for (const tc of m.tool_calls ?? []) open.add(tc.id);
+    } else if (m.role === "tool") {
+      if (!m.tool_call_id || !open.has(m.tool_call_id)) return false;
+    }
+  }
+  return true;
+}
+
+describe("needsCompaction", () => {
+  it("is off without a context window", () => {
+    expect(needsCompaction(toolConversation(), {})).toBe(false);
+  });
+
+  it("triggers past the threshold", () => {
+    expect(needsCompaction(toolConversation(), { contextWindow: 100_000 })).toBe(false);
+    expect(needsCompaction(toolConversation(), { contextWindow: 500 })).toBe(true);
+    expect(needsCompaction(toolConversation(), { contextWindow: 1_000, threshold: 0.1 })).toBe(
+      true,
+    );
+  });
+});
+
+describe("findCompactionSplit", () => {
+  it("keeps the latest turn when nothing else fits", () => {
+    expect(findCompactionSplit(toolConversation(), 0)).toBe(5);
+  });
+
+  it("keeps as many recent messages as fit the budget", () => {
+    const messages = toolConversation();
+    // Room for the last answer and the tool exchange before it, not the user turn
+    expect(findCompactionSplit(messages, 250)).toBe(6);
+  });
+
+  it("never cuts between a tool call and its result", () => {
+    const messages = toolConversation();
+    for (let keep = 0; keep < 1_000; keep += 10) {
+      const split = findCompactionSplit(messages, keep);
+      expect(messages[split].role).not.toBe("tool");
+      expect(pairsConsistent([messages[0], ...messages.slice(split)])).toBe(true);
+    }
+  });
+
+  it("falls back to a tool-call boundary inside one long turn", () => {
+    const messages = toolConversation().slice(0, 4);
+    messages.push(
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [{ id: "3", type: "function", function: { name: "x", arguments: "{}" } }],
+      },
+      { role: "tool", content: big("more"), tool_call_id: "3" },
+    );
+    expect(findCompactionSplit(messages, 0)).toBe(4);
+  });
+
+  it("reports nothing to compact for a single turn", () => {
+    const messages: ChatMessage[] = [
+      { role: "system", content: "sys" },
+      { role: "user", content: "hi" },
+    ];
+    expect(findCompactionSplit(messages, 0)).toBe(1);
+  });
+});
+
+describe("compactConversation", () => {
+  it("replaces older turns with a summary and keeps the system prompt", async () => {
+    const messages = toolConversation();
+    const llm = makeMockLlm([answer("User read a; a says hi.")]);
+
+    const result = await compactConversation(messages, llm as never);
+
+    expect(result.removedMessages).toBe(4);
+    expect(result.tokensAfter).toBeLessThan(result.tokensBefore);
+    expect(messages[0]).toEqual({ role: "system", content: "sys" });
+    expect(messages[1]).toEqual({
+      role: "user",
+      content: `${SUMMARY_HEADER}\nUser read a; a says hi.`,
+    });
+    expect(messages[2].content).toBe(big("read b"));
+    expect(messages).toHaveLength(6);
+    expect(pairsConsistent(messages)).toBe(true);
+
+    const transcript = llm.chat.mock.calls[0][0][1].content as string;
+    expect(transcript).toContain("[user] read a");
+    expect(transcript).toContain("[assistant calls read_file] {}");
+    expect(transcript).toContain("[tool result] contents of a");
+    expect(transcript).not.toContain("read b");
+  });
+
+  it("makes no call when there is nothing to compact", async () => {
+    const messages: ChatMessage[] = [
+      { role: "system", content: "sys" },
+      { role: "user", content: "hi" },
+    ];
+    const llm = makeMockLlm([]);
+
+    const result = await compactConversation(messages, llm as never);
+
+    expect(result.removedMessages).toBe(0);
+    expect(llm.chat).not.toHaveBeenCalled();
+    expect(messages).toHaveLength(2);
+  });
+});
+
+describe("runAgentLoop compaction", () => {
+  it("summarizes before a call that would crowd the context window", async () => {
+    const messages = toolConversation();
+    messages.push({ role: "user", content: "and now?" });
+    const llm = makeMockLlm([
+      {
+        ...answer("summary"),
+        usage: { promptTokens: 9, completionTokens: 1, totalTokens: 10, estimated: false },
+      },
+      answer("done"),
+    ]);
+    const logs: string[] = [];
+
+    const result = await runAgentLoop(
+      messages,
+      llm as never,
+      new ToolRegistry(),
+      (m) => logs.push(m),
+      undefined,
+      5,
+      undefined,
+      { compaction: { contextWindow: 600 } },
+    );
+
+    expect(result.response).toBe("done");
+    expect(result.callUsage).toHaveLength(1);
+    expect(logs.some((l) => l.startsWith("[compact] summarized"))).toBe(true);
+    const sent = llm.chat.mock.calls[1][0];
+    expect(sent[1].content).toBe(`${SUMMARY_HEADER}\nsummary`);
+    expect(sent.at(-1)).toEqual({ role: "user", content: "and now?" });
+    expect(pairsConsistent(sent)).toBe(true);
+  });
+
+  it("leaves the conversation alone below the threshold", async () => {
+    const messages = toolConversation();
+    const llm = makeMockLlm([answer("done")]);
+
+    await runAgentLoop(
+      messages,
+      llm as never,
+      new ToolRegistry(),
+      undefined,
+      undefined,
+      5,
+      undefined,
+      {
+        compaction: { contextWindow: 100_000 },
+      },
+    );
+
+    expect(llm.chat).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Conversation compaction — keeps a long session inside the model's context.
+ *
+ * Older turns are replaced by a single summary message written by the model
+ * itself. The system prompt and the most recent turns are kept verbatim, and
+ * the cut is only ever made at a turn or tool-call boundary, so every
+ * assistant tool call still has its tool results right after it.
+ */
+
+import { DEFAULT_COMPACT_THRESHOLD } from "../config/loader.js";
+import {
+  type ChatClient,
+  type ChatMessage,
+  contentText,
+  estimateMessageTokens,
+  estimatePromptTokens,
+  type TokenUsage,
+  type ToolDefinition,
+} from "../llm/index.js";
+
+/** Fraction of the context window kept verbatim as recent history. */
+const KEEP_RECENT_FRACTION = 0.3;
+/** Per-message cap in the transcript sent for summarizing — long tool output is mostly noise. */
+const TRANSCRIPT_MESSAGE_LIMIT = 2_000;
+/** Marks the summary message so a later compaction folds it into the next summary. */
+export const SUMMARY_HEADER = "[Summary of the earlier conversation]";
+
+const SUMMARIZE_PROMPT =
+  "You compress conversations between a user and an AI agent that uses tools. " +
+  "Summarize the transcript you are given so the agent can continue the work without it. " +
+  "Keep: the user's goals and preferences, decisions made, facts learned from tool results " +
+  "(file paths, names, numbers, errors), and what is still left to do. " +
+  "Drop pleasantries and anything superseded. Reply with the summary only.";
+
+export interface CompactionOptions {
+  /** The model's context window in tokens. Without it only manual compaction is possible. */
+  contextWindow?: number;
+  /** Fraction of contextWindow that triggers automatic compaction. Defaults to 0.8. */
+  threshold?: number;
+}
+
+export interface CompactionResult {
+  /** Number of messages replaced by the summary (0 when there was nothing to compact). */
+  removedMessages: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  /** Usage of the summarizing call, when one was made and reported. */
+  usage?: TokenUsage;
+}
+
+/** True when the estimated prompt has grown past the compaction threshold. */
+export function needsCompaction(
+  messages: ChatMessage[],
+  options: CompactionOptions,
+  tools?: ToolDefinition[],
+): boolean {
+  if (!options.contextWindow) return false;
+  const limit = options.contextWindow * (options.threshold ?? DEFAULT_COMPACT_THRESHOLD);
+  return estimatePromptTokens(messages, tools) > limit;
+}
+
+/**
+ * A cut before messages[i] keeps tool calls and their results together:
+ * tool results and the image note that follows them belong to the call before.
+ */
+function isBoundary(messages: ChatMessage[], i: number): boolean {
+  const role = messages[i].role;
+  if (role === "assistant") return true;
+  return role === "user" && messages[i - 1]?.role !== "tool";
+}
+
+/** Start of the turn the user last opened — the preferred thing to keep when nothing else fits. */
+function lastTurnStart(messages: ChatMessage[]): number {
+  for (let i = messages.length - 1; i > 0; i--) {
+    if (messages[i].role === "user" && isBoundary(messages, i)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Index of the first message to keep. Messages 1..index-1 get summarized;
+ * index 1 means there is nothing to compact. Keeps as much recent history as
+ * fits in keepTokens, and at least the latest turn when that still leaves
+ * something to summarize.
+ */
+export function findCompactionSplit(messages: ChatMessage[], keepTokens: number): number {
+  let tailTokens = 0;
+  let fitting = -1;
+  let latest = -1;
+  for (let i = messages.length - 1; i > 1; i--) {
+    tailTokens += estimateMessageTokens(messages[i]);
+    if (!isBoundary(messages, i)) continue;
+    if (latest === -1) latest = i;
+    if (tailTokens <= keepTokens) fitting = i;
+  }
+  if (fitting !== -1) return fitting;
+  const turn = lastTurnStart(messages);
+  if (turn > 1) return turn;
+  return latest === -1 ? 1 : latest;
+}
+
+/** Plain-text rendering of messages for the summarizing call. */
+function toTranscript(messages: ChatMessage[]): string {
+  const clip = (text: string) =>
+    text.length > TRANSCRIPT_MESSAGE_LIMIT
+      ? `${text.slice(0, TRANSCRIPT_MESSAGE_LIMIT)} …[truncated]`
+      : text;
+  const lines: string[] = [];
+  for (const m of messages) {
+    const text = contentText(m.content).trim();
+    if (m.role === "tool") {
+      lines.push(`[tool result] ${clip(text)}`);
+      continue;
+    }
+    if (text) lines.push(`[${m.role}] ${clip(text)}`);
+    for (const tc of m.tool_calls ?? []) {
+      lines.push(`[${m.role} calls ${tc.function.name}] ${clip(tc.function.arguments)}`);
+    }
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * Summarize older turns in place: messages[0] (the system prompt) stays,
+ * everything up to the split is replaced by one summary message. Recent
+ * history is kept verbatim — about 30% of the context window, or just the
+ * latest turn when no window is configured.
+ */
+export async function compactConversation(
+  messages: ChatMessage[],
+  llm: ChatClient,
+  options: CompactionOptions = {},
+  signal?: AbortSignal,
+): Promise<CompactionResult> {
+  const tokensBefore = estimatePromptTokens(messages);
+  const keepTokens = Math.floor((options.contextWindow ?? 0) * KEEP_RECENT_FRACTION);
+  const split = findCompactionSplit(messages, keepTokens);
+  if (split <= 1) {
+    return { removedMessages: 0, tokensBefore, tokensAfter: tokensBefore };
+  }
+
+  const older = messages.slice(1, split);
+  const response = await llm.chat(
+    [
+      { role: "system", content: SUMMARIZE_PROMPT },
+      { role: "user", content: toTranscript(older) },
+    ],
+    undefined,
+    undefined,
+    signal,
+  );
+  const summary = response.content?.trim() || "(the model returned an empty summary)";
+  messages.splice(1, older.length, { role: "user", content: `${SUMMARY_HEADER}\n${summary}` });
+
+  return {
+    removedMessages: older.length,
+    tokensBefore,
+    tokensAfter: estimatePromptTokens(messages),
+    usage: response.usage,
+  };
+}
@@ -0,0 +1,242 @@
+import { describe, expect, it, vi } from "vitest";
+import { UserAbortError } from "../errors.js";
+import type { ChatMessage, LLMResponse, ToolDefinition } from "../llm/index.js";
+import { ToolRegistry } from "../tools/index.js";
+import { DELEGATE_TOOL_NAME, registerDelegateTool } from "./delegate.js";
+import type { AgentEvent } from "./events.js";
+import { runAgentWithEvents } from "./loop.js";
+
+function toolCall(name: string, args: Record<string, unknown>): LLMResponse {
+  return {
+    content: null,
+    thinking: null,
+    toolCalls: [{ id: `call-${name}`, name, arguments: args }],
+    finishReason: "tool_calls",
+  };
+}
+
+function answer(content: string): LLMResponse {
+  return { content, thinking: null, toolCalls: [], finishReason: "stop" };
+}
+
+/**
+ * Mock LLM that replays responses and records what each request contained.
+ * Like the real clients, it fails with UserAbortError once the signal fires.
+ */
+function makeMockLlm(responses: LLMResponse[]) {
+  const requests: Array<{ messages: ChatMessage[]; tools: string[] }> = [];
+  const llm = {
+    opts: { baseUrl: "http://test", model: "test", maxTokens: 100 },
+    chat: vi.fn(
+      async (
+        messages: ChatMessage[],
+        tools?: ToolDefinition[],
+        _onToken?: unknown,
+        signal?: AbortSignal,
+      ) => {
+        if (signal?.aborted) throw new UserAbortError();
+        requests.push({
+          messages: [...messages],
+          tools: (tools ?? []).map((t) => t.function.name),
+        });
+        const response = responses.shift();
+        if (!response) throw new Error("no more responses");
+        return response;
+      },
+    ),
+  };
+  return { llm, requests };
+}
+
+function makeRegistry(options?: { maxTurns?: number }) {
+  const registry = new ToolRegistry();
+  registry.register({
+    name: "echo",
+    description: "Echo tool",
+    parameters: { type: "object", properties: { text: { type: "string" } } },
+    handler: async (args) => `echoed: ${String(args.text)}`,
+  });
+  registry.register({
+    name: "write_file",
+    description: "Write",
+    parameters: { type: "object", properties: {} },
+    confirmationGroup: "write",
+    handler: async () => "written",
+  });
+  registerDelegateTool(registry, options);
+  return registry;
+}
+
+describe("delegate_task", () => {
+  it("runs a sub-agent and returns only its summary", async () => {
+    const { llm, requests } = makeMockLlm([
+      toolCall(DELEGATE_TOOL_NAME, { task: "echo hi", tools: ["echo"] }),
+      toolCall("echo", { text: "hi" }),
+      answer("Echoed hi."),
+      answer("done"),
+    ]);
+    const messages: ChatMessage[] = [{ role: "user", content: "go" }];
+    const events: AgentEvent[] = [];
+
+    const result = await runAgentWithEvents(messages, llm as never, makeRegistry(), (e) =>
+      events.push(e),
+    );
+
+    expect(result.response).toBe("done");
+    expect(messages.filter((m) => m.role === "tool")).toEqual([
+      { role: "tool", content: "Echoed hi.", tool_call_id: `call-${DELEGATE_TOOL_NAME}` },
+    ]);
+    // The sub-agent starts fresh, with only the tools it was given
+    expect(requests[1].messages).toHaveLength(2);
+    expect(requests[1].messages[0].role).toBe("system");
+    expect(requests[1].messages[1]).toEqual({ role: "user", content: "echo hi" });
+    expect(requests[1].tools).toEqual(["echo"]);
+    expect(requests[0].tools).toContain(DELEGATE_TOOL_NAME);
+
+    const nested = events.flatMap((e) => (e.type === "subagent" ? [e.event] : []));
+    expect(nested.map((e) => e.type)).toContain("tool_call");
+    expect(nested.at(-1)?.type).toBe("final");
+    expect(events.find((e) => e.type === "subagent")).toMatchObject({
+      turn: 1,
+      name: DELEGATE_TOOL_NAME,
+    });
+  });
+
+  it("adds the sub-agent's usage to the parent run", async () => {
+    const usage = (n: number) => ({
+      promptTokens: n,
+      completionTokens: 1,
+      totalTokens: n + 1,
+      estimated: false,
+    });
+    const { llm } = makeMockLlm([
+      { ...toolCall(DELEGATE_TOOL_NAME, { task: "echo hi" }), usage: usage(10) },
+      { ...toolCall("echo", { text: "hi" }), usage: usage(20) },
+      { ...answer("Echoed hi."), usage: usage(30) },
+      { ...answer("done"), usage: usage(40) },
+    ]);
+
+    const result = await runAgentWithEvents(
+      [{ role: "user", content: "go" }],
+      llm as never,
+      makeRegistry(),
+      () => {},
+    );
+
+    expect(result.callUsage).toEqual([usage(10), usage(20), usage(30), usage(40)]);
+    expect(result.usage).toMatchObject({ promptTokens: 100, totalTokens: 104 });
+  });
+
+  it("defaults to every tool except itself", async () => {
+    const { llm, requests } = makeMockLlm([
+      toolCall(DELEGATE_TOOL_NAME, { task: "look around" }),
+      answer("Nothing there."),
+      answer("done"),
+    ]);
+
+    await runAgentWithEvents(
+      [{ role: "user", content: "go" }],
+      llm as never,
+      makeRegistry(),
+      () => {},
+    );
+
+    expect(requests[1].tools).toEqual(["echo", "write_file"]);
+  });
+
+  it("only hands over tools the calling loop has", async () => {
+    const { llm, requests } = makeMockLlm([
+      toolCall(DELEGATE_TOOL_NAME, { task: "look around" }),
+      answer("Nothing there."),
+      answer("done"),
+    ]);
+    const registry = makeRegistry();
+
+    await runAgentWithEvents(
+      [{ role: "user", content: "go" }],
+      llm as never,
+      registry.subset(["echo", DELEGATE_TOOL_NAME]),
+      () => {},
+    );
+
+    expect(requests[1].tools).toEqual(["echo"]);
+  });
+
+  it("rejects tools the parent doesn't have", async () => {
+    const { llm } = makeMockLlm([
+      toolCall(DELEGATE_TOOL_NAME, { task: "x", tools: ["echo", "rm_rf", DELEGATE_TOOL_NAME] }),
+      answer("done"),
+    ]);
+    const messages: ChatMessage[] = [{ role: "user", content: "go" }];
+
+    await runAgentWithEvents(messages, llm as never, makeRegistry(), () => {});
+
+    const tool = messages.find((m) => m.role === "tool");
+    expect(tool?.content).toContain("can't use rm_rf, delegate_task");
+    expect(llm.chat).toHaveBeenCalledTimes(2);
+  });
+
+  it("caps the sub-agent's turns", async () => {
+    const { llm, requests } = makeMockLlm([
+      toolCall(DELEGATE_TOOL_NAME, { task: "loop", max_turns: 50 }),
+      toolCall("echo", { text: "1" }),
+      toolCall("echo", { text: "2" }),
+      answer("done"),
+    ]);
+
+    await runAgentWithEvents(
+      [{ role: "user", content: "go" }],
+      llm as never,
+      makeRegistry({ maxTurns: 2 }),
+      () => {},
+    );
+
+    // Two sub-agent calls, then the parent answers
+    expect(requests).toHaveLength(4);
+    expect(requests[3].messages.at(-1)?.content).toContain("max turns reached");
+  });
+
+  it("asks for confirmation at the parent's permission level", async () => {
+    const { llm } = makeMockLlm([
+      toolCall(DELEGATE_TOOL_NAME, { task: "write" }),
+      toolCall("write_file", {}),
+      answer("Couldn't write."),
+      answer("done"),
+    ]);
+    const registry = makeRegistry();
+    const confirm = vi.fn(async () => false);
+    registry.setConfirmationCallback(confirm);
+    const events: AgentEvent[] = [];
+
+    await runAgentWithEvents([{ role: "user", content: "go" }], llm as never, registry, (e) =>
+      events.push(e),
+    );
+
+    expect(confirm).toHaveBeenCalledWith("write_file", {});
+    expect(events.some((e) => e.type === "subagent" && e.event.type === "confirmation")).toBe(true);
+  });
+
+  it("stops when the parent run is cancelled", async () => {
+    const controller = new AbortController();
+    const { llm } = makeMockLlm([
+      toolCall(DELEGATE_TOOL_NAME, { task: "echo" }),
+      toolCall("echo", { text: "1" }),
+    ]);
+    const registry = makeRegistry();
+    registry.register({
+      name: "echo",
+      description: "Echo tool",
+      parameters: { type: "object", properties: {} },
+      handler: async () => {
+        controller.abort();
+        return "echoed";
+      },
+    });
+
+    await expect(
+      runAgentWithEvents([{ role: "user", content: "go" }], llm as never, registry, () => {}, {
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow(UserAbortError);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * delegate_task tool — hands a self-contained job to a sub-agent.
+ *
+ * The sub-agent is a nested agent loop with a fresh conversation, a subset of
+ * the tools and its own turn budget. Only its final summary comes back as the
+ * tool result, so a long search or refactor doesn't fill the main
+ * conversation with dozens of tool results. Its events are reported through
+ * the tool context, its token usage is added to the parent run's, and it runs
+ * under the parent's abort signal, model, permission level and confirmation
+ * prompts.
+ */
+
+import { DEFAULT_SUBAGENT_MAX_TURNS } from "../config/loader.js";
+import type { ChatMessage } from "../llm/index.js";
+import type { ToolRegistry } from "../tools/index.js";
+import { runAgentWithEvents } from "./loop.js";
+import { buildSubagentPrompt } from "./prompt.js";
+
+export const DELEGATE_TOOL_NAME = "delegate_task";
+
+export interface DelegateOptions {
+  /** Most LLM calls a sub-agent may make; the model can ask for fewer. Defaults to 10. */
+  maxTurns?: number;
+}
+
+/**
+ * Register delegate_task. The sub-agent can use any tool the calling loop
+ * has (which may be a subset of `registry`), except delegate_task itself.
+ */
+export function registerDelegateTool(registry: ToolRegistry, options: DelegateOptions = {}): void {
+  const turnLimit = options.maxTurns ?? DEFAULT_SUBAGENT_MAX_TURNS;
+
+  registry.register({
+    name: DELEGATE_TOOL_NAME,
+    description:
+      "Hand a self-contained task to a sub-agent that works on it with its own tools and " +
+      "returns only a summary of the outcome. Use it for multi-step work whose intermediate " +
+      "results you don't need to see, e.g. searching a codebase or making a series of edits. " +
+      "The sub-agent can't see this conversation, so describe the task fully.",
+    parameters: {
+      type: "object",
+      properties: {
+        task: {
+          type: "string",
+          description: "What the sub-agent should do and what its summary should include.",
+        },
+        tools: {
+          type: "array",
+          items: { type: "string" },
+          description: "Names of the tools the sub-agent may use. Defaults to all of yours.",
+        },
+        max_turns: {
+          type: "integer",
+          description: `Most LLM calls the sub-agent may make, up to ${turnLimit}. Defaults to ${turnLimit}.`,
+        },
+      },
+      required: ["task"],
+    },
+    async handler(args, context) {
+      if (!context.llm) throw new Error("no model to run the sub-agent with");
+      const task = typeof args.task === "string" ? args.task.trim() : "";
+      if (!task) throw new Error("task must be a non-empty string");
+
+      const scope = context.tools ?? registry;
+      const available = scope.listNames().filter((name) => name !== DELEGATE_TOOL_NAME);
+      const names = Array.isArray(args.tools) ? args.tools.map(String) : available;
+      const unknown = names.filter((name) => !available.includes(name));
+      if (unknown.length > 0) {
+        throw new Error(
+          `the sub-agent can't use ${unknown.join(", ")}. Available tools: ${available.join(", ")}`,
+        );
+      }
+      const requested = Number(args.max_turns);
+      const maxTurns =
+        Number.isInteger(requested) && requested > 0 ? Math.min(requested, turnLimit) : turnLimit;
+
+      const messages: ChatMessage[] = [
+        { role: "system", content: buildSubagentPrompt() },
+        { role: "user", content: task },
+      ];
+      const result = await runAgentWithEvents(
+        messages,
+        context.llm,
+        scope.subset(names),
+        (event) => context.report?.(event),
+        { maxTurns, signal: context.signal },
+      );
+      return { content: result.response, usage: result.callUsage };
+    },
+  });
+}
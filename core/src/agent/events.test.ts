@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { type AgentEvent, describeAgentEvent } from "./events.js";
+
+describe("describeAgentEvent", () => {
+  it("renders progress events as log lines", () => {
+    expect(describeAgentEvent({ type: "turn_start", turn: 2 })).toBe("[turn 2]");
+    expect(
+      describeAgentEvent({
+        type: "tool_call",
+        turn: 1,
+        id: "1",
+        name: "read_file",
+        arguments: { path: "a.txt" },
+      }),
+    ).toBe('[tool] read_file({"path":"a.txt"})');
+    expect(
+      describeAgentEvent({
+        type: "tool_call",
+        turn: 1,
+        id: "1",
+        name: "write_file",
+        arguments: {},
+        invalid: "truncated",
+      }),
+    ).toBe("[tool] write_file not run: arguments cut off");
+    expect(describeAgentEvent({ type: "schema_retry", turn: 1, errors: ["a", "b"] })).toBe(
+      "[schema] answer rejected: a; b",
+    );
+    expect(
+      describeAgentEvent({
+        type: "loop_detected",
+        turn: 6,
+        calls: ['read_file({"path":"a"})', 'read_file({"path":"b"})'],
+        repeats: 3,
+        stopping: false,
+      }),
+    ).toBe(
+      '[loop] read_file({"path":"a"}) → read_file({"path":"b"}) repeated 3 times — asking the model to change course',
+    );
+  });
+
+  it("has no line for streamed text or results", () => {
+    expect(describeAgentEvent({ type: "token", text: "hi" })).toBeUndefined();
+    expect(
+      describeAgentEvent({
+        type: "tool_result",
+        turn: 1,
+        id: "1",
+        name: "echo",
+        content: "x",
+        images: 0,
+        durationMs: 1,
+      }),
+    ).toBeUndefined();
+  });
+
+  it("indents a sub-agent's lines under the tool call", () => {
+    const subagent = (event: AgentEvent): AgentEvent => ({
+      type: "subagent",
+      turn: 1,
+      id: "1",
+      name: "delegate_task",
+      event,
+    });
+    expect(describeAgentEvent(subagent({ type: "turn_start", turn: 1 }))).toBe("  [turn 1]");
+    expect(describeAgentEvent(subagent(subagent({ type: "turn_start", turn: 3 })))).toBe(
+      "    [turn 3]",
+    );
+    expect(describeAgentEvent(subagent({ type: "token", text: "hi" }))).toBeUndefined();
+  });
+});
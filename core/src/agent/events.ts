@@ -0,0 +1,112 @@
+/**
+ * Agent events — what the agent loop is doing, as structured data.
+ *
+ * runAgentWithEvents hands these to a callback and streamAgentLoop yields
+ * them, so the CLI, a daemon or a web UI can each render progress their own
+ * way instead of parsing log text. runAgentLoop turns them back into the
+ * one-line log messages it has always produced, via describeAgentEvent.
+ */
+
+import type { AgentResult } from "./loop.js";
+
+const TOOL_ARGS_PREVIEW_LENGTH = 80;
+
+export type AgentEvent =
+  /** A new LLM request is about to be made. Turns count from 1. */
+  | { type: "turn_start"; turn: number }
+  /** Streamed answer text. */
+  | { type: "token"; text: string }
+  /** Streamed reasoning text. */
+  | { type: "thinking"; text: string }
+  | {
+      type: "compaction";
+      turn: number;
+      removedMessages: number;
+      tokensBefore: number;
+      tokensAfter: number;
+    }
+  /** The answer hit maxTokens; `continuing` when the model is asked to go on. */
+  | { type: "truncated"; turn: number; continuing: boolean; continuation: number }
+  /** The answer failed the response schema and was sent back to be fixed. */
+  | { type: "schema_retry"; turn: number; errors: string[] }
+  /**
+   * The model asked for a tool. `invalid` says why it won't be run: its
+   * arguments were cut off at maxTokens or aren't a JSON object.
+   */
+  | {
+      type: "tool_call";
+      turn: number;
+      id: string;
+      name: string;
+      arguments: Record<string, unknown>;
+      invalid?: "truncated" | "malformed";
+    }
+  /** The tool needs the user's approval; the registry's confirmation callback is asking. */
+  | {
+      type: "confirmation";
+      turn: number;
+      id: string;
+      name: string;
+      arguments: Record<string, unknown>;
+    }
+  | {
+      type: "tool_result";
+      turn: number;
+      id: string;
+      name: string;
+      content: string;
+      images: number;
+      durationMs: number;
+    }
+  /**
+   * The model keeps repeating the same tool calls. It is first sent a note
+   * asking it to change course; `stopping` when the run ends because of it.
+   */
+  | { type: "loop_detected"; turn: number; calls: string[]; repeats: number; stopping: boolean }
+  /**
+   * An event from a sub-agent running inside a tool call (delegate_task),
+   * tagged with that call. Nested delegation nests these.
+   */
+  | { type: "subagent"; turn: number; id: string; name: string; event: AgentEvent }
+  /** The run finished. Always the last event of a successful run. */
+  | { type: "final"; result: AgentResult }
+  /** The run failed — a UserAbortError when cancelled. Always the last event of a failed run. */
+  | { type: "error"; error: unknown };
+
+export type AgentEventHandler = (event: AgentEvent) => void;
+
+/**
+ * The log line for an event, e.g. "[turn 2]", or undefined for events that
+ * aren't logged. A sub-agent's lines are indented under the call running it.
+ */
+export function describeAgentEvent(event: AgentEvent): string | undefined {
+  switch (event.type) {
+    case "turn_start":
+      return `[turn ${event.turn}]`;
+    case "compaction":
+      return `[compact] summarized ${event.removedMessages} messages (~${event.tokensBefore} → ~${event.tokensAfter} tokens)`;
+    case "truncated":
+      return event.continuing
+        ? `[length] answer cut off at the token limit — continuing (${event.continuation})`
+        : "[length] answer still cut off at the token limit — returning it as is";
+    case "schema_retry":
+      return `[schema] answer rejected: ${event.errors.join("; ")}`;
+    case "tool_call":
+      if (event.invalid) {
+        const reason = event.invalid === "truncated" ? "arguments cut off" : "invalid arguments";
+        return `[tool] ${event.name} not run: ${reason}`;
+      }
+      return `[tool] ${event.name}(${JSON.stringify(event.arguments).slice(0, TOOL_ARGS_PREVIEW_LENGTH)})`;
+    case "loop_detected": {
+      const calls = event.calls.map((call) => call.slice(0, TOOL_ARGS_PREVIEW_LENGTH)).join(" → ");
+      const action = event.stopping ? "stopping" : "asking the model to change course";
+      return `[loop] ${calls} repeated ${event.repeats} times — ${action}`;
+    }
+    case "subagent": {
+      const line = describeAgentEvent(event.event);
+      return line === undefined ? undefined : `  ${line}`;
+    }
+    default:
+      return undefined;
+  }
+}
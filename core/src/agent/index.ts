@@ -1,3 +1,25 @@
-export type { AgentResult, LogFn } from "./loop.js";
-export { runAgentLoop } from "./loop.js";
-export { buildSystemPrompt } from "./prompt.js";
+export type { CompactionOptions, CompactionResult } from "./compact.js";
+export { compactConversation, needsCompaction } from "./compact.js";
+export type { DelegateOptions } from "./delegate.js";
+export { DELEGATE_TOOL_NAME, registerDelegateTool } from "./delegate.js";
+export type { AgentEvent, AgentEventHandler } from "./events.js";
+export { describeAgentEvent } from "./events.js";
+export type {
+  AgentLoopOptions,
+  AgentResult,
+  AgentRunOptions,
+  LogFn,
+  ResumeState,
+  StopReason,
+} from "./loop.js";
+export { runAgentLoop, runAgentWithEvents, streamAgentLoop } from "./loop.js";
+export {
+  parsePlan,
+  planningTools,
+  planRequest,
+  planRevisionRequest,
+  stepRequest,
+} from "./plan.js";
+export { buildSubagentPrompt, buildSystemPrompt } from "./prompt.js";
+export type { TracedEvent, TraceEvent, TraceSink } from "./trace.js";
+export { JsonlTraceSink, listTraceSessions, newSessionId, readTrace, TRACES_DIR } from "./trace.js";
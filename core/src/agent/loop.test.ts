@@ -1,8 +1,15 @@
-import { describe, expect, it, vi } from "vitest";
-import { UserAbortError } from "../errors.js";
-import type { LLMResponse } from "../llm/index.js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BudgetExceededError, UserAbortError } from "../errors.js";
+import {
+  type ChatMessage,
+  contentImages,
+  type LLMResponse,
+  OllamaClient,
+  type OnTokenCallback,
+} from "../llm/index.js";
 import { ToolRegistry } from "../tools/index.js";
-import { runAgentLoop } from "./loop.js";
+import type { AgentEvent } from "./events.js";
+import { runAgentLoop, runAgentWithEvents, streamAgentLoop } from "./loop.js";
 
 /** Create a minimal mock LLM client for testing. */
 function makeMockLlm(responses: LLMResponse[]) {
@@ -121,3 +128,714 @@ describe("runAgentLoop with abort signal", () => {
     expect(callArgs[3]).toBe(controller.signal);
   });
 });
+
+describe("runAgentLoop usage", () => {
+  it("reports per-call and total usage", async () => {
+    const usage = (p: number, c: number) => ({
+      promptTokens: p,
+      completionTokens: c,
+      totalTokens: p + c,
+      estimated: false,
+    });
+    const llm = makeMockLlm([
+      {
+        content: null,
+        thinking: null,
+        toolCalls: [{ id: "tc1", name: "echo", arguments: { text: "hi" } }],
+        finishReason: "tool_calls",
+        usage: usage(10, 5),
+      },
+      { content: "done", thinking: null, toolCalls: [], finishReason: "stop", usage: usage(20, 2) },
+    ]);
+    const msgs = [{ role: "user" as const, content: "test" }];
+
+    const result = await runAgentLoop(msgs, llm as never, makeToolRegistry());
+
+    expect(result.callUsage).toEqual([usage(10, 5), usage(20, 2)]);
+    expect(result.usage).toEqual(usage(30, 7));
+  });
+});
+
+describe("runAgentLoop images", () => {
+  it("passes tool images to the model in a user message after the tool results", async () => {
+    const image = {
+      type: "image_url" as const,
+      image_url: { url: "data:image/png;base64,iVBORw0KGgo=" },
+    };
+    const tools = new ToolRegistry();
+    tools.register({
+      name: "snap",
+      description: "Returns an image",
+      parameters: { type: "object", properties: {} },
+      handler: async () => ({ content: "snapped", images: [image] }),
+    });
+    const llm = makeMockLlm([
+      {
+        content: null,
+        thinking: null,
+        toolCalls: [{ id: "tc1", name: "snap", arguments: {} }],
+        finishReason: "tool_calls",
+      },
+      { content: "a cat", thinking: null, toolCalls: [], finishReason: "stop" },
+    ]);
+    const msgs: ChatMessage[] = [{ role: "user", content: "take a look" }];
+
+    await runAgentLoop(msgs, llm as never, tools);
+
+    expect(msgs[2]).toEqual({ role: "tool", content: "snapped", tool_call_id: "tc1" });
+    expect(msgs[3].role).toBe("user");
+    expect(contentImages(msgs[3].content)).toEqual([image]);
+  });
+});
+
+describe("runAgentLoop response schema", () => {
+  const schema = {
+    type: "object",
+    properties: { answer: { type: "integer" } },
+    required: ["answer"],
+  };
+  const final = (content: string): LLMResponse => ({
+    content,
+    thinking: null,
+    toolCalls: [],
+    finishReason: "stop",
+  });
+
+  it("passes the schema to the client and returns the parsed answer", async () => {
+    const llm = makeMockLlm([final('{"answer": 42}')]);
+    const msgs: ChatMessage[] = [{ role: "user", content: "q" }];
+
+    const result = await runAgentLoop(
+      msgs,
+      llm as never,
+      makeToolRegistry(),
+      undefined,
+      undefined,
+      5,
+      undefined,
+      {
+        responseSchema: schema,
+      },
+    );
+
+    expect(result.structured).toEqual({ answer: 42 });
+    expect(result.schemaErrors).toBeUndefined();
+    expect((llm.chat.mock.calls[0] as unknown[])[4]).toEqual({ responseSchema: schema });
+  });
+
+  it("re-prompts with validation errors until the answer matches", async () => {
+    const llm = makeMockLlm([final("the answer is 42"), final('{"answer": 42}')]);
+    const msgs: ChatMessage[] = [{ role: "user", content: "q" }];
+
+    const result = await runAgentLoop(
+      msgs,
+      llm as never,
+      makeToolRegistry(),
+      undefined,
+      undefined,
+      5,
+      undefined,
+      {
+        responseSchema: schema,
+      },
+    );
+
+    expect(result.structured).toEqual({ answer: 42 });
+    expect(result.turns).toBe(2);
+    expect(msgs[1]).toEqual({ role: "assistant", content: "the answer is 42" });
+    expect(msgs[2].role).toBe("user");
+    expect(msgs[2].content).toContain("not valid JSON");
+  });
+
+  it("gives up with schemaErrors after the retry limit", async () => {
+    const llm = makeMockLlm([
+      final('{"answer": "x"}'),
+      final('{"answer": "y"}'),
+      final('{"answer": "z"}'),
+    ]);
+    const msgs: ChatMessage[] = [{ role: "user", content: "q" }];
+
+    const result = await runAgentLoop(
+      msgs,
+      llm as never,
+      makeToolRegistry(),
+      undefined,
+      undefined,
+      10,
+      undefined,
+      {
+        responseSchema: schema,
+      },
+    );
+
+    expect(llm.chat).toHaveBeenCalledTimes(3);
+    expect(result.structured).toBeUndefined();
+    expect(result.schemaErrors).toEqual(["$.answer: expected integer, got string"]);
+    expect(result.response).toBe('{"answer": "z"}');
+  });
+
+  describe("with a local model that has tools", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("lets it call a tool, then validates the structured answer", async () => {
+      const lines = [
+        [
+          { message: { content: "", tool_calls: [{ function: { name: "echo", arguments: {} } }] } },
+          { message: { content: "" }, done: true, done_reason: "stop" },
+        ],
+        [{ message: { content: '{"answer": 42}' }, done: true, done_reason: "stop" }],
+      ];
+      const fetchMock = vi.fn(async () => {
+        const body = (lines.shift() ?? []).map((line) => `${JSON.stringify(line)}\n`).join("");
+        return new Response(body, { status: 200 });
+      });
+      vi.stubGlobal("fetch", fetchMock);
+      const llm = new OllamaClient({ baseUrl: "http://test", model: "qwen3", maxTokens: 100 });
+      const msgs: ChatMessage[] = [
+        { role: "system", content: "sys" },
+        { role: "user", content: "q" },
+      ];
+
+      const result = await runAgentLoop(
+        msgs,
+        llm,
+        makeToolRegistry(),
+        undefined,
+        undefined,
+        5,
+        undefined,
+        { responseSchema: schema },
+      );
+
+      expect(result.structured).toEqual({ answer: 42 });
+      expect(result.toolsUsed).toEqual(["echo"]);
+      // A native format would rule out the tool call, so the schema goes in the prompt
+      for (const [, init] of fetchMock.mock.calls as unknown as Array<[string, RequestInit]>) {
+        const body = JSON.parse(String(init.body));
+        expect(body.format).toBeUndefined();
+        expect(body.tools).toHaveLength(1);
+        expect(body.messages[0].content).toContain(JSON.stringify(schema));
+      }
+    });
+  });
+});
+
+describe("runAgentLoop tool capability", () => {
+  it("sends no tools to a model flagged as not tool-capable", async () => {
+    const llm = makeMockLlm([
+      { content: "hi", thinking: null, toolCalls: [], finishReason: "stop" },
+    ]);
+    (llm.opts as { supportsTools?: boolean }).supportsTools = false;
+
+    await runAgentLoop([{ role: "user", content: "q" }], llm as never, makeToolRegistry());
+
+    expect((llm.chat.mock.calls[0] as unknown[])[1]).toEqual([]);
+  });
+});
+
+describe("runAgentLoop length truncation", () => {
+  const cut = (content: string): LLMResponse => ({
+    content,
+    thinking: null,
+    toolCalls: [],
+    finishReason: "length",
+  });
+
+  it("continues a cut-off answer and stitches the pieces together", async () => {
+    const responses = [
+      cut("The quick brown "),
+      cut("fox jumps "),
+      { content: "over the dog.", thinking: null, toolCalls: [], finishReason: "stop" },
+    ];
+    // The loop edits the history in place, so keep a copy of what each call saw
+    const sent: ChatMessage[][] = [];
+    const llm = {
+      opts: { baseUrl: "http://test", model: "test", maxTokens: 100 },
+      chat: vi.fn(async (messages: ChatMessage[]) => {
+        sent.push([...messages]);
+        return responses.shift();
+      }),
+    };
+    const msgs: ChatMessage[] = [{ role: "user", content: "tell me" }];
+
+    const result = await runAgentLoop(msgs, llm as never, makeToolRegistry());
+
+    expect(result.response).toBe("The quick brown fox jumps over the dog.");
+    expect(result.turns).toBe(3);
+    const second = sent[1];
+    expect(second.at(-2)).toEqual({ role: "assistant", content: "The quick brown " });
+    expect(String(second.at(-1)?.content)).toContain("Continue exactly where it stopped");
+    // The continuation exchange doesn't outlive the answer
+    expect(msgs).toEqual([{ role: "user", content: "tell me" }]);
+  });
+
+  it("returns what it has once the continuation limit is reached", async () => {
+    const llm = makeMockLlm([cut("a"), cut("b"), cut("c"), cut("d"), cut("e")]);
+
+    const result = await runAgentLoop(
+      [{ role: "user", content: "go" }],
+      llm as never,
+      makeToolRegistry(),
+    );
+
+    expect(result.response).toBe("abcd");
+    expect(llm.chat).toHaveBeenCalledTimes(4);
+  });
+
+  it("reports truncated tool arguments to the model instead of running the tool", async () => {
+    const handler = vi.fn(async () => "ran");
+    const tools = new ToolRegistry();
+    tools.register({
+      name: "write",
+      description: "Write",
+      parameters: { type: "object", properties: {} },
+      handler,
+    });
+    const llm = makeMockLlm([
+      {
+        content: null,
+        thinking: null,
+        toolCalls: [
+          { id: "tc1", name: "write", arguments: {}, invalidArguments: '{"path": "a.txt", "cont' },
+        ],
+        finishReason: "length",
+      },
+      { content: "gave up", thinking: null, toolCalls: [], finishReason: "stop" },
+    ]);
+    const msgs: ChatMessage[] = [{ role: "user", content: "write it" }];
+
+    const result = await runAgentLoop(msgs, llm as never, tools);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.toolsUsed).toEqual([]);
+    const toolMsg = msgs.find((m) => m.role === "tool");
+    expect(toolMsg?.tool_call_id).toBe("tc1");
+    expect(String(toolMsg?.content)).toContain("cut off by the output token limit");
+    expect(String(toolMsg?.content)).toContain('{"path": "a.txt", "cont');
+  });
+
+  it("reports malformed tool arguments without blaming the token limit", async () => {
+    const llm = makeMockLlm([
+      {
+        content: null,
+        thinking: null,
+        toolCalls: [{ id: "tc1", name: "echo", arguments: {}, invalidArguments: "[1, 2]" }],
+        finishReason: "tool_calls",
+      },
+      { content: "ok", thinking: null, toolCalls: [], finishReason: "stop" },
+    ]);
+    const msgs: ChatMessage[] = [{ role: "user", content: "echo" }];
+
+    await runAgentLoop(msgs, llm as never, makeToolRegistry());
+
+    const toolMsg = msgs.find((m) => m.role === "tool");
+    expect(String(toolMsg?.content)).toContain("not a valid JSON object");
+  });
+});
+
+describe("runAgentLoop concurrent tool calls", () => {
+  /** Tools that record when each call starts and finishes. */
+  function makeTimedTools(safe: string[]) {
+    const events: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+    const registry = new ToolRegistry();
+    for (const name of ["read", "write"]) {
+      registry.register({
+        name,
+        description: name,
+        parameters: { type: "object", properties: {} },
+        confirmationGroup: "read",
+        concurrencySafe: safe.includes(name),
+        handler: async (args) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          events.push(`start ${args.n}`);
+          // Later calls finish first, so any reordering would show
+          await new Promise((r) => setTimeout(r, 30 - Number(args.n) * 5));
+          events.push(`end ${args.n}`);
+          running--;
+          return `${name} ${args.n}`;
+        },
+      });
+    }
+    return { registry, events, maxRunning: () => maxRunning };
+  }
+
+  function callsTo(names: string[]): LLMResponse[] {
+    return [
+      {
+        content: null,
+        thinking: null,
+        toolCalls: names.map((name, i) => ({ id: `tc${i}`, name, arguments: { n: i } })),
+        finishReason: "tool_calls",
+      },
+      { content: "done", thinking: null, toolCalls: [], finishReason: "stop" },
+    ];
+  }
+
+  it("runs safe calls in parallel and keeps results in call order", async () => {
+    const { registry, maxRunning } = makeTimedTools(["read"]);
+    const msgs: ChatMessage[] = [{ role: "user", content: "go" }];
+
+    await runAgentLoop(msgs, makeMockLlm(callsTo(["read", "read", "read"])) as never, registry);
+
+    expect(maxRunning()).toBe(3);
+    expect(msgs.filter((m) => m.role === "tool").map((m) => [m.tool_call_id, m.content])).toEqual([
+      ["tc0", "read 0"],
+      ["tc1", "read 1"],
+      ["tc2", "read 2"],
+    ]);
+  });
+
+  it("respects the concurrency limit", async () => {
+    const { registry, maxRunning } = makeTimedTools(["read"]);
+
+    await runAgentLoop(
+      [{ role: "user", content: "go" }],
+      makeMockLlm(callsTo(["read", "read", "read", "read"])) as never,
+      registry,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { toolConcurrency: 2 },
+    );
+
+    expect(maxRunning()).toBe(2);
+  });
+
+  it("runs unsafe calls on their own, between the parallel runs", async () => {
+    const { registry, events } = makeTimedTools(["read"]);
+
+    await runAgentLoop(
+      [{ role: "user", content: "go" }],
+      makeMockLlm(callsTo(["read", "read", "write", "read"])) as never,
+      registry,
+    );
+
+    expect(events.indexOf("start 2")).toBeGreaterThan(events.indexOf("end 0"));
+    expect(events.indexOf("start 2")).toBeGreaterThan(events.indexOf("end 1"));
+    expect(events.indexOf("start 3")).toBeGreaterThan(events.indexOf("end 2"));
+  });
+
+  it("serializes safe calls that need confirmation", async () => {
+    const { registry, maxRunning } = makeTimedTools(["read"]);
+    registry.setPermissionLevel("read-and-write");
+    registry.setConfirmationCallback(async () => true);
+
+    await runAgentLoop(
+      [{ role: "user", content: "go" }],
+      makeMockLlm(callsTo(["read", "read"])) as never,
+      registry,
+    );
+
+    expect(maxRunning()).toBe(1);
+  });
+});
+
+describe("runAgentLoop repeated tool calls", () => {
+  const echoCall = (text: string, id = "tc"): LLMResponse => ({
+    content: null,
+    thinking: null,
+    toolCalls: [{ id, name: "echo", arguments: { text } }],
+    finishReason: "tool_calls",
+  });
+
+  it("nudges the model after three identical turns and stops after five", async () => {
+    const llm = makeMockLlm(Array.from({ length: 10 }, (_, i) => echoCall("same", `tc${i}`)));
+    const msgs: ChatMessage[] = [{ role: "user", content: "go" }];
+    const logs: string[] = [];
+
+    const result = await runAgentLoop(msgs, llm as never, makeToolRegistry(), (m) => logs.push(m));
+
+    expect(llm.chat).toHaveBeenCalledTimes(5);
+    expect(result).toMatchObject({ turns: 5, stopReason: "loop" });
+    expect(result.response).toContain("kept repeating the same tool calls, 5 times in a row");
+    expect(result.response).toContain('echo({"text":"same"})');
+    const notes = msgs.filter((m) => m.role === "user" && String(m.content).includes("3 times"));
+    expect(notes).toHaveLength(1);
+    expect(logs).toContain(
+      '[loop] echo({"text":"same"}) repeated 3 times — asking the model to change course',
+    );
+    expect(logs.at(-1)).toContain("repeated 5 times — stopping");
+  });
+
+  it("catches calls alternating between two turns", async () => {
+    const llm = makeMockLlm(
+      Array.from({ length: 12 }, (_, i) => echoCall(i % 2 === 0 ? "a" : "b", `tc${i}`)),
+    );
+    const events: AgentEvent[] = [];
+
+    const result = await runAgentWithEvents(
+      [{ role: "user", content: "go" }],
+      llm as never,
+      makeToolRegistry(),
+      (e) => events.push(e),
+    );
+
+    expect(llm.chat).toHaveBeenCalledTimes(10);
+    expect(events.filter((e) => e.type === "loop_detected")).toMatchObject([
+      { turn: 6, repeats: 3, stopping: false },
+      { turn: 10, repeats: 5, stopping: true },
+    ]);
+    expect(result.response).toContain('echo({"text":"a"}) → echo({"text":"b"})');
+  });
+
+  it("lets the model recover after the note", async () => {
+    const llm = makeMockLlm([
+      echoCall("same", "tc1"),
+      echoCall("same", "tc2"),
+      echoCall("same", "tc3"),
+      echoCall("other", "tc4"),
+      { content: "done", thinking: null, toolCalls: [], finishReason: "stop" },
+    ]);
+
+    const result = await runAgentLoop(
+      [{ role: "user", content: "go" }],
+      llm as never,
+      makeToolRegistry(),
+    );
+
+    expect(result.response).toBe("done");
+  });
+});
+
+describe("runAgentLoop stop reasons", () => {
+  const echoCall: LLMResponse = {
+    content: null,
+    thinking: null,
+    toolCalls: [{ id: "tc1", name: "echo", arguments: { text: "hi" } }],
+    finishReason: "tool_calls",
+  };
+
+  it("is final for an answer", async () => {
+    const llm = makeMockLlm([
+      { content: "done", thinking: null, toolCalls: [], finishReason: "stop" },
+    ]);
+    const result = await runAgentLoop(
+      [{ role: "user", content: "go" }],
+      llm as never,
+      makeToolRegistry(),
+    );
+    expect(result.stopReason).toBe("final");
+  });
+
+  it("is max_turns when the turns run out, leaving the run ready to resume", async () => {
+    const llm = makeMockLlm([echoCall, echoCall]);
+    const msgs: ChatMessage[] = [{ role: "user", content: "go" }];
+
+    const result = await runAgentLoop(
+      msgs,
+      llm as never,
+      makeToolRegistry(),
+      undefined,
+      undefined,
+      1,
+    );
+
+    expect(result.stopReason).toBe("max_turns");
+    expect(msgs.at(-1)).toMatchObject({ role: "tool", content: "echoed: hi" });
+  });
+
+  it("picks up repetition tracking where a resumed run left off", async () => {
+    const llm = makeMockLlm([
+      echoCall,
+      echoCall,
+      echoCall,
+      { content: "done", thinking: null, toolCalls: [], finishReason: "stop" },
+    ]);
+    const msgs: ChatMessage[] = [{ role: "user", content: "go" }];
+    const tools = makeToolRegistry();
+
+    const first = await runAgentWithEvents(msgs, llm as never, tools, () => {}, { maxTurns: 2 });
+    expect(first.stopReason).toBe("max_turns");
+    expect(first.resume?.callHistory).toHaveLength(2);
+
+    const events: AgentEvent[] = [];
+    const second = await runAgentWithEvents(msgs, llm as never, tools, (e) => events.push(e), {
+      maxTurns: 2,
+      resume: first.resume,
+    });
+
+    // The third identical turn overall gets the note, not the fifth
+    expect(events.find((e) => e.type === "loop_detected")).toMatchObject({
+      turn: 1,
+      repeats: 3,
+      stopping: false,
+    });
+    expect(second).toMatchObject({ stopReason: "final", response: "done" });
+    expect(second.resume).toBeUndefined();
+  });
+
+  it("is budget when the cost cap is reached, keeping the work so far", async () => {
+    let calls = 0;
+    const llm = {
+      opts: { baseUrl: "http://test", model: "test", maxTokens: 100 },
+      chat: vi.fn(async () => {
+        if (calls++ === 0) return echoCall;
+        throw new BudgetExceededError("cloud", 5, 5);
+      }),
+    };
+    const msgs: ChatMessage[] = [{ role: "user", content: "go" }];
+
+    const result = await runAgentLoop(msgs, llm as never, makeToolRegistry());
+
+    expect(result).toMatchObject({ stopReason: "budget", turns: 1, toolsUsed: ["echo"] });
+    expect(result.response).toContain("Daily spending cap reached");
+    expect(msgs.some((m) => m.role === "tool")).toBe(true);
+  });
+});
+
+describe("agent events", () => {
+  /** A client that streams its answer through onToken, like the real ones. */
+  function makeStreamingLlm(responses: LLMResponse[]) {
+    return {
+      opts: { baseUrl: "http://test", model: "test", maxTokens: 100 },
+      chat: vi.fn(async (_m: unknown, _t: unknown, onToken?: OnTokenCallback) => {
+        const resp = responses.shift() as LLMResponse;
+        if (resp.thinking) onToken?.(resp.thinking, true);
+        if (resp.content) onToken?.(resp.content, false);
+        return resp;
+      }),
+    };
+  }
+
+  const toolThenAnswer = (): LLMResponse[] => [
+    {
+      content: null,
+      thinking: "use echo",
+      toolCalls: [{ id: "tc1", name: "echo", arguments: { text: "hi" } }],
+      finishReason: "tool_calls",
+    },
+    { content: "done", thinking: null, toolCalls: [], finishReason: "stop" },
+  ];
+
+  it("reports each step of a run to the handler in order", async () => {
+    const events: AgentEvent[] = [];
+    const tools = makeToolRegistry();
+
+    const result = await runAgentWithEvents(
+      [{ role: "user", content: "go" }],
+      makeStreamingLlm(toolThenAnswer()) as never,
+      tools,
+      (e) => events.push(e),
+    );
+
+    expect(events.map((e) => e.type)).toEqual([
+      "turn_start",
+      "thinking",
+      "tool_call",
+      "tool_result",
+      "turn_start",
+      "token",
+      "final",
+    ]);
+    expect(events[2]).toMatchObject({
+      turn: 1,
+      id: "tc1",
+      name: "echo",
+      arguments: { text: "hi" },
+    });
+    expect(events[3]).toMatchObject({ name: "echo", content: "echoed: hi", images: 0 });
+    expect(events.at(-1)).toEqual({ type: "final", result });
+  });
+
+  it("announces tools that will ask for confirmation", async () => {
+    const events: AgentEvent[] = [];
+    const tools = new ToolRegistry();
+    tools.register({
+      name: "echo",
+      description: "Echo",
+      parameters: { type: "object", properties: {} },
+      confirmationGroup: "write",
+      handler: async () => "ok",
+    });
+    tools.setConfirmationCallback(async () => true);
+
+    await runAgentWithEvents(
+      [{ role: "user", content: "go" }],
+      makeStreamingLlm(toolThenAnswer()) as never,
+      tools,
+      (e) => events.push(e),
+    );
+
+    const types = events.map((e) => e.type);
+    expect(types.indexOf("confirmation")).toBe(types.indexOf("tool_call") + 1);
+  });
+
+  it("ends with an error event and rejects when the run fails", async () => {
+    const events: AgentEvent[] = [];
+    const llm = {
+      opts: { baseUrl: "http://test", model: "test", maxTokens: 100 },
+      chat: vi.fn(async () => {
+        throw new Error("boom");
+      }),
+    };
+
+    await expect(
+      runAgentWithEvents([], llm as never, makeToolRegistry(), (e) => events.push(e)),
+    ).rejects.toThrow("boom");
+    expect(events.at(-1)).toMatchObject({ type: "error", error: expect.any(Error) });
+  });
+
+  it("yields the same events from streamAgentLoop", async () => {
+    const types: string[] = [];
+    for await (const event of streamAgentLoop(
+      [{ role: "user", content: "go" }],
+      makeStreamingLlm(toolThenAnswer()) as never,
+      makeToolRegistry(),
+    )) {
+      types.push(event.type);
+      if (event.type === "final") expect(event.result.response).toBe("done");
+    }
+
+    expect(types).toEqual([
+      "turn_start",
+      "thinking",
+      "tool_call",
+      "tool_result",
+      "turn_start",
+      "token",
+      "final",
+    ]);
+  });
+
+  it("yields errors instead of throwing them", async () => {
+    const llm = {
+      opts: { baseUrl: "http://test", model: "test", maxTokens: 100 },
+      chat: vi.fn(async () => {
+        throw new UserAbortError();
+      }),
+    };
+    const events: AgentEvent[] = [];
+    for await (const event of streamAgentLoop([], llm as never, makeToolRegistry())) {
+      events.push(event);
+    }
+
+    expect(events.map((e) => e.type)).toEqual(["turn_start", "error"]);
+    expect(events[1].type === "error" && events[1].error).toBeInstanceOf(UserAbortError);
+  });
+
+  it("cancels the run when the consumer stops early", async () => {
+    let seenSignal: AbortSignal | undefined;
+    const llm = {
+      opts: { baseUrl: "http://test", model: "test", maxTokens: 100 },
+      chat: vi.fn(
+        (_m: unknown, _t: unknown, _o: unknown, signal?: AbortSignal) =>
+          new Promise<LLMResponse>((_, reject) => {
+            seenSignal = signal;
+            signal?.addEventListener("abort", () => reject(new UserAbortError()));
+          }),
+      ),
+    };
+
+    for await (const event of streamAgentLoop([], llm as never, makeToolRegistry())) {
+      if (event.type === "turn_start") break;
+    }
+
+    expect(seenSignal?.aborted).toBe(true);
+  });
+});
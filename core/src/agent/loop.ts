@@ -9,48 +9,463 @@
  *
  * The loop is stateless and pure — it takes inputs and returns outputs.
  * The caller (CLI, daemon, API) manages state/persistence.
+ *
+ * Progress is reported as AgentEvents (see events.ts): to a callback with
+ * runAgentWithEvents, as an async iterable with streamAgentLoop, or as log
+ * lines and a token callback with runAgentLoop.
  */
 
-import { UserAbortError } from "../errors.js";
-import type { ChatMessage, LLMClient, OnTokenCallback } from "../llm/index.js";
-import type { ToolRegistry } from "../tools/index.js";
+import { BudgetExceededError, UserAbortError } from "../errors.js";
+import {
+  addUsage,
+  type ChatClient,
+  type ChatMessage,
+  type ImageContentPart,
+  type JsonSchema,
+  type LLMResponse,
+  type OnTokenCallback,
+  parseJsonContent,
+  type TokenUsage,
+  type ToolCall,
+  validateJsonSchema,
+  ZERO_USAGE,
+} from "../llm/index.js";
+import type { ToolOutput, ToolRegistry } from "../tools/index.js";
+import { type CompactionOptions, compactConversation, needsCompaction } from "./compact.js";
+import { type AgentEvent, type AgentEventHandler, describeAgentEvent } from "./events.js";
+import { detectToolLoop, type ToolLoop, turnCalls } from "./repetition.js";
+import type { TraceSink } from "./trace.js";
 
 const MAX_TURNS = 20;
-const TOOL_ARGS_PREVIEW_LENGTH = 80;
+const TOOL_IMAGES_NOTE = "Images returned by the tool calls above:";
+/** How many times a schema-violating answer is sent back before giving up. */
+const MAX_SCHEMA_RETRIES = 2;
+/** How many times an answer cut off at maxTokens is continued before it's returned as is. */
+const MAX_LENGTH_CONTINUATIONS = 3;
+const CONTINUE_PROMPT =
+  "Your answer was cut off by the output token limit. Continue exactly where it stopped, " +
+  "without repeating anything or starting over.";
+const INVALID_ARGS_PREVIEW_LENGTH = 200;
+/** Concurrency-safe tool calls run at most this many at a time. */
+const DEFAULT_TOOL_CONCURRENCY = 4;
+/** Repeats of the same tool calls after which the model is told it's going in circles. */
+const LOOP_NOTE_REPEATS = 3;
+/** Repeats after which the run stops. */
+const LOOP_STOP_REPEATS = 5;
+/** Longest call shown in loop notes and diagnostics. */
+const LOOP_CALL_PREVIEW_LENGTH = 200;
+
+/**
+ * Why a run ended. "final": the model answered. "max_turns": it was still
+ * working when maxTurns ran out. "loop": it kept repeating the same tool
+ * calls after being told to stop, so more turns wouldn't help. "budget":
+ * the daily cost cap was reached. "cancelled" is never returned by the
+ * loop, which throws UserAbortError instead; it is for callers that turn
+ * cancellation into a result, like the CLI's ask().
+ */
+export type StopReason = "final" | "max_turns" | "loop" | "budget" | "cancelled";
 
 export interface AgentResult {
   response: string;
+  stopReason: StopReason;
   turns: number;
   toolsUsed: string[];
+  /** Token usage summed over every LLM call in this run. */
+  usage: TokenUsage;
+  /** Token usage of each LLM call, in order. */
+  callUsage: TokenUsage[];
+  /** With a responseSchema: the parsed answer, once it validates. */
+  structured?: unknown;
+  /** With a responseSchema: why the last answer was rejected, if none validated. */
+  schemaErrors?: string[];
+  /** On a "max_turns" stop: where the run left off, to carry on with AgentRunOptions.resume. */
+  resume?: ResumeState;
+}
+
+/**
+ * The loop's bookkeeping at a "max_turns" stop: repetition history, an answer
+ * being continued past the token limit and schema retries. Passing it back
+ * lets the next run pick up the same conversation as if it had never stopped.
+ */
+export interface ResumeState {
+  callHistory: string[][];
+  loopNoted: boolean;
+  continuedContent: string;
+  continuations: number;
+  continuationStart?: ChatMessage;
+  schemaRetries: number;
+  schemaErrors?: string[];
 }
 
 export type LogFn = (message: string) => void;
 
+export interface AgentLoopOptions {
+  /** Require the final answer to be JSON matching this schema; invalid answers are re-prompted. */
+  responseSchema?: JsonSchema;
+  /** Summarize older turns before a call whose prompt would crowd the context window. */
+  compaction?: CompactionOptions;
+  /** Record every request, response and tool execution (see agent/trace.ts). */
+  trace?: TraceSink;
+  /** Most concurrency-safe tool calls run at once. Defaults to 4; 1 runs every call in turn. */
+  toolConcurrency?: number;
+}
+
+/** Options for the event-based entry points, which take everything in one object. */
+export interface AgentRunOptions extends AgentLoopOptions {
+  /** Give up after this many LLM calls. Defaults to 20. */
+  maxTurns?: number;
+  /** Cancels the run; it then fails with UserAbortError. */
+  signal?: AbortSignal;
+  /**
+   * Carry on a run that stopped at maxTurns (its AgentResult.resume) instead
+   * of starting afresh. `messages` must be the conversation it stopped in.
+   */
+  resume?: ResumeState;
+}
+
+/** Tool result explaining why a call with unparsable arguments was not run. */
+function invalidArgumentsError(tc: ToolCall, truncated: boolean): string {
+  const raw = tc.invalidArguments ?? "";
+  const preview =
+    raw.length > INVALID_ARGS_PREVIEW_LENGTH
+      ? `${raw.slice(0, INVALID_ARGS_PREVIEW_LENGTH)}… (${raw.length} chars)`
+      : raw;
+  const reason = truncated
+    ? "were cut off by the output token limit before they were complete"
+    : "are not a valid JSON object";
+  const advice = truncated
+    ? "Call it again with complete arguments. Keep them shorter, e.g. split large content across several calls."
+    : "Call it again with the arguments as a JSON object.";
+  return `Error: the arguments for ${tc.name} ${reason}, so the tool was not run.\nReceived: ${preview}\n${advice}`;
+}
+
+/**
+ * Group a turn's tool calls into batches that run one after another: each
+ * run of consecutive concurrency-safe calls is one batch, every other call is
+ * a batch on its own. Calls with unparsable arguments never run, so they join
+ * any batch.
+ */
+function batchToolCalls(calls: ToolCall[], tools: ToolRegistry): ToolCall[][] {
+  const batches: ToolCall[][] = [];
+  let parallel: ToolCall[] | undefined;
+  for (const tc of calls) {
+    if (tc.invalidArguments !== undefined || tools.isConcurrencySafe(tc.name)) {
+      if (!parallel) {
+        parallel = [];
+        batches.push(parallel);
+      }
+      parallel.push(tc);
+    } else {
+      parallel = undefined;
+      batches.push([tc]);
+    }
+  }
+  return batches;
+}
+
+/** Map items with at most `limit` calls in flight. Results keep the input order. */
+async function mapWithLimit<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
+
+/** Parse and validate a final answer. Returns the value, or the reasons it was rejected. */
+function checkStructured(
+  content: string,
+  schema: JsonSchema,
+): { ok: true; value: unknown } | { ok: false; errors: string[] } {
+  const parsed = parseJsonContent(content);
+  if (!parsed.ok) return { ok: false, errors: [parsed.error] };
+  const errors = validateJsonSchema(parsed.value, schema);
+  return errors.length === 0 ? { ok: true, value: parsed.value } : { ok: false, errors };
+}
+
+function describeLoop(loop: ToolLoop): string {
+  return loop.calls
+    .map((call) =>
+      call.length > LOOP_CALL_PREVIEW_LENGTH ? `${call.slice(0, LOOP_CALL_PREVIEW_LENGTH)}…` : call,
+    )
+    .join(" → ");
+}
+
+/** Note sent to a model that keeps repeating itself. */
+function loopNote(loop: ToolLoop): string {
+  return (
+    `You have made the same tool calls ${loop.repeats} times in a row: ${describeLoop(loop)}\n` +
+    "Repeating them will not give different results. Use what they already returned, " +
+    "try a different approach, or give your final answer."
+  );
+}
+
+/** Final response of a run stopped for going in circles. */
+function loopDiagnostic(loop: ToolLoop): string {
+  return `(stopped — the model kept repeating the same tool calls, ${loop.repeats} times in a row: ${describeLoop(loop)})`;
+}
+
+/**
+ * Run the agent loop, reporting progress as log lines and streamed tokens.
+ * Kept for callers written against the positional signature; new code should
+ * prefer runAgentWithEvents or streamAgentLoop.
+ */
 export async function runAgentLoop(
   messages: ChatMessage[],
-  llm: LLMClient,
+  llm: ChatClient,
   tools: ToolRegistry,
   log: LogFn = () => {},
   onToken?: OnTokenCallback,
   maxTurns: number = MAX_TURNS,
   signal?: AbortSignal,
+  options: AgentLoopOptions = {},
 ): Promise<AgentResult> {
-  const schemas = tools.getSchemas();
+  const emit = (event: AgentEvent) => {
+    if (event.type === "token" || event.type === "thinking") {
+      onToken?.(event.text, event.type === "thinking");
+      return;
+    }
+    const line = describeAgentEvent(event);
+    if (line) log(line);
+  };
+  // Without a token callback the client isn't asked to stream tokens at all
+  return runLoop(messages, llm, tools, emit, onToken !== undefined, {
+    ...options,
+    maxTurns,
+    signal,
+  });
+}
+
+/**
+ * Run the agent loop, handing every event to `onEvent` as it happens. Events
+ * arrive synchronously and in order, so a handler can draw a tool call before
+ * its confirmation prompt appears. The last event is "final" or "error"; the
+ * promise resolves with the same result or rejects with the same error.
+ */
+export async function runAgentWithEvents(
+  messages: ChatMessage[],
+  llm: ChatClient,
+  tools: ToolRegistry,
+  onEvent: AgentEventHandler,
+  options: AgentRunOptions = {},
+): Promise<AgentResult> {
+  try {
+    const result = await runLoop(messages, llm, tools, onEvent, true, options);
+    onEvent({ type: "final", result });
+    return result;
+  } catch (error: unknown) {
+    onEvent({ type: "error", error });
+    throw error;
+  }
+}
+
+/**
+ * Run the agent loop as an async iterable of events, ending with "final" or
+ * "error" (errors are yielded, not thrown). The loop runs ahead of the
+ * consumer, queueing events; leaving the iteration early cancels the run.
+ */
+export async function* streamAgentLoop(
+  messages: ChatMessage[],
+  llm: ChatClient,
+  tools: ToolRegistry,
+  options: AgentRunOptions = {},
+): AsyncGenerator<AgentEvent, void, undefined> {
+  const stop = new AbortController();
+  const signal = options.signal ? AbortSignal.any([options.signal, stop.signal]) : stop.signal;
+  const queue: AgentEvent[] = [];
+  let wake: (() => void) | undefined;
+  const push = (event: AgentEvent) => {
+    queue.push(event);
+    wake?.();
+    wake = undefined;
+  };
+  // The error was already pushed as an event
+  runAgentWithEvents(messages, llm, tools, push, { ...options, signal }).catch(() => {});
+
+  try {
+    for (;;) {
+      const event = queue.shift();
+      if (!event) {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        continue;
+      }
+      yield event;
+      if (event.type === "final" || event.type === "error") return;
+    }
+  } finally {
+    stop.abort();
+  }
+}
+
+async function runLoop(
+  messages: ChatMessage[],
+  llm: ChatClient,
+  tools: ToolRegistry,
+  emit: AgentEventHandler,
+  streamTokens: boolean,
+  options: AgentRunOptions,
+): Promise<AgentResult> {
+  const {
+    responseSchema,
+    compaction,
+    trace,
+    toolConcurrency = DEFAULT_TOOL_CONCURRENCY,
+    maxTurns = MAX_TURNS,
+    signal,
+    resume,
+  } = options;
+  const onToken: OnTokenCallback | undefined = streamTokens
+    ? (text, isThinking) => emit({ type: isThinking ? "thinking" : "token", text })
+    : undefined;
+  // Models flagged as not tool-capable get a plain chat request
+  const schemas = llm.opts.supportsTools === false ? [] : tools.getSchemas();
   const toolsUsed: string[] = [];
+  const callUsage: TokenUsage[] = [];
+  const totalUsage = () => callUsage.reduce(addUsage, ZERO_USAGE);
+  let schemaRetries = resume?.schemaRetries ?? 0;
+  let schemaErrors = resume?.schemaErrors;
+  // Answers cut off at maxTokens: text so far and the first message of the continuation exchange
+  let continuedContent = resume?.continuedContent ?? "";
+  let continuations = resume?.continuations ?? 0;
+  let continuationStart = resume?.continuationStart;
+  // Calls of each tool-calling turn, to notice the model going in circles
+  const callHistory = [...(resume?.callHistory ?? [])];
+  let loopNoted = resume?.loopNoted ?? false;
 
   for (let turn = 0; turn < maxTurns; turn++) {
-    log(`[turn ${turn + 1}]`);
-    const response = await llm.chat(messages, schemas, onToken, signal);
+    emit({ type: "turn_start", turn: turn + 1 });
+    if (compaction && needsCompaction(messages, compaction, schemas)) {
+      const compacted = await compactConversation(messages, llm, compaction, signal);
+      if (compacted.usage) callUsage.push(compacted.usage);
+      if (compacted.removedMessages > 0) {
+        const event = {
+          type: "compaction" as const,
+          turn: turn + 1,
+          removedMessages: compacted.removedMessages,
+          tokensBefore: compacted.tokensBefore,
+          tokensAfter: compacted.tokensAfter,
+        };
+        trace?.write(event);
+        emit(event);
+      }
+    }
+    trace?.write({
+      type: "request",
+      turn: turn + 1,
+      model: llm.opts.model,
+      messages: [...messages],
+      tools: schemas.map((t) => t.function.name),
+    });
+    const requestStart = Date.now();
+    let response: LLMResponse;
+    try {
+      response = await llm.chat(messages, schemas, onToken, signal, { responseSchema });
+    } catch (err: unknown) {
+      trace?.write({
+        type: "error",
+        turn: turn + 1,
+        message: err instanceof Error ? err.message : String(err),
+        durationMs: Date.now() - requestStart,
+      });
+      // Out of budget: end the run with the work so far rather than throwing it away
+      if (err instanceof BudgetExceededError) {
+        return {
+          response: `(stopped — ${err.message})`,
+          stopReason: "budget",
+          turns: turn,
+          toolsUsed,
+          usage: totalUsage(),
+          callUsage,
+          schemaErrors,
+        };
+      }
+      throw err;
+    }
+    trace?.write({
+      type: "response",
+      turn: turn + 1,
+      content: response.content,
+      thinking: response.thinking,
+      toolCalls: response.toolCalls,
+      finishReason: response.finishReason,
+      usage: response.usage,
+      durationMs: Date.now() - requestStart,
+    });
+    if (response.usage) callUsage.push(response.usage);
+
+    const truncated = response.finishReason === "length";
 
     // No tool calls = final answer
     if (response.toolCalls.length === 0) {
-      return {
-        response: response.content || "(no response)",
+      const piece = response.content ?? "";
+      if (truncated && continuations < MAX_LENGTH_CONTINUATIONS && turn + 1 < maxTurns) {
+        continuations++;
+        emit({ type: "truncated", turn: turn + 1, continuing: true, continuation: continuations });
+        continuedContent += piece;
+        const partial: ChatMessage = { role: "assistant", content: piece };
+        continuationStart ??= partial;
+        messages.push(partial, { role: "user", content: CONTINUE_PROMPT });
+        continue;
+      }
+      if (truncated) {
+        emit({ type: "truncated", turn: turn + 1, continuing: false, continuation: continuations });
+      }
+
+      // The stitched answer replaces the continuation exchange (unless compaction already folded it away)
+      const start = continuationStart ? messages.indexOf(continuationStart) : -1;
+      if (start >= 0) messages.splice(start);
+      const content = continuedContent + piece || "(no response)";
+      continuedContent = "";
+      continuations = 0;
+      continuationStart = undefined;
+      const result: AgentResult = {
+        response: content,
+        stopReason: "final",
         turns: turn + 1,
         toolsUsed,
+        usage: totalUsage(),
+        callUsage,
       };
+      if (!responseSchema) return result;
+
+      const checked = checkStructured(content, responseSchema);
+      if (checked.ok) return { ...result, structured: checked.value };
+      schemaErrors = checked.errors;
+      if (schemaRetries >= MAX_SCHEMA_RETRIES || turn + 1 >= maxTurns) {
+        return { ...result, schemaErrors };
+      }
+
+      // Send the answer back with what was wrong and let the model fix it
+      schemaRetries++;
+      emit({ type: "schema_retry", turn: turn + 1, errors: schemaErrors });
+      messages.push({ role: "assistant", content });
+      messages.push({
+        role: "user",
+        content:
+          "Your answer does not match the required JSON Schema:\n" +
+          schemaErrors.map((e) => `- ${e}`).join("\n") +
+          `\n\nSchema: ${JSON.stringify(responseSchema)}\n` +
+          "Reply again with only the corrected JSON.",
+      });
+      continue;
     }
 
+    // A turn that calls tools ends any continuation — its partial text stays in the history
+    continuedContent = "";
+    continuations = 0;
+    continuationStart = undefined;
+
     // Build the assistant message with tool calls
     const assistantMsg: ChatMessage = {
       role: "assistant",
@@ -66,26 +481,115 @@ export async function runAgentLoop(
     };
     messages.push(assistantMsg);
 
-    // Execute each tool call and add results
-    for (const tc of response.toolCalls) {
+    // Run one call and time it
+    const runToolCall = async (
+      tc: ToolCall,
+    ): Promise<{ output: ToolOutput; durationMs: number }> => {
       if (signal?.aborted) throw new UserAbortError();
-      const argsPreview = JSON.stringify(tc.arguments).slice(0, TOOL_ARGS_PREVIEW_LENGTH);
-      log(`[tool] ${tc.name}(${argsPreview})`);
+      const call = { turn: turn + 1, id: tc.id, name: tc.name, arguments: tc.arguments };
+      if (tc.invalidArguments !== undefined) {
+        emit({ type: "tool_call", ...call, invalid: truncated ? "truncated" : "malformed" });
+        return { output: { content: invalidArgumentsError(tc, truncated) }, durationMs: 0 };
+      }
+      emit({ type: "tool_call", ...call });
+      if (tools.needsConfirmation(tc.name)) emit({ type: "confirmation", ...call });
       toolsUsed.push(tc.name);
+      const toolStart = Date.now();
+      const output = await tools.executeDetailed(tc.name, tc.arguments, {
+        signal,
+        llm,
+        tools,
+        // Only delegate_task reports, and what it reports is its sub-agent's AgentEvents
+        report: (event) =>
+          emit({
+            type: "subagent",
+            turn: turn + 1,
+            id: tc.id,
+            name: tc.name,
+            event: event as AgentEvent,
+          }),
+      });
+      return { output, durationMs: Date.now() - toolStart };
+    };
 
-      const result = await tools.execute(tc.name, tc.arguments);
+    // Execute the tool calls — runs of concurrency-safe ones in parallel — and add results in order
+    const images: ImageContentPart[] = [];
+    for (const batch of batchToolCalls(response.toolCalls, tools)) {
+      const results = await mapWithLimit(batch, toolConcurrency, runToolCall);
+      batch.forEach((tc, i) => {
+        const { output, durationMs } = results[i];
+        trace?.write({
+          type: "tool",
+          turn: turn + 1,
+          id: tc.id,
+          name: tc.name,
+          arguments: tc.arguments,
+          result: output.content,
+          images: output.images?.length ?? 0,
+          durationMs,
+        });
+        emit({
+          type: "tool_result",
+          turn: turn + 1,
+          id: tc.id,
+          name: tc.name,
+          content: output.content,
+          images: output.images?.length ?? 0,
+          durationMs,
+        });
+        messages.push({ role: "tool", content: output.content, tool_call_id: tc.id });
+        if (output.images) images.push(...output.images);
+        if (output.usage) callUsage.push(...output.usage);
+      });
+    }
 
+    // Tool messages are text-only — hand images over in a user message after the results
+    if (images.length > 0) {
       messages.push({
-        role: "tool",
-        content: result,
-        tool_call_id: tc.id,
+        role: "user",
+        content: [{ type: "text", text: TOOL_IMAGES_NOTE }, ...images],
       });
     }
+
+    callHistory.push(turnCalls(response.toolCalls));
+    const loop = detectToolLoop(callHistory);
+    if (loop && loop.repeats >= LOOP_STOP_REPEATS) {
+      emit({ type: "loop_detected", turn: turn + 1, ...loop, stopping: true });
+      return {
+        response: loopDiagnostic(loop),
+        stopReason: "loop",
+        turns: turn + 1,
+        toolsUsed,
+        usage: totalUsage(),
+        callUsage,
+        schemaErrors,
+      };
+    }
+    // One note per streak — a cycle of several turns stays at the same count for a while
+    if (!loop) loopNoted = false;
+    if (loop && loop.repeats >= LOOP_NOTE_REPEATS && !loopNoted) {
+      loopNoted = true;
+      emit({ type: "loop_detected", turn: turn + 1, ...loop, stopping: false });
+      messages.push({ role: "user", content: loopNote(loop) });
+    }
   }
 
   return {
     response: "(max turns reached — stopped for safety)",
+    stopReason: "max_turns",
     turns: maxTurns,
     toolsUsed,
+    usage: totalUsage(),
+    callUsage,
+    schemaErrors,
+    resume: {
+      callHistory,
+      loopNoted,
+      continuedContent,
+      continuations,
+      continuationStart,
+      schemaRetries,
+      schemaErrors,
+    },
   };
 }
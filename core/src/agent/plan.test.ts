@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { ToolRegistry } from "../tools/index.js";
+import { parsePlan, planningTools, stepRequest } from "./plan.js";
+
+describe("parsePlan", () => {
+  it("takes the numbered lines as steps", () => {
+    const text =
+      "Here's the plan:\n\n1. Read config.ts\n2) Change the port  \n  3. Run the tests\nDone.";
+    expect(parsePlan(text)).toEqual(["Read config.ts", "Change the port", "Run the tests"]);
+  });
+
+  it("is empty for an answer without a numbered list", () => {
+    expect(parsePlan("The port is 8080.")).toEqual([]);
+  });
+});
+
+describe("planningTools", () => {
+  it("leaves out write tools", () => {
+    const tools = new ToolRegistry();
+    const tool = (name: string) => ({
+      name,
+      description: name,
+      parameters: { type: "object", properties: {} },
+      handler: async () => "ok",
+    });
+    tools.register({ ...tool("read_file"), confirmationGroup: "read" });
+    tools.register({ ...tool("write_file"), confirmationGroup: "write" });
+    tools.register({ ...tool("old_writer"), requiresConfirmation: true });
+    tools.register(tool("save_learning"));
+
+    expect(planningTools(tools).listNames()).toEqual(["read_file", "save_learning"]);
+  });
+});
+
+describe("stepRequest", () => {
+  it("names the step and asks for a summary on the last one", () => {
+    const steps = ["Read a", "Edit a"];
+    expect(stepRequest(steps, 0)).toContain("step 1 of 2 of the approved plan: Read a");
+    expect(stepRequest(steps, 0)).not.toContain("last step");
+    expect(stepRequest(steps, 1)).toContain("last step");
+  });
+});
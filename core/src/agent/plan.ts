@@ -0,0 +1,54 @@
+/**
+ * Plan-then-execute — the requests and parsing behind /plan and `ask --plan`.
+ *
+ * For risky multi-step tasks the agent first writes a numbered plan using
+ * only tools that can't change anything (the "read" and "none" confirmation
+ * groups). Once the user approves it, each step runs as its own agent run
+ * with every tool. The CLI drives the review and the steps; this module is pure.
+ */
+
+import type { ToolRegistry } from "../tools/index.js";
+
+const NUMBERED_STEP = /^\s*(\d+)[.)]\s+(.+?)\s*$/;
+
+/** The tools available while planning: everything outside the "write" group. */
+export function planningTools(tools: ToolRegistry): ToolRegistry {
+  return tools.subset(
+    tools.listNames().filter((name) => tools.confirmationGroup(name) !== "write"),
+  );
+}
+
+/** User message asking for a plan for `task`. */
+export function planRequest(task: string): string {
+  return (
+    "Before doing anything, plan this task. You can look around with the tools you have now, " +
+    "but don't change anything yet. Then reply with only a numbered list of the steps you will " +
+    'take, one line each, e.g. "1. Read config.ts to find the port setting". ' +
+    `The user will review the plan before it runs.\n\nTask: ${task}`
+  );
+}
+
+/** User message asking for the plan to be redone with the user's changes. */
+export function planRevisionRequest(feedback: string): string {
+  return `Revise the plan: ${feedback}\n\nReply with only the revised numbered list of steps.`;
+}
+
+/** The steps of a numbered plan, without their numbers. Empty when the answer has none. */
+export function parsePlan(text: string): string[] {
+  const steps: string[] = [];
+  for (const line of text.split("\n")) {
+    const match = NUMBERED_STEP.exec(line);
+    if (match) steps.push(match[2]);
+  }
+  return steps;
+}
+
+/** User message asking for one step of the approved plan to be carried out. */
+export function stepRequest(steps: string[], index: number): string {
+  const last = index === steps.length - 1;
+  return (
+    `Carry out step ${index + 1} of ${steps.length} of the approved plan: ${steps[index]}\n` +
+    "Do only this step, then say briefly what you did." +
+    (last ? " It's the last step, so also sum up the outcome of the whole task." : "")
+  );
+}
@@ -34,3 +34,17 @@ export function buildSystemPrompt(memory: string): string {
 
   return prompt;
 }
+
+const SUBAGENT_PERSONA = `You are a sub-agent of Ephileo, a local AI assistant. The main agent \
+has handed you one task. Work on it with your tools; you can't ask the user anything.`;
+
+const SUBAGENT_GUIDELINES = `Guidelines:
+- Before modifying an existing file, read it with read_file, then change it with edit_file. \
+Only use write_file for brand-new files.
+- Your final reply is all the main agent will see of your work. Summarize what you did and \
+found, including any paths, values or errors it will need. Keep it short.`;
+
+/** System prompt for a sub-agent started by delegate_task. */
+export function buildSubagentPrompt(): string {
+  return `${SUBAGENT_PERSONA}\n\n${SUBAGENT_GUIDELINES}`;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { detectToolLoop, turnCalls } from "./repetition.js";
+
+describe("turnCalls", () => {
+  it("labels calls with their arguments in a fixed key order", () => {
+    const a = turnCalls([{ id: "1", name: "shell", arguments: { command: "ls", cwd: "/" } }]);
+    const b = turnCalls([{ id: "2", name: "shell", arguments: { cwd: "/", command: "ls" } }]);
+    expect(a).toEqual(['shell({"command":"ls","cwd":"/"})']);
+    expect(b).toEqual(a);
+  });
+
+  it("uses the raw text of unparsable arguments", () => {
+    expect(
+      turnCalls([{ id: "1", name: "write_file", arguments: {}, invalidArguments: '{"pa' }]),
+    ).toEqual(['write_file({"pa)']);
+  });
+});
+
+describe("detectToolLoop", () => {
+  it("counts a run of identical turns", () => {
+    expect(detectToolLoop([["b"], ["a"], ["a"], ["a"]])).toEqual({ calls: ["a"], repeats: 3 });
+  });
+
+  it("finds a cycle of several turns", () => {
+    expect(detectToolLoop([["a"], ["b"], ["c"], ["a"], ["b"], ["c"]])).toEqual({
+      calls: ["a", "b", "c"],
+      repeats: 2,
+    });
+  });
+
+  it("compares whole turns, not single calls", () => {
+    expect(detectToolLoop([["a", "b"], ["a"]])).toBeUndefined();
+    expect(
+      detectToolLoop([
+        ["a", "b"],
+        ["a", "b"],
+      ]),
+    ).toEqual({ calls: ["a", "b"], repeats: 2 });
+  });
+
+  it("ignores varied calls", () => {
+    expect(detectToolLoop([])).toBeUndefined();
+    expect(detectToolLoop([["a"], ["b"], ["c"], ["d"]])).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Repetition detection — notices when the model keeps making the same tool calls.
+ *
+ * Small local models sometimes re-read the same file or re-run the same
+ * command turn after turn until they run out of turns. Each tool-calling turn
+ * is reduced to its calls as "name(args)" labels (object keys sorted, so
+ * argument order doesn't matter). A run of identical turns, or a short cycle
+ * of turns repeating (read a, read b, read a, read b), is a loop.
+ */
+
+import type { ToolCall } from "../llm/index.js";
+
+/** Longest cycle of turns that is recognized as a loop. */
+const MAX_LOOP_PERIOD = 3;
+
+export interface ToolLoop {
+  /** One cycle of the repeating calls, in order, as "name(args)". */
+  calls: string[];
+  /** How many times in a row the cycle has been made. */
+  repeats: number;
+}
+
+/** JSON with object keys sorted, so equal arguments always give equal text. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, v]) => `${JSON.stringify(key)}:${canonicalJson(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/** The calls of one turn as "name(args)" labels. Unparsable arguments are compared raw. */
+export function turnCalls(calls: ToolCall[]): string[] {
+  return calls.map((tc) => `${tc.name}(${tc.invalidArguments ?? canonicalJson(tc.arguments)})`);
+}
+
+/**
+ * The loop the latest turns are in, if any: the shortest cycle of turns
+ * (up to three) that the history ends with at least twice in a row.
+ */
+export function detectToolLoop(history: string[][]): ToolLoop | undefined {
+  const keys = history.map((calls) => calls.join("\n"));
+  for (let period = 1; period <= MAX_LOOP_PERIOD && period * 2 <= keys.length; period++) {
+    const cycleStart = keys.length - period;
+    let repeats = 1;
+    for (;;) {
+      const start = cycleStart - repeats * period;
+      if (start < 0) break;
+      let same = true;
+      for (let i = 0; i < period && same; i++) {
+        same = keys[start + i] === keys[cycleStart + i];
+      }
+      if (!same) break;
+      repeats++;
+    }
+    if (repeats >= 2) return { calls: history.slice(cycleStart).flat(), repeats };
+  }
+  return undefined;
+}
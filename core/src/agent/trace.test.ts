@@ -0,0 +1,178 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { LLMResponse } from "../llm/index.js";
+import { ToolRegistry } from "../tools/index.js";
+import { runAgentLoop } from "./loop.js";
+import {
+  JsonlTraceSink,
+  listTraceSessions,
+  newSessionId,
+  readTrace,
+  type TraceEvent,
+} from "./trace.js";
+
+let memoryDir: string;
+
+beforeEach(() => {
+  memoryDir = mkdtempSync(join(tmpdir(), "ephileo-trace-"));
+});
+
+afterEach(() => {
+  rmSync(memoryDir, { recursive: true, force: true });
+});
+
+describe("newSessionId", () => {
+  it("starts with a sortable timestamp", () => {
+    expect(newSessionId(new Date("2026-10-19T14:52:03Z"))).toMatch(/^20261019-145203-[a-z0-9]+$/);
+  });
+});
+
+describe("JsonlTraceSink", () => {
+  it("appends timestamped events that readTrace reads back", () => {
+    const sink = new JsonlTraceSink(memoryDir, "s1");
+    sink.write({ type: "session", session: "s1", provider: "p", model: "m" });
+    sink.write({ type: "error", turn: 1, message: "boom", durationMs: 5 });
+
+    expect(sink.path).toBe(join(memoryDir, "traces", "s1.jsonl"));
+    const events = readTrace(memoryDir, "s1");
+    expect(events.map((e) => e.type)).toEqual(["session", "error"]);
+    expect(events[0].ts).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  it("replaces image data in request messages", () => {
+    const sink = new JsonlTraceSink(memoryDir, "s1");
+    sink.write({
+      type: "request",
+      turn: 1,
+      model: "m",
+      tools: [],
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "look" },
+            { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+          ],
+        },
+      ],
+    });
+
+    const raw = readFileSync(sink.path, "utf-8");
+    expect(raw).not.toContain("base64,AAAA");
+    expect(raw).toContain("[image, 26 chars of data]");
+  });
+
+  it("skips a torn last line", () => {
+    const sink = new JsonlTraceSink(memoryDir, "s1");
+    sink.write({ type: "error", turn: 1, message: "ok", durationMs: 1 });
+    appendFileSync(sink.path, '{"type":"resp');
+
+    expect(readTrace(memoryDir, "s1")).toHaveLength(1);
+  });
+
+  it("lists sessions oldest first", () => {
+    expect(listTraceSessions(memoryDir)).toEqual([]);
+    new JsonlTraceSink(memoryDir, "20260102-000000-b").write({
+      type: "error",
+      turn: 1,
+      message: "",
+      durationMs: 0,
+    });
+    new JsonlTraceSink(memoryDir, "20260101-000000-a").write({
+      type: "error",
+      turn: 1,
+      message: "",
+      durationMs: 0,
+    });
+
+    expect(listTraceSessions(memoryDir)).toEqual(["20260101-000000-a", "20260102-000000-b"]);
+  });
+});
+
+describe("runAgentLoop tracing", () => {
+  function collect() {
+    const events: TraceEvent[] = [];
+    return { events, sink: { write: (e: TraceEvent) => events.push(e) } };
+  }
+
+  it("records requests, responses and tool executions", async () => {
+    const responses: LLMResponse[] = [
+      {
+        content: null,
+        thinking: "need a tool",
+        toolCalls: [{ id: "tc1", name: "echo", arguments: { text: "hi" } }],
+        finishReason: "tool_calls",
+      },
+      { content: "done", thinking: null, toolCalls: [], finishReason: "stop" },
+    ];
+    const llm = {
+      opts: { baseUrl: "http://test", model: "test-model", maxTokens: 100 },
+      chat: vi.fn(async () => responses.shift()),
+    };
+    const tools = new ToolRegistry();
+    tools.register({
+      name: "echo",
+      description: "Echo",
+      parameters: { type: "object", properties: {} },
+      handler: async (args) => `echoed: ${String(args.text)}`,
+    });
+    const { events, sink } = collect();
+
+    await runAgentLoop(
+      [{ role: "user", content: "go" }],
+      llm as never,
+      tools,
+      undefined,
+      undefined,
+      5,
+      undefined,
+      { trace: sink },
+    );
+
+    expect(events.map((e) => e.type)).toEqual([
+      "request",
+      "response",
+      "tool",
+      "request",
+      "response",
+    ]);
+    expect(events[0]).toMatchObject({ turn: 1, model: "test-model", tools: ["echo"] });
+    expect(events[0].type === "request" && events[0].messages).toHaveLength(1);
+    expect(events[1]).toMatchObject({ thinking: "need a tool", finishReason: "tool_calls" });
+    expect(events[2]).toMatchObject({
+      name: "echo",
+      arguments: { text: "hi" },
+      result: "echoed: hi",
+      images: 0,
+    });
+    expect(events[3].type === "request" && events[3].messages).toHaveLength(3);
+    expect(events[4]).toMatchObject({ turn: 2, content: "done" });
+  });
+
+  it("records a failed request before rethrowing", async () => {
+    const llm = {
+      opts: { baseUrl: "http://test", model: "m", maxTokens: 100 },
+      chat: vi.fn(async () => {
+        throw new Error("server on fire");
+      }),
+    };
+    const { events, sink } = collect();
+
+    await expect(
+      runAgentLoop(
+        [{ role: "user", content: "go" }],
+        llm as never,
+        new ToolRegistry(),
+        undefined,
+        undefined,
+        5,
+        undefined,
+        { trace: sink },
+      ),
+    ).rejects.toThrow("server on fire");
+
+    expect(events.at(-1)).toMatchObject({ type: "error", turn: 1, message: "server on fire" });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Trace log — a JSONL record of everything the agent loop did.
+ *
+ * The CLI clears intermediate output after each answer, so when the agent
+ * misbehaves there's nothing left on screen to inspect. With tracing on, the
+ * loop reports every request, response, tool execution and error to a
+ * TraceSink; JsonlTraceSink appends them to memory/traces/<session>.jsonl,
+ * one event per line, for `ephileo trace show` to print.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { ChatMessage, ContentPart, TokenUsage, ToolCall } from "../llm/index.js";
+
+/** Directory under the memory dir that holds one trace file per session. */
+export const TRACES_DIR = "traces";
+
+export type TraceEvent =
+  | { type: "session"; session: string; provider: string; model: string }
+  | {
+      type: "request";
+      turn: number;
+      model: string;
+      messages: ChatMessage[];
+      tools: string[];
+    }
+  | {
+      type: "response";
+      turn: number;
+      content: string | null;
+      thinking: string | null;
+      toolCalls: ToolCall[];
+      finishReason: string;
+      usage?: TokenUsage;
+      durationMs: number;
+    }
+  | {
+      type: "tool";
+      turn: number;
+      id: string;
+      name: string;
+      arguments: Record<string, unknown>;
+      result: string;
+      images: number;
+      durationMs: number;
+    }
+  | {
+      type: "compaction";
+      turn: number;
+      removedMessages: number;
+      tokensBefore: number;
+      tokensAfter: number;
+    }
+  | { type: "error"; turn: number; message: string; durationMs: number };
+
+/** An event as stored: stamped with the time it was written. */
+export type TracedEvent = TraceEvent & { ts: string };
+
+export interface TraceSink {
+  write(event: TraceEvent): void;
+}
+
+/**
+ * Replace inline image data with a size note — a screenshot per request
+ * would otherwise dwarf everything else in the trace.
+ */
+function withoutImageData(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((m) => {
+    if (typeof m.content === "string") return m;
+    const content = m.content.map(
+      (part): ContentPart =>
+        part.type === "image_url"
+          ? { type: "text", text: `[image, ${part.image_url.url.length} chars of data]` }
+          : part,
+    );
+    return { ...m, content };
+  });
+}
+
+/** New session id: sortable timestamp plus a random suffix, e.g. 20261019-145203-k3f9. */
+export function newSessionId(now = new Date()): string {
+  const stamp = now.toISOString().slice(0, 19).replace(/[-:]/g, "").replace("T", "-");
+  return `${stamp}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export class JsonlTraceSink implements TraceSink {
+  readonly session: string;
+  readonly path: string;
+
+  constructor(memoryDir: string, session = newSessionId()) {
+    const dir = resolve(memoryDir, TRACES_DIR);
+    mkdirSync(dir, { recursive: true });
+    this.session = session;
+    this.path = resolve(dir, `${session}.jsonl`);
+  }
+
+  /** Appended synchronously, so a crash right after an event still leaves it on disk. */
+  write(event: TraceEvent): void {
+    const stored =
+      event.type === "request" ? { ...event, messages: withoutImageData(event.messages) } : event;
+    appendFileSync(
+      this.path,
+      `${JSON.stringify({ ts: new Date().toISOString(), ...stored })}\n`,
+      "utf-8",
+    );
+  }
+}
+
+/** Session ids with a trace file, oldest first. */
+export function listTraceSessions(memoryDir: string): string[] {
+  const dir = resolve(memoryDir, TRACES_DIR);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => f.endsWith(".jsonl"))
+    .map((f) => f.slice(0, -".jsonl".length))
+    .sort();
+}
+
+/** Read a session's events. Lines that aren't valid JSON (a torn last write) are skipped. */
+export function readTrace(memoryDir: string, session: string): TracedEvent[] {
+  const raw = readFileSync(resolve(memoryDir, TRACES_DIR, `${session}.jsonl`), "utf-8");
+  const events: TracedEvent[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line) as TracedEvent);
+    } catch {
+      // Partial line from an interrupted write
+    }
+  }
+  return events;
+}
@@ -5,9 +5,22 @@
  * Extracted from cli/index.ts to keep file sizes manageable.
  */
 
-import { runAgentLoop } from "../agent/index.js";
+import {
+  type CompactionOptions,
+  describeAgentEvent,
+  type ResumeState,
+  runAgentWithEvents,
+  type StopReason,
+  type TraceSink,
+} from "../agent/index.js";
 import { UserAbortError } from "../errors.js";
-import type { ChatMessage, LLMClient } from "../llm/index.js";
+import type {
+  ChatClient,
+  ChatMessage,
+  ImageContentPart,
+  JsonSchema,
+  TokenUsage,
+} from "../llm/index.js";
 import type { ToolRegistry } from "../tools/index.js";
 import { ANSI_ESCAPE_PATTERN, BLUE, DIM, GREEN, RESET, YELLOW } from "./ansi.js";
 import { formatToolPreview, readConfirmation } from "./confirm.js";
@@ -145,8 +158,20 @@ function startHotkeyListener(onEscape?: () => void): () => void {
 
 export interface AskResult {
   response: string;
+  /** Why the run ended — "cancelled" when the user pressed Escape. */
+  stopReason: StopReason;
   hadThinking: boolean;
   cancelled?: boolean;
+  /** Token usage for this ask (absent when cancelled). */
+  usage?: TokenUsage;
+  /** Per-LLM-call usage for this ask. */
+  callUsage?: TokenUsage[];
+  /** Parsed answer when a responseSchema was given and the answer validated. */
+  structured?: unknown;
+  /** Validation errors when a responseSchema was given and no answer validated. */
+  schemaErrors?: string[];
+  /** On a "max_turns" stop: the loop state to resume with. */
+  resume?: ResumeState;
 }
 
 export interface AskOptions {
@@ -155,15 +180,29 @@ export interface AskOptions {
   silent?: boolean;
   /** Existing conversation messages. If provided, user input is appended here instead of creating fresh messages. */
   messages?: ChatMessage[];
+  /**
+   * Carry on the run that stopped at maxTurns in `messages` (its
+   * AskResult.resume) instead of sending `input` — the conversation already
+   * ends where it left off.
+   */
+  resume?: ResumeState;
   /** Called once before the first thinking token is displayed, to clear overlapping UI (e.g. spinner). */
   onFirstThinkingDisplay?: () => void;
   /** Tracked write function for intermediate output — enables post-response line clearing. */
   write?: (text: string) => void;
+  /** Images sent with the user message (e.g. from @path attachments). */
+  images?: ImageContentPart[];
+  /** Require the final answer to be JSON matching this schema. */
+  responseSchema?: JsonSchema;
+  /** Summarize older turns when the conversation nears the context window. */
+  compaction?: CompactionOptions;
+  /** Record the agent loop's requests, responses and tool calls. */
+  trace?: TraceSink;
 }
 
 export async function ask(
   input: string,
-  llm: LLMClient,
+  llm: ChatClient,
   tools: ToolRegistry,
   systemPrompt: string,
   opts: AskOptions = {},
@@ -175,7 +214,12 @@ export async function ask(
       process.stderr.write(text);
     });
   const msgs: ChatMessage[] = opts.messages ?? [{ role: "system", content: systemPrompt }];
-  msgs.push({ role: "user", content: input });
+  if (!opts.resume) {
+    msgs.push({
+      role: "user",
+      content: opts.images?.length ? [{ type: "text", text: input }, ...opts.images] : input,
+    });
+  }
 
   let detectedThinking = false;
   let thinkingStartedThisCall = false;
@@ -218,62 +262,85 @@ export async function ask(
   });
 
   try {
-    const result = await runAgentLoop(
+    // Turn and tool events become progress lines
+    const showLog = (msg: string) => {
+      if (silent) return;
+      stopActiveSpinner();
+      thinkingStartedThisCall = false;
+      write(`  ${GREEN}${msg}${RESET}\n`);
+    };
+    // Live streaming — thinking display controlled by showThinking (toggled with 't').
+    // The REPL caller tracks lines and clears all intermediate output after ask() returns.
+    const showToken = (token: string, isThinking: boolean) => {
+      if (isThinking) {
+        detectedThinking = true;
+        if (!thinkingStartedThisCall) {
+          thinkingStartedThisCall = true;
+          stopActiveSpinner();
+          onFirstThinkingDisplay?.();
+          if (silent) {
+            let dotIdx = 0;
+            const msg = "booting up";
+            const frames = [".", "..", "..."];
+            write(`${BLUE}${msg}${frames[0]}${RESET}`);
+            const timer = setInterval(() => {
+              dotIdx = (dotIdx + 1) % frames.length;
+              const pad = " ".repeat(frames.length - frames[dotIdx].length);
+              write(`\r${BLUE}${msg}${frames[dotIdx]}${RESET}${pad}`);
+            }, DOTS_INTERVAL_MS);
+            activeSpinner = () => {
+              clearInterval(timer);
+              write(`\r${" ".repeat(msg.length + frames.length)}\r`);
+            };
+          } else if (showThinking) {
+            write(`  ${YELLOW}[thinking]${RESET}\n`);
+          } else {
+            activeSpinner = startTrackedSpinner(`${YELLOW}[thinking]${RESET}`, write);
+          }
+        }
+        if (showThinking) {
+          if (activeSpinner) {
+            stopActiveSpinner();
+            write("\n");
+          }
+          write(`${DIM}${token}${RESET}`);
+        }
+      } else if (!silent) {
+        stopActiveSpinner();
+      }
+    };
+    const result = await runAgentWithEvents(
       msgs,
       llm,
       tools,
-      // Log function for turn/tool events
-      (msg) => {
-        if (silent) return;
-        stopActiveSpinner();
-        thinkingStartedThisCall = false;
-        write(`  ${GREEN}${msg}${RESET}\n`);
-      },
-      // Live streaming callback — thinking display controlled by showThinking (toggled with 't')
-      // The REPL caller tracks lines and clears all intermediate output after ask() returns.
-      (token, isThinking) => {
-        if (isThinking) {
-          detectedThinking = true;
-          if (!thinkingStartedThisCall) {
-            thinkingStartedThisCall = true;
-            stopActiveSpinner();
-            onFirstThinkingDisplay?.();
-            if (silent) {
-              let dotIdx = 0;
-              const msg = "booting up";
-              const frames = [".", "..", "..."];
-              write(`${BLUE}${msg}${frames[0]}${RESET}`);
-              const timer = setInterval(() => {
-                dotIdx = (dotIdx + 1) % frames.length;
-                const pad = " ".repeat(frames.length - frames[dotIdx].length);
-                write(`\r${BLUE}${msg}${frames[dotIdx]}${RESET}${pad}`);
-              }, DOTS_INTERVAL_MS);
-              activeSpinner = () => {
-                clearInterval(timer);
-                write(`\r${" ".repeat(msg.length + frames.length)}\r`);
-              };
-            } else if (showThinking) {
-              write(`  ${YELLOW}[thinking]${RESET}\n`);
-            } else {
-              activeSpinner = startTrackedSpinner(`${YELLOW}[thinking]${RESET}`, write);
-            }
-          }
-          if (showThinking) {
-            if (activeSpinner) {
-              stopActiveSpinner();
-              write("\n");
-            }
-            write(`${DIM}${token}${RESET}`);
-          }
-        } else if (!silent) {
-          stopActiveSpinner();
+      (event) => {
+        if (event.type === "token" || event.type === "thinking") {
+          showToken(event.text, event.type === "thinking");
+          return;
         }
+        const line = describeAgentEvent(event);
+        if (line) showLog(line);
+      },
+      {
+        maxTurns,
+        signal: abortController.signal,
+        responseSchema: opts.responseSchema,
+        compaction: opts.compaction,
+        trace: opts.trace,
+        resume: opts.resume,
       },
-      maxTurns,
-      abortController.signal,
     );
 
-    return { response: result.response, hadThinking: detectedThinking };
+    return {
+      response: result.response,
+      stopReason: result.stopReason,
+      hadThinking: detectedThinking,
+      usage: result.usage,
+      callUsage: result.callUsage,
+      structured: result.structured,
+      schemaErrors: result.schemaErrors,
+      resume: result.resume,
+    };
   } catch (err: unknown) {
     if (err instanceof UserAbortError) {
       // Save partial content to conversation history so context isn't lost
@@ -283,7 +350,12 @@ export async function ask(
           content: `${err.partialContent}\n\n[Response interrupted by user]`,
         });
       }
-      return { response: "[Cancelled]", hadThinking: detectedThinking, cancelled: true };
+      return {
+        response: "[Cancelled]",
+        stopReason: "cancelled",
+        hadThinking: detectedThinking,
+        cancelled: true,
+      };
     }
     throw err;
   } finally {
@@ -0,0 +1,41 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { findImagePaths, loadAttachments } from "./attachments.js";
+
+describe("findImagePaths", () => {
+  it("picks @ tokens with image extensions only", () => {
+    expect(
+      findImagePaths("@a.png what is in b.png and @docs/c.JPG? mail me@x.com @notes.md"),
+    ).toEqual(["a.png", "docs/c.JPG"]);
+  });
+
+  it("ignores duplicates", () => {
+    expect(findImagePaths("@a.png vs @a.png")).toEqual(["a.png"]);
+  });
+});
+
+describe("loadAttachments", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ephileo-attach-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("loads existing images and reports missing ones", async () => {
+    const path = join(dir, "ui.png");
+    await writeFile(path, Buffer.from([1, 2, 3]));
+
+    const { images, errors } = await loadAttachments(`compare @${path} with @${dir}/gone.png`);
+    expect(images).toEqual([
+      { type: "image_url", image_url: { url: "data:image/png;base64,AQID" } },
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain("gone.png");
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Image attachments in user input — `@path/to/screenshot.png` tokens.
+ *
+ * Tokens with an image extension are loaded and sent alongside the text as
+ * image content parts; the token itself stays in the text so the model knows
+ * which file it is looking at. Other `@` tokens (emails, handles) are ignored.
+ */
+
+import type { ImageContentPart } from "../llm/index.js";
+import { imageMediaType, loadImage } from "../tools/index.js";
+
+export interface Attachments {
+  images: ImageContentPart[];
+  /** One message per token that looked like an image but couldn't be loaded. */
+  errors: string[];
+}
+
+// @ at the start of input or after whitespace, then a non-space path
+const ATTACHMENT_PATTERN = /(?:^|\s)@(\S+)/g;
+// Sentence punctuation right after a path ("look at @a.png?") isn't part of it
+const TRAILING_PUNCTUATION = /[.,;:!?)]+$/;
+
+/** Paths of `@` tokens that name a supported image file, in input order. */
+export function findImagePaths(input: string): string[] {
+  const paths: string[] = [];
+  for (const match of input.matchAll(ATTACHMENT_PATTERN)) {
+    const path = match[1].replace(TRAILING_PUNCTUATION, "");
+    if (imageMediaType(path) && !paths.includes(path)) paths.push(path);
+  }
+  return paths;
+}
+
+/** Load every image referenced by an `@` token in the input. */
+export async function loadAttachments(input: string): Promise<Attachments> {
+  const images: ImageContentPart[] = [];
+  const errors: string[] = [];
+  for (const path of findImagePaths(input)) {
+    try {
+      images.push(await loadImage(path));
+    } catch (err) {
+      errors.push(`Could not attach ${path}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return { images, errors };
+}
@@ -1,6 +1,6 @@
 import { PassThrough } from "node:stream";
 import { describe, expect, it } from "vitest";
-import { askConfirmation, formatToolPreview, readYesNo } from "./confirm.js";
+import { askConfirmation, formatToolPreview, readPlanReview, readYesNo } from "./confirm.js";
 
 // --- Helpers ---------------------------------------------------------------
 
@@ -204,5 +204,35 @@ describe("askConfirmation", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// readPlanReview
+// ---------------------------------------------------------------------------
+
+describe("readPlanReview", () => {
+  it.each([
+    [121, "run"], // 'y'
+    [101, "edit"], // 'e'
+    [110, "cancel"], // 'n'
+    [27, "cancel"], // Escape
+  ])("key %i returns %s", async (byte, expected) => {
+    const input = createMockInput();
+    const output = new PassThrough();
+    const resultPromise = readPlanReview({ input, output });
+    input.write(Buffer.from([100])); // 'd' is ignored
+    input.write(Buffer.from([byte]));
+    expect(await resultPromise).toBe(expected);
+  });
+
+  it("runs the plan without a TTY", async () => {
+    const written: string[] = [];
+    const result = await readPlanReview({
+      input: createMockInput(false),
+      write: (text) => written.push(text),
+    });
+    expect(result).toBe("run");
+    expect(written.join("")).toContain("without review");
+  });
+});
+
 // Ensure collectOutput is used (it's used in describe blocks above via closure)
 void collectOutput;
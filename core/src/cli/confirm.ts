@@ -30,6 +30,8 @@ const BYTE_N_LOWER = 110;
 const BYTE_N_UPPER = 78;
 const BYTE_D_LOWER = 100;
 const BYTE_D_UPPER = 68;
+const BYTE_E_LOWER = 101;
+const BYTE_E_UPPER = 69;
 const BYTE_ESCAPE = 27;
 
 // --- Public types ----------------------------------------------------------
@@ -114,14 +116,38 @@ export function formatToolPreview(
 export type ConfirmResult = "yes" | "no" | "skip";
 
 /**
- * Reads a single confirmation keypress from the user.
- *
- * - If input is not a TTY, auto-approves and writes a warning.
- * - If stdin is already in raw mode (hotkey listener active), attaches a
- *   temporary data listener without toggling raw mode.
- * - Accepts: y/Y → "yes", n/N/Escape → "no", d/D → "skip". Ignores other keys.
+ * Waits for one of `keys` (byte → result) and echoes its label. Other keys
+ * are ignored. Leaves raw mode as it found it, so it also works while the
+ * hotkey listener has stdin in raw mode.
  */
-export function readConfirmation(options?: ConfirmPromptOptions): Promise<ConfirmResult> {
+function readKey<T>(
+  input: Readable & { setRawMode?: (mode: boolean) => void; isRaw?: boolean },
+  emit: (text: string) => void,
+  keys: Map<number, { result: T; label: string }>,
+): Promise<T> {
+  const alreadyRaw = input.isRaw === true;
+
+  return new Promise((resolve) => {
+    const onData = (chunk: Buffer) => {
+      const key = keys.get(chunk[0]);
+      if (!key) return;
+      input.removeListener("data", onData);
+      if (!alreadyRaw && input.setRawMode) {
+        input.setRawMode(false);
+      }
+      emit(`${key.label}\n`);
+      resolve(key.result);
+    };
+
+    if (!alreadyRaw && input.setRawMode) {
+      input.setRawMode(true);
+    }
+    input.resume();
+    input.on("data", onData);
+  });
+}
+
+function promptStreams(options?: ConfirmPromptOptions) {
   const input = (options?.input ?? process.stdin) as Readable & {
     isTTY?: boolean;
     setRawMode?: (mode: boolean) => void;
@@ -133,43 +159,59 @@ export function readConfirmation(options?: ConfirmPromptOptions): Promise<Confir
     ((text: string) => {
       fallbackOutput.write(text);
     });
+  return { input, emit };
+}
 
+const CONFIRM_KEYS = new Map<number, { result: ConfirmResult; label: string }>([
+  [BYTE_Y_LOWER, { result: "yes", label: "y" }],
+  [BYTE_Y_UPPER, { result: "yes", label: "y" }],
+  [BYTE_N_LOWER, { result: "no", label: "n" }],
+  [BYTE_N_UPPER, { result: "no", label: "n" }],
+  [BYTE_ESCAPE, { result: "no", label: "n" }],
+  [BYTE_D_LOWER, { result: "skip", label: "d" }],
+  [BYTE_D_UPPER, { result: "skip", label: "d" }],
+]);
+
+/**
+ * Reads a single confirmation keypress from the user.
+ *
+ * - If input is not a TTY, auto-approves and writes a warning.
+ * - If stdin is already in raw mode (hotkey listener active), attaches a
+ *   temporary data listener without toggling raw mode.
+ * - Accepts: y/Y → "yes", n/N/Escape → "no", d/D → "skip". Ignores other keys.
+ */
+export function readConfirmation(options?: ConfirmPromptOptions): Promise<ConfirmResult> {
+  const { input, emit } = promptStreams(options);
   if (!input.isTTY) {
     emit(`${DIM}[non-TTY input: auto-approving tool]${RESET}\n`);
     return Promise.resolve("yes");
   }
+  return readKey(input, emit, CONFIRM_KEYS);
+}
 
-  const alreadyRaw = input.isRaw === true;
+export type PlanReviewResult = "run" | "edit" | "cancel";
 
-  return new Promise((resolve) => {
-    const onData = (chunk: Buffer) => {
-      const byte = chunk[0];
-      if (byte === BYTE_Y_LOWER || byte === BYTE_Y_UPPER) {
-        cleanup("yes");
-      } else if (byte === BYTE_N_LOWER || byte === BYTE_N_UPPER || byte === BYTE_ESCAPE) {
-        cleanup("no");
-      } else if (byte === BYTE_D_LOWER || byte === BYTE_D_UPPER) {
-        cleanup("skip");
-      }
-      // Ignore all other keys — wait for a valid keypress
-    };
+const PLAN_REVIEW_KEYS = new Map<number, { result: PlanReviewResult; label: string }>([
+  [BYTE_Y_LOWER, { result: "run", label: "y" }],
+  [BYTE_Y_UPPER, { result: "run", label: "y" }],
+  [BYTE_E_LOWER, { result: "edit", label: "e" }],
+  [BYTE_E_UPPER, { result: "edit", label: "e" }],
+  [BYTE_N_LOWER, { result: "cancel", label: "n" }],
+  [BYTE_N_UPPER, { result: "cancel", label: "n" }],
+  [BYTE_ESCAPE, { result: "cancel", label: "n" }],
+]);
 
-    const cleanup = (result: ConfirmResult) => {
-      input.removeListener("data", onData);
-      if (!alreadyRaw && input.setRawMode) {
-        input.setRawMode(false);
-      }
-      const label = result === "yes" ? "y" : result === "no" ? "n" : "d";
-      emit(`${label}\n`);
-      resolve(result);
-    };
-
-    if (!alreadyRaw && input.setRawMode) {
-      input.setRawMode(true);
-    }
-    input.resume();
-    input.on("data", onData);
-  });
+/**
+ * Reads the user's verdict on a plan: y/Y → "run", e/E → "edit",
+ * n/N/Escape → "cancel". Without a TTY the plan runs, with a warning.
+ */
+export function readPlanReview(options?: ConfirmPromptOptions): Promise<PlanReviewResult> {
+  const { input, emit } = promptStreams(options);
+  if (!input.isTTY) {
+    emit(`${DIM}[non-TTY input: running the plan without review]${RESET}\n`);
+    return Promise.resolve("run");
+  }
+  return readKey(input, emit, PLAN_REVIEW_KEYS);
 }
 
 /** Convenience wrapper — maps ConfirmResult to boolean (yes/skip → true, no → false). */
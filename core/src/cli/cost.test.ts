@@ -0,0 +1,57 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CostLedger } from "../llm/index.js";
+import { ANSI_ESCAPE_PATTERN } from "./ansi.js";
+import { formatCost, formatDollars } from "./cost.js";
+
+const strip = (s: string) => s.replace(ANSI_ESCAPE_PATTERN, "");
+
+let memoryDir: string;
+
+beforeEach(() => {
+  memoryDir = mkdtempSync(join(tmpdir(), "ephileo-cost-"));
+});
+
+afterEach(() => {
+  rmSync(memoryDir, { recursive: true, force: true });
+});
+
+describe("formatDollars", () => {
+  it("shows fractions of a cent with more precision", () => {
+    expect(formatDollars(0)).toBe("$0.00");
+    expect(formatDollars(0.0012)).toBe("$0.0012");
+    expect(formatDollars(1.5)).toBe("$1.50");
+  });
+});
+
+describe("formatCost", () => {
+  it("says when nothing was paid for", () => {
+    const out = strip(formatCost(new CostLedger(memoryDir, "s1")));
+    expect(out).toContain("No paid calls this session.");
+    expect(out).toContain("today    $0.00");
+  });
+
+  it("splits the session by provider and model and shows the cap", () => {
+    const ledger = new CostLedger(memoryDir, "s1");
+    const call = { promptTokens: 10, completionTokens: 5 };
+    ledger.record({ ...call, provider: "openrouter", model: "sonnet", cost: 0.5 });
+    ledger.record({ ...call, provider: "openrouter", model: "sonnet", cost: 0.25 });
+    ledger.record({ ...call, provider: "openai", model: "gpt-4o", cost: 0.25 });
+
+    const out = strip(formatCost(ledger, 5));
+
+    expect(out).toContain("session  $1.00 (3 calls)");
+    expect(out).toContain("openrouter (sonnet): $0.75 (2 calls)");
+    expect(out).toContain("openai (gpt-4o): $0.25 (1 call)");
+    expect(out).toContain("today    $1.00 of $5.00 daily cap");
+    expect(out).not.toContain("Daily cap reached");
+  });
+
+  it("warns once the cap is reached", () => {
+    const ledger = new CostLedger(memoryDir, "s1");
+    ledger.record({ provider: "p", model: "m", promptTokens: 1, completionTokens: 1, cost: 2 });
+    expect(strip(formatCost(ledger, 2))).toContain("Daily cap reached");
+  });
+});
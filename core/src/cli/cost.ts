@@ -0,0 +1,54 @@
+/**
+ * Spending display for the REPL `/cost` command and `ask --usage`.
+ *
+ * Reads what the CostLedger recorded; formatting is pure apart from reading
+ * today's total from the ledger file.
+ */
+
+import type { CostLedger, CostRecord } from "../llm/index.js";
+import { DIM, GREEN, RESET, YELLOW } from "./ansi.js";
+import { callCount } from "./usage.js";
+
+/** Dollars, with more precision for the fractions of a cent single calls cost. */
+export function formatDollars(amount: number): string {
+  return amount > 0 && amount < 0.01 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
+
+/** Session cost split by provider and model, in order of first use. */
+function byModel(records: CostRecord[]): Array<{ label: string; cost: number; calls: number }> {
+  const groups = new Map<string, { label: string; cost: number; calls: number }>();
+  for (const r of records) {
+    const key = `${r.provider}\0${r.model}`;
+    const group = groups.get(key) ?? { label: `${r.provider} (${r.model})`, cost: 0, calls: 0 };
+    group.cost += r.cost;
+    group.calls++;
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+/** Multi-line report for the /cost command. */
+export function formatCost(ledger: CostLedger, dailyCap?: number): string {
+  const records = ledger.sessionRecords;
+  const today = ledger.dayTotal();
+  const lines = [`${YELLOW}Cost:${RESET}`];
+  if (records.length === 0) {
+    lines.push(`  ${DIM}No paid calls this session.${RESET}`);
+  } else {
+    lines.push(
+      `  ${GREEN}session${RESET}  ${formatDollars(ledger.sessionTotal())} ${DIM}(${callCount(records.length)})${RESET}`,
+    );
+    for (const group of byModel(records)) {
+      lines.push(
+        `    ${DIM}${group.label}: ${formatDollars(group.cost)} (${callCount(group.calls)})${RESET}`,
+      );
+    }
+  }
+  const cap =
+    dailyCap === undefined ? "" : ` ${DIM}of ${formatDollars(dailyCap)} daily cap${RESET}`;
+  lines.push(`  ${GREEN}today${RESET}    ${formatDollars(today)}${cap}`);
+  if (dailyCap !== undefined && today >= dailyCap) {
+    lines.push(`  ${YELLOW}Daily cap reached — paid providers are blocked until tomorrow.${RESET}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,250 @@
+import { type ChildProcess, spawn } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  errorReply,
+  type MockServer,
+  startMockServer,
+  textReply,
+  thinkReply,
+  toolCallReply,
+} from "../testing/mock-openai-server.js";
+import { ANSI_ESCAPE_PATTERN } from "./ansi.js";
+
+const coreDir = resolve(dirname(fileURLToPath(import.meta.url)), "../..");
+const tsx = resolve(coreDir, "node_modules/.bin/tsx");
+const cliEntry = resolve(coreDir, "src/cli/index.ts");
+
+// Spawning tsx compiles the CLI on the fly, which is slow on a cold cache
+const E2E_TIMEOUT_MS = 30_000;
+
+const stripAnsi = (s: string) => s.replace(ANSI_ESCAPE_PATTERN, "");
+
+let server: MockServer;
+let workDir: string;
+let configPath: string;
+
+beforeEach(async () => {
+  server = await startMockServer({ models: ["mock-model"] });
+  workDir = mkdtempSync(join(tmpdir(), "ephileo-e2e-"));
+  configPath = join(workDir, "config.yaml");
+  writeFileSync(
+    configPath,
+    [
+      "provider: mock",
+      "providers:",
+      "  mock:",
+      `    baseUrl: ${server.url}`,
+      "    model: mock-model",
+      "agent:",
+      "  maxTurns: 5",
+      "  retry:",
+      "    maxAttempts: 1",
+      "memory:",
+      `  dir: ${join(workDir, "memory")}`,
+      "",
+    ].join("\n"),
+  );
+});
+
+afterEach(async () => {
+  await server.close();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+function startCli(args: string[], extraEnv: NodeJS.ProcessEnv = {}): ChildProcess {
+  const env: NodeJS.ProcessEnv = { ...process.env, EPHILEO_CONFIG: configPath };
+  for (const key of [
+    "EPHILEO_PROVIDER",
+    "EPHILEO_MODEL",
+    "EPHILEO_BASE_URL",
+    "EPHILEO_RECORD",
+    "EPHILEO_TRACE",
+  ]) {
+    delete env[key];
+  }
+  Object.assign(env, extraEnv);
+  return spawn(tsx, [cliEntry, ...args], { cwd: workDir, env, stdio: "pipe" });
+}
+
+/** Run the CLI to completion and collect its output. */
+function runCli(
+  args: string[],
+  extraEnv: NodeJS.ProcessEnv = {},
+): Promise<{ code: number | null; stdout: string; stderr: string }> {
+  return new Promise((done) => {
+    const child = startCli(args, extraEnv);
+    let stdout = "";
+    let stderr = "";
+    child.stdout?.on("data", (d) => {
+      stdout += d;
+    });
+    child.stderr?.on("data", (d) => {
+      stderr += d;
+    });
+    child.stdin?.end();
+    child.on("close", (code) => done({ code, stdout, stderr }));
+  });
+}
+
+describe("ephileo ask (end to end)", () => {
+  it(
+    "prints the answer of a thinking model",
+    async () => {
+      server.enqueue(thinkReply("let me see", "Paris is the capital."));
+
+      const { code, stdout } = await runCli(["ask", "capital of France?"]);
+
+      expect(code).toBe(0);
+      expect(stripAnsi(stdout)).toContain("Paris is the capital.");
+      const messages = server.requests[0].messages as Array<{ role: string; content: string }>;
+      expect(messages.at(-1)).toMatchObject({ role: "user", content: "capital of France?" });
+    },
+    E2E_TIMEOUT_MS,
+  );
+
+  it(
+    "runs a tool call and answers with its result",
+    async () => {
+      const notes = join(workDir, "notes.txt");
+      writeFileSync(notes, "the secret is 42");
+      server.enqueue(toolCallReply([{ name: "read_file", arguments: { path: notes } }]));
+      server.enqueue(textReply("The secret is 42."));
+
+      const { code, stdout } = await runCli(["ask", "what is in notes.txt?"]);
+
+      expect(code).toBe(0);
+      expect(stripAnsi(stdout)).toContain("The secret is 42.");
+      expect(server.requests).toHaveLength(2);
+      const messages = server.requests[1].messages as Array<{ role: string; content: string }>;
+      const toolResult = messages.find((m) => m.role === "tool");
+      expect(toolResult?.content).toContain("the secret is 42");
+    },
+    E2E_TIMEOUT_MS,
+  );
+
+  it(
+    "exits non-zero when --max-turns runs out before an answer",
+    async () => {
+      server.enqueue(toolCallReply([{ name: "list_directory", arguments: { path: "." } }]));
+
+      const { code, stderr } = await runCli(["ask", "--max-turns", "1", "look around"]);
+
+      expect(code).toBe(1);
+      expect(server.requests).toHaveLength(1);
+      expect(stripAnsi(stderr)).toContain("Stopped at the 1-turn limit");
+    },
+    E2E_TIMEOUT_MS,
+  );
+
+  it(
+    "exits non-zero with a readable error when the model is missing",
+    async () => {
+      server.enqueue(errorReply(404));
+
+      const { code, stderr } = await runCli(["ask", "hello"]);
+
+      expect(code).toBe(1);
+      expect(stripAnsi(stderr).toLowerCase()).toContain("not found");
+      expect(stderr).not.toContain("    at ");
+    },
+    E2E_TIMEOUT_MS,
+  );
+});
+
+describe("ephileo trace (end to end)", () => {
+  it(
+    "traces an ask session and prints it back",
+    async () => {
+      server.enqueue(thinkReply("hmm", "Traced answer."));
+      const asked = await runCli(["ask", "trace me"], { EPHILEO_TRACE: "1" });
+      expect(asked.code).toBe(0);
+      expect(stripAnsi(asked.stderr)).toContain("Tracing to");
+
+      const { code, stdout } = await runCli(["trace", "show", "last"]);
+
+      expect(code).toBe(0);
+      const out = stripAnsi(stdout);
+      expect(out).toContain("(mock-model)");
+      expect(out).toContain("user: trace me");
+      expect(out).toContain("thinking: hmm");
+      expect(out).toContain("content: Traced answer.");
+    },
+    E2E_TIMEOUT_MS,
+  );
+
+  it(
+    "fails clearly for an unknown session",
+    async () => {
+      const { code, stderr } = await runCli(["trace", "show", "nope"]);
+      expect(code).toBe(1);
+      expect(stripAnsi(stderr)).toContain('No trace for session "nope"');
+    },
+    E2E_TIMEOUT_MS,
+  );
+});
+
+describe("ephileo REPL (end to end)", () => {
+  it(
+    "greets, answers a question and quits",
+    async () => {
+      server.enqueue(textReply("Hi, I am ephileo."), textReply("Two plus two is four."));
+      const child = startCli([]);
+      let stdout = "";
+      let stderr = "";
+      let pending: { done: () => boolean; ready: () => void } | undefined;
+      const recheck = () => {
+        if (pending?.done()) {
+          pending.ready();
+          pending = undefined;
+        }
+      };
+      child.stdout?.on("data", (d) => {
+        stdout += d;
+        recheck();
+      });
+      child.stderr?.on("data", (d) => {
+        stderr += d;
+        recheck();
+      });
+      const waitFor = (done: () => boolean) =>
+        new Promise<void>((ready) => {
+          pending = { done, ready };
+          recheck();
+        });
+      // The line editor redraws the prompt on every key, so only a prompt
+      // written after the `after` marker counts as a fresh one
+      const waitForPrompt = (after = "") =>
+        waitFor(() => {
+          const from = stderr.indexOf(after);
+          return from !== -1 && stderr.indexOf("> ", from + after.length) !== -1;
+        });
+      // Input is read key by key, so Enter must arrive as its own chunk
+      const send = async (line: string) => {
+        child.stdin?.write(line);
+        await new Promise((r) => setTimeout(r, 50));
+        child.stdin?.write("\r");
+      };
+      const exited = new Promise<number | null>((done) => child.on("close", done));
+
+      await waitForPrompt();
+      await send("what is 2+2?");
+      await waitFor(() => stripAnsi(stdout).includes("Two plus two is four."));
+      // stdout and stderr are separate pipes — the next prompt may already be
+      // in, so look for it after the echoed question rather than from here
+      await waitForPrompt("[user]");
+      await send("/quit");
+      const code = await exited;
+
+      expect(code).toBe(0);
+      const out = stripAnsi(stdout);
+      expect(out).toContain("Hi, I am ephileo.");
+      expect(out).toContain("Two plus two is four.");
+      expect(server.requests).toHaveLength(2);
+    },
+    E2E_TIMEOUT_MS,
+  );
+});
@@ -14,24 +14,60 @@
 
 import { readFileSync } from "node:fs";
 import { resolve } from "node:path";
-import { Command } from "commander";
-import { buildSystemPrompt } from "../agent/index.js";
+import { Command, InvalidArgumentError } from "commander";
+import {
+  buildSystemPrompt,
+  type CompactionOptions,
+  compactConversation,
+  JsonlTraceSink,
+  listTraceSessions,
+  newSessionId,
+  type ResumeState,
+  readTrace,
+  registerDelegateTool,
+  TRACES_DIR,
+} from "../agent/index.js";
 import { type EphileoConfig, getActiveProvider, loadConfig } from "../config/loader.js";
-import { type ChatMessage, LLMClient } from "../llm/index.js";
+import { StreamTimeoutError } from "../errors.js";
+import {
+  type ChatClient,
+  type ChatMessage,
+  CostLedger,
+  createAgentClient,
+  createEmbeddingsClient,
+  FallbackClient,
+  type ImageContentPart,
+  type JsonSchema,
+  listModels,
+} from "../llm/index.js";
+import { recallMemories, VECTOR_STORE_FILE } from "../memory/index.js";
 import type { PermissionLevel } from "../tools/index.js";
 import { registerBasicTools, ToolRegistry } from "../tools/index.js";
 import { BLUE, DIM, GREEN, RED, RESET, YELLOW } from "./ansi.js";
-import { ask, clearTrackedOutput, createTrackedWriter } from "./ask.js";
+import { type AskResult, ask, clearTrackedOutput, createTrackedWriter } from "./ask.js";
+import { loadAttachments } from "./attachments.js";
 import { CommandRegistry } from "./commands.js";
-import { askConfirmation } from "./confirm.js";
+import { askConfirmation, readYesNo } from "./confirm.js";
+import { formatCost, formatDollars } from "./cost.js";
 import { appendHistory, loadHistory } from "./history.js";
 import { readMultiLineInput } from "./input.js";
+import {
+  applySavedSelection,
+  formatModelList,
+  formatProviderList,
+  parseSwitchArgs,
+  withModel,
+  withProvider,
+} from "./models.js";
 import {
   handlePermissionsCommand,
   PERMISSION_MENU_LINE_COUNT,
   promptPermissionLevel,
 } from "./permissions.js";
+import { askWithPlan, formatPlanStop, formatStepMarker, reviewPlan, runPlan } from "./plan.js";
 import { loadSettings, saveSettings } from "./settings.js";
+import { formatTrace } from "./trace.js";
+import { formatUsage, UsageTracker } from "./usage.js";
 
 // Spinner animation frames and timing
 const SPINNER_FRAMES = [
@@ -48,6 +84,9 @@ const SPINNER_FRAMES = [
 ];
 const SPINNER_INTERVAL_MS = 80;
 
+/** First message of a REPL session — the model introduces itself. */
+const GREETING_PROMPT = "Hello! Introduce yourself briefly.";
+
 function formatError(err: unknown): string {
   const msg = err instanceof Error ? err.message : String(err);
   const lines = msg.split("\n");
@@ -64,26 +103,120 @@ function loadMemory(memoryDir: string): string {
   }
 }
 
+/**
+ * Journal entries relevant to `query` — the topK best matches, not the whole
+ * journal. `warn` hears about embeddings falling back to keyword search.
+ */
+async function recallMemory(
+  config: EphileoConfig,
+  query: string,
+  warn: (message: string) => void = () => {},
+): Promise<string> {
+  const result = await recallMemories(loadMemory(config.memory.dir), query, {
+    topK: config.memory.topK,
+    embeddings: createEmbeddingsClient(config),
+    storePath: resolve(config.memory.dir, VECTOR_STORE_FILE),
+  });
+  if (result.warning) warn(result.warning);
+  return result.memory;
+}
+
+/** Read a JSON Schema file for `ask --schema`, exiting with a readable error if it's unusable. */
+function loadSchemaFile(path: string): JsonSchema {
+  try {
+    const schema: unknown = JSON.parse(readFileSync(resolve(path), "utf-8"));
+    if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+      throw new Error("schema must be a JSON object");
+    }
+    return schema as JsonSchema;
+  } catch (err: unknown) {
+    console.error(
+      `\n${formatError(new Error(`Could not load schema ${path}: ${err instanceof Error ? err.message : String(err)}`))}\n`,
+    );
+    process.exit(1);
+  }
+}
+
 function createAgent() {
   try {
-    const config = loadConfig();
-    const provider = getActiveProvider(config);
-    const llm = new LLMClient({
-      baseUrl: provider.baseUrl,
-      model: provider.model,
-      apiKey: provider.apiKey,
-      maxTokens: config.agent.maxTokens,
-    });
+    // Env vars are a per-run override, so they win over a choice saved with --save
+    const envOverride = process.env.EPHILEO_PROVIDER || process.env.EPHILEO_MODEL;
+    const config = envOverride ? loadConfig() : applySavedSelection(loadConfig(), loadSettings());
+    const session = newSessionId();
+    const ledger = new CostLedger(config.memory.dir, session);
+    const llm = createAgentClient(config, ledger);
     const tools = new ToolRegistry();
     registerBasicTools(tools, config.memory.dir);
+    registerDelegateTool(tools, { maxTurns: config.agent.subagentMaxTurns });
     tools.setConfirmationCallback(askConfirmation);
-    return { llm, tools, config };
+    const trace = config.trace ? new JsonlTraceSink(config.memory.dir, session) : undefined;
+    trace?.write({
+      type: "session",
+      session: trace.session,
+      provider: config.provider,
+      model: llm.opts.model,
+    });
+    return { llm, tools, config, trace, ledger };
   } catch (err: unknown) {
     console.error(`\n${formatError(err)}\n`);
     process.exit(1);
   }
 }
 
+/** Name of the provider that answered last — differs from config.provider after a fallback. */
+function answeringProvider(llm: ChatClient, config: EphileoConfig): string {
+  return llm instanceof FallbackClient ? llm.activeProvider : config.provider;
+}
+
+/** Notice shown when a fallback provider answered instead of the primary. */
+function formatFallbackNotice(llm: ChatClient, config: EphileoConfig): string {
+  return `${YELLOW}[provider] ${config.provider} unavailable — answered by ${answeringProvider(llm, config)} (${llm.opts.model})${RESET}`;
+}
+
+/** When to compact: the active provider's context window and the configured threshold. */
+function compactionOptions(config: EphileoConfig): CompactionOptions {
+  const provider = getActiveProvider(config);
+  return {
+    contextWindow: provider.contextWindow ?? provider.numCtx,
+    threshold: config.agent.compactThreshold,
+  };
+}
+
+/**
+ * Run one REPL turn, offering to retry it when the generation stalls or
+ * times out. Each retry starts from the conversation as it was before the
+ * turn. Without a terminal to ask on, the error is passed through.
+ */
+async function retryOnStall(
+  attempt: () => Promise<AskResult>,
+  messages: ChatMessage[],
+  write: (text: string) => void,
+): Promise<AskResult> {
+  const snapshot = [...messages];
+  for (;;) {
+    try {
+      return await attempt();
+    } catch (err: unknown) {
+      if (!(err instanceof StreamTimeoutError) || !process.stdin.isTTY) throw err;
+      messages.splice(0, messages.length, ...snapshot);
+      write(`\n  ${RED}${err.message.split("\n")[0]}${RESET}\n  ${YELLOW}Retry? [y/n]${RESET} `);
+      if (!(await readYesNo({ write }))) throw err;
+    }
+  }
+}
+
+/**
+ * Ask whether a run that used up its turns should carry on for `turns` more.
+ * Without a terminal to ask on, it doesn't.
+ */
+async function offerMoreTurns(turns: number, write: (text: string) => void): Promise<boolean> {
+  if (!process.stdin.isTTY) return false;
+  write(
+    `\n  ${YELLOW}Reached the ${turns}-turn limit. Continue for ${turns} more turns? [y/n]${RESET} `,
+  );
+  return readYesNo({ write });
+}
+
 /** Animated spinner for long-running silent operations. Returns a stop function. */
 function startSpinner(message: string): () => void {
   let frameIdx = 0;
@@ -99,10 +232,20 @@ function startSpinner(message: string): () => void {
   };
 }
 
-async function repl(llm: LLMClient, tools: ToolRegistry, config: EphileoConfig): Promise<void> {
+async function repl(
+  llm: ChatClient,
+  tools: ToolRegistry,
+  config: EphileoConfig,
+  ledger: CostLedger,
+  trace?: JsonlTraceSink,
+): Promise<void> {
   console.log(`\n${YELLOW}Ephileo v0.1${RESET} — your local AI agent\n`);
   console.log(`Provider: ${config.provider} (${llm.opts.model})`);
+  if (config.providerChain.length > 1) {
+    console.log(`${DIM}Fallbacks: ${config.providerChain.slice(1).join(", ")}${RESET}`);
+  }
   console.log(`Tools: ${tools.listNames().join(", ")}\n`);
+  if (trace) console.log(`${DIM}Tracing to ${trace.path}${RESET}\n`);
 
   // Load saved permission level or prompt on first run
   const settings = loadSettings();
@@ -131,16 +274,26 @@ async function repl(llm: LLMClient, tools: ToolRegistry, config: EphileoConfig):
     saveSettings({ permissionLevel });
     return { handled: true };
   });
+  const usage = new UsageTracker();
+  commands.register("usage", "Show token usage for the last turn and this session", async () => {
+    return { handled: true, message: usage.format() };
+  });
+  commands.register("cost", "Show what paid providers cost this session and today", async () => {
+    return { handled: true, message: formatCost(ledger, config.cost.dailyCap) };
+  });
   commands.register("help", "Show available commands", async () => {
     return { handled: true, message: commands.formatHelp() };
   });
   // Initial LLM call — detects thinking support and greets/asks name (silent: no logs/thinking)
   const stopSpinner = startSpinner("waking ephileo...");
-  const memory = loadMemory(config.memory.dir);
+  const memory = await recallMemory(config, GREETING_PROMPT);
   const systemPrompt = buildSystemPrompt(memory);
   // Shared conversation history for the session — persists across REPL turns
   const conversationMessages: ChatMessage[] = [{ role: "system", content: systemPrompt }];
 
+  // Provider that answered last — a change is announced after the response
+  let lastProvider = config.provider;
+
   // Register commands that need access to conversation state
   commands.register("quit", "Exit Ephileo", async () => {
     console.log("Goodbye.");
@@ -151,11 +304,151 @@ async function repl(llm: LLMClient, tools: ToolRegistry, config: EphileoConfig):
     process.stderr.write("\x1b[2J\x1b[H");
     return { handled: true, message: `${DIM}Chat cleared.${RESET}` };
   });
+  commands.register("compact", "Summarize older turns to free up context", async () => {
+    const stop = startSpinner("compacting...");
+    try {
+      const result = await compactConversation(
+        conversationMessages,
+        llm,
+        compactionOptions(config),
+      );
+      if (result.usage) usage.record([result.usage]);
+      if (result.removedMessages === 0) {
+        return { handled: true, message: `${DIM}Nothing to compact yet.${RESET}` };
+      }
+      return {
+        handled: true,
+        message:
+          `${GREEN}Summarized ${result.removedMessages} messages${RESET} ` +
+          `${DIM}(~${result.tokensBefore.toLocaleString("en-US")} → ~${result.tokensAfter.toLocaleString("en-US")} tokens)${RESET}`,
+      };
+    } catch (err: unknown) {
+      return { handled: true, message: formatError(err) };
+    } finally {
+      stop();
+    }
+  });
+  // Swap the client in place — conversationMessages carries over to the new model
+  const switchTo = (next: EphileoConfig): string => {
+    config = next;
+    llm = createAgentClient(config, ledger);
+    lastProvider = config.provider;
+    return `${GREEN}Now using ${config.provider} (${llm.opts.model})${RESET}`;
+  };
+  commands.register(
+    "provider",
+    "List providers or switch: /provider <name> [--save]",
+    async (args) => {
+      const { target, save } = parseSwitchArgs(args);
+      if (!target) return { handled: true, message: formatProviderList(config) };
+      try {
+        const message = switchTo(withProvider(config, target));
+        if (save) saveSettings({ provider: target, model: undefined });
+        return { handled: true, message: save ? `${message} ${DIM}(saved)${RESET}` : message };
+      } catch (err: unknown) {
+        return { handled: true, message: formatError(err) };
+      }
+    },
+  );
+  commands.register("model", "List models or switch: /model <id> [--save]", async (args) => {
+    const { target, save } = parseSwitchArgs(args);
+    if (!target) {
+      try {
+        const models = await listModels(getActiveProvider(config));
+        return {
+          handled: true,
+          message: formatModelList(config.provider, llm.opts.model, models),
+        };
+      } catch (err: unknown) {
+        return { handled: true, message: formatError(err) };
+      }
+    }
+    const message = switchTo(withModel(config, target));
+    if (save) saveSettings({ provider: config.provider, model: target });
+    return { handled: true, message: save ? `${message} ${DIM}(saved)${RESET}` : message };
+  });
+  commands.register(
+    "plan",
+    "Plan a task with read-only tools, review it, then run it step by step: /plan <task>",
+    async (task) => {
+      if (!task) return { handled: true, message: `${DIM}Usage: /plan <task>${RESET}` };
+      try {
+        const memory = await recallMemory(config, task, (warning) =>
+          console.error(`  ${YELLOW}[memory] ${warning}${RESET}`),
+        );
+        const prompt = buildSystemPrompt(memory);
+        conversationMessages[0] = { role: "system", content: prompt };
+        const { images, errors } = await loadAttachments(task);
+        for (const error of errors) console.error(`  ${YELLOW}${error}${RESET}`);
+        // Attachments go with the planning request only
+        let pending: ImageContentPart[] | undefined = images;
+        const outcome = await runPlan(task, tools, conversationMessages, {
+          async run(request, registry) {
+            const { write, counter } = createTrackedWriter();
+            const attempt = (resume?: ResumeState) =>
+              retryOnStall(
+                () =>
+                  ask(request, llm, registry, prompt, {
+                    maxTurns: config.agent.maxTurns,
+                    messages: conversationMessages,
+                    write,
+                    images: resume ? undefined : pending,
+                    resume,
+                    compaction: compactionOptions(config),
+                    trace,
+                  }),
+                conversationMessages,
+                write,
+              );
+            let result = await attempt();
+            pending = undefined;
+            if (result.callUsage) usage.record(result.callUsage);
+            while (
+              result.stopReason === "max_turns" &&
+              (await offerMoreTurns(config.agent.maxTurns, write))
+            ) {
+              result = await attempt(result.resume);
+              if (result.callUsage) usage.record(result.callUsage);
+            }
+            clearTrackedOutput(counter);
+            return result;
+          },
+          review: (steps) => reviewPlan(steps),
+          onStepStart: (index, steps) => console.log(`\n${formatStepMarker(index, steps)}`),
+          onStepEnd: (_index, _steps, response) => console.log(`${DIM}${response}${RESET}`),
+        });
+        switch (outcome.status) {
+          case "done":
+            return {
+              handled: true,
+              message: `${GREEN}Plan done — ${outcome.completed} steps.${RESET}`,
+            };
+          case "answered":
+            return { handled: true, message: `${BLUE}ephileo.${RESET} ${outcome.response}` };
+          case "rejected":
+            return { handled: true, message: `${DIM}Plan rejected.${RESET}` };
+          case "cancelled":
+            return {
+              handled: true,
+              message:
+                outcome.steps.length > 0
+                  ? `${DIM}[cancelled after ${outcome.completed} of ${outcome.steps.length} steps]${RESET}`
+                  : `${DIM}[cancelled]${RESET}`,
+            };
+          case "stopped":
+            return { handled: true, message: formatPlanStop(outcome) };
+        }
+      } catch (err: unknown) {
+        return { handled: true, message: formatError(err) };
+      }
+    },
+  );
   let greeting: string;
   try {
-    const result = await ask("Hello! Introduce yourself briefly.", llm, tools, systemPrompt, {
+    const result = await ask(GREETING_PROMPT, llm, tools, systemPrompt, {
       maxTurns: config.agent.maxTurns,
       silent: true,
+      trace,
       onFirstThinkingDisplay: () => {
         // Stop the spinner animation but keep "waking ephileo..." on screen
         stopSpinner();
@@ -163,6 +456,7 @@ async function repl(llm: LLMClient, tools: ToolRegistry, config: EphileoConfig):
       },
     });
     greeting = result.response;
+    usage.record(result.callUsage ?? []);
   } catch (err: unknown) {
     stopSpinner();
     console.error(`\n${formatError(err)}\n`);
@@ -172,6 +466,10 @@ async function repl(llm: LLMClient, tools: ToolRegistry, config: EphileoConfig):
   // Clear the "waking ephileo..." line and the blank dots line above
   process.stderr.write("\x1b[2K\x1b[1A\x1b[2K\x1b[G");
   console.log(`${BLUE}ok, I am here for you!${RESET}\n`);
+  lastProvider = answeringProvider(llm, config);
+  if (lastProvider !== config.provider) {
+    console.log(`${formatFallbackNotice(llm, config)}\n`);
+  }
   console.log(
     `${GREEN}Tip: Use [\\ and Enter] or [Alt + Enter] for new line, Enter to send.${RESET}`,
   );
@@ -224,17 +522,51 @@ async function repl(llm: LLMClient, tools: ToolRegistry, config: EphileoConfig):
     write(`  ${GREEN}[user]${RESET} ${displayInput}\n`);
 
     try {
-      const freshMemory = loadMemory(config.memory.dir);
+      const freshMemory = await recallMemory(config, input, (warning) =>
+        write(`  ${YELLOW}[memory] ${warning}${RESET}\n`),
+      );
       const freshPrompt = buildSystemPrompt(freshMemory);
       // Refresh the system prompt in-place so memory updates take effect each turn
       conversationMessages[0] = { role: "system", content: freshPrompt };
-      const { response, cancelled } = await ask(input, llm, tools, freshPrompt, {
-        maxTurns: config.agent.maxTurns,
-        messages: conversationMessages,
-        write,
-      });
+      const { images, errors } = await loadAttachments(input);
+      for (const error of errors) write(`  ${YELLOW}${error}${RESET}\n`);
+      // A run that used up its turns can carry on from where it stopped
+      const attempt = (resume?: ResumeState) =>
+        retryOnStall(
+          () =>
+            ask(input, llm, tools, freshPrompt, {
+              maxTurns: config.agent.maxTurns,
+              messages: conversationMessages,
+              write,
+              images,
+              resume,
+              compaction: compactionOptions(config),
+              trace,
+            }),
+          conversationMessages,
+          write,
+        );
+      let result = await attempt();
+      if (result.callUsage) usage.record(result.callUsage);
+      while (
+        result.stopReason === "max_turns" &&
+        (await offerMoreTurns(config.agent.maxTurns, write))
+      ) {
+        result = await attempt(result.resume);
+        if (result.callUsage) usage.record(result.callUsage);
+      }
+      const { response, cancelled } = result;
       // Move cursor up past all intermediate output and clear it
       clearTrackedOutput(counter);
+      const provider = answeringProvider(llm, config);
+      if (provider !== lastProvider) {
+        lastProvider = provider;
+        console.log(
+          provider === config.provider
+            ? `\n${GREEN}[provider] back on ${provider} (${llm.opts.model})${RESET}`
+            : `\n${formatFallbackNotice(llm, config)}`,
+        );
+      }
       if (cancelled) {
         console.log(`\n${DIM}[cancelled]${RESET}\n`);
       } else {
@@ -253,26 +585,127 @@ const program = new Command();
 
 program.name("ephileo").description("Ephileo — your local AI agent").version("0.1.0");
 
+interface AskCommandOptions {
+  usage?: boolean;
+  schema?: string;
+  plan?: boolean;
+  maxTurns?: number;
+}
+
+function parseMaxTurns(value: string): number {
+  const turns = Number(value);
+  if (!Number.isInteger(turns) || turns < 1) {
+    throw new InvalidArgumentError("Must be a whole number above 0.");
+  }
+  return turns;
+}
+
 program
   .command("ask")
   .description("Ask Ephileo a question or give it a task (one-shot)")
   .argument("<input...>", "Your question or task")
-  .action(async (inputParts: string[]) => {
-    const { llm, tools, config } = createAgent();
-    const memory = loadMemory(config.memory.dir);
+  .option("--usage", "Print token usage to stderr after the answer")
+  .option("--schema <file>", "Answer with JSON matching this JSON Schema file")
+  .option("--plan", "Plan with read-only tools first, review the plan, then run it step by step")
+  .option(
+    "--max-turns <n>",
+    "Most LLM calls before giving up (default: agent.maxTurns)",
+    parseMaxTurns,
+  )
+  .action(async (inputParts: string[], options: AskCommandOptions) => {
+    if (options.plan && options.schema) {
+      console.error(`\n${formatError(new Error("--plan can't be combined with --schema."))}\n`);
+      process.exit(1);
+    }
+    const responseSchema = options.schema ? loadSchemaFile(options.schema) : undefined;
+    const { llm, tools, config, trace, ledger } = createAgent();
+    if (trace) console.error(`${DIM}Tracing to ${trace.path}${RESET}`);
+    const input = inputParts.join(" ");
+    const maxTurns = options.maxTurns ?? config.agent.maxTurns;
+    const memory = await recallMemory(config, input, (warning) => console.error(warning));
     const systemPrompt = buildSystemPrompt(memory);
-    const { response } = await ask(inputParts.join(" "), llm, tools, systemPrompt, {
-      maxTurns: config.agent.maxTurns,
-    });
-    console.log(response);
+    const { images, errors } = await loadAttachments(input);
+    for (const error of errors) console.error(error);
+    let result: AskResult;
+    try {
+      const askOptions = {
+        maxTurns,
+        images,
+        responseSchema,
+        compaction: compactionOptions(config),
+        trace,
+      };
+      result = options.plan
+        ? await askWithPlan(input, llm, tools, systemPrompt, askOptions)
+        : await ask(input, llm, tools, systemPrompt, askOptions);
+    } catch (err: unknown) {
+      console.error(`\n${formatError(err)}\n`);
+      process.exit(1);
+    }
+    // Stopped before an answer — out of turns, going in circles, over budget, cancelled
+    // or (with --plan) the plan was rejected
+    if (result.stopReason !== "final") process.exitCode = 1;
+    if (result.stopReason === "max_turns") {
+      console.error(
+        `${YELLOW}Stopped at the ${maxTurns}-turn limit — run again with a higher --max-turns to let it finish.${RESET}`,
+      );
+    }
+    const { response, usage, structured, schemaErrors } = result;
+    if (answeringProvider(llm, config) !== config.provider) {
+      console.error(formatFallbackNotice(llm, config));
+    }
+    if (!responseSchema) {
+      console.log(response);
+    } else if (schemaErrors) {
+      console.error(`${RED}Answer does not match the schema:${RESET}`);
+      for (const error of schemaErrors) console.error(`  ${error}`);
+      console.error(response);
+      process.exitCode = 1;
+    } else {
+      // Normalised JSON on stdout so scripts can pipe it straight into jq
+      console.log(JSON.stringify(structured, null, 2));
+    }
+    if (options.usage && usage) {
+      const cost =
+        ledger.sessionRecords.length > 0 ? `, cost ${formatDollars(ledger.sessionTotal())}` : "";
+      console.error(`${DIM}usage: ${formatUsage(usage)}${cost}${RESET}`);
+    }
   });
 
 program
   .command("chat", { isDefault: true })
   .description("Start interactive chat (default)")
   .action(async () => {
-    const { llm, tools, config } = createAgent();
-    await repl(llm, tools, config);
+    const { llm, tools, config, trace, ledger } = createAgent();
+    await repl(llm, tools, config, ledger, trace);
+  });
+
+program
+  .command("trace")
+  .description("Inspect session traces (enable with trace: true or EPHILEO_TRACE=1)")
+  .command("show")
+  .description("Pretty-print the trace of a session")
+  .argument("<session>", 'Session id, or "last" for the most recent')
+  .option("--full", "Print long messages and tool results in full")
+  .action((session: string, options: { full?: boolean }) => {
+    try {
+      const { memory } = loadConfig();
+      const sessions = listTraceSessions(memory.dir);
+      const id = session === "last" ? sessions.at(-1) : session;
+      if (!id || !sessions.includes(id)) {
+        const recent = sessions.slice(-10).reverse();
+        throw new Error(
+          `No trace for session "${session}" in ${resolve(memory.dir, TRACES_DIR)}.\n` +
+            (recent.length > 0
+              ? `Recent sessions: ${recent.join(", ")}`
+              : "No sessions traced yet."),
+        );
+      }
+      console.log(formatTrace(readTrace(memory.dir, id), { full: options.full }));
+    } catch (err: unknown) {
+      console.error(`\n${formatError(err)}\n`);
+      process.exit(1);
+    }
   });
 
 program.parse();
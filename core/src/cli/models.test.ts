@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import type { EphileoConfig } from "../config/loader.js";
+import { ANSI_ESCAPE_PATTERN } from "./ansi.js";
+import {
+  applySavedSelection,
+  formatModelList,
+  formatProviderList,
+  parseSwitchArgs,
+  withModel,
+  withProvider,
+} from "./models.js";
+
+function makeConfig(): EphileoConfig {
+  return {
+    provider: "exo",
+    providerChain: ["exo", "ollama"],
+    providers: {
+      exo: { baseUrl: "http://exo/v1", model: "qwen" },
+      ollama: { baseUrl: "http://ollama/v1", model: "llama", type: "ollama-native" },
+      cloud: { baseUrl: "http://cloud/v1", model: "big" },
+    },
+    agent: {
+      maxTurns: 10,
+      maxTokens: 100,
+      retry: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+    },
+    memory: { dir: "/tmp/mem" },
+  };
+}
+
+describe("parseSwitchArgs", () => {
+  it("separates the target from --save", () => {
+    expect(parseSwitchArgs("")).toEqual({ target: "", save: false });
+    expect(parseSwitchArgs("cloud --save")).toEqual({ target: "cloud", save: true });
+    expect(parseSwitchArgs("--save  org/model:7b")).toEqual({ target: "org/model:7b", save: true });
+  });
+});
+
+describe("withProvider / withModel", () => {
+  it("switches to a single provider without mutating the original", () => {
+    const config = makeConfig();
+    const next = withProvider(config, "cloud");
+    expect(next.provider).toBe("cloud");
+    expect(next.providerChain).toEqual(["cloud"]);
+    expect(config.provider).toBe("exo");
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => withProvider(makeConfig(), "nope")).toThrow("Unknown provider 'nope'");
+  });
+
+  it("replaces only the active provider's model", () => {
+    const config = makeConfig();
+    const next = withModel(config, "qwen-72b");
+    expect(next.providers.exo.model).toBe("qwen-72b");
+    expect(next.providers.ollama.model).toBe("llama");
+    expect(config.providers.exo.model).toBe("qwen");
+  });
+});
+
+describe("applySavedSelection", () => {
+  it("applies a saved provider and model", () => {
+    const next = applySavedSelection(makeConfig(), { provider: "cloud", model: "bigger" });
+    expect(next.provider).toBe("cloud");
+    expect(next.providers.cloud.model).toBe("bigger");
+  });
+
+  it("ignores a saved provider that is no longer configured", () => {
+    const config = makeConfig();
+    expect(applySavedSelection(config, { provider: "gone", model: "x" })).toBe(config);
+  });
+
+  it("keeps the fallback chain when the saved provider is the configured one", () => {
+    const next = applySavedSelection(makeConfig(), { provider: "exo", model: "qwen-72b" });
+    expect(next.providerChain).toEqual(["exo", "ollama"]);
+    expect(next.providers.exo.model).toBe("qwen-72b");
+  });
+});
+
+describe("formatting", () => {
+  it("marks the active provider and fallbacks", () => {
+    const out = formatProviderList(makeConfig()).replace(ANSI_ESCAPE_PATTERN, "");
+    expect(out).toMatch(/\* exo/);
+    expect(out).toMatch(/ollama .*\(fallback\)/);
+    expect(out).toContain("cloud");
+  });
+
+  it("marks the current model", () => {
+    const out = formatModelList("exo", "b", ["a", "b"]).replace(ANSI_ESCAPE_PATTERN, "");
+    expect(out).toMatch(/\* b/);
+    expect(formatModelList("exo", "b", [])).toContain("did not list any models");
+  });
+});
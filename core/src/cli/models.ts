@@ -0,0 +1,84 @@
+/**
+ * Provider and model switching for the `/provider` and `/model` commands.
+ *
+ * Switching never touches the conversation — the REPL rebuilds its client
+ * from the returned config and keeps sending the same message history.
+ * All functions here are pure so they can be tested without a REPL.
+ */
+
+import type { EphileoConfig } from "../config/loader.js";
+import { DIM, GREEN, RESET, YELLOW } from "./ansi.js";
+import type { EphileoSettings } from "./settings.js";
+
+const SAVE_FLAG = "--save";
+
+/** Split command args into the target name and whether `--save` was given. */
+export function parseSwitchArgs(args: string): { target: string; save: boolean } {
+  const parts = args.split(/\s+/).filter(Boolean);
+  return {
+    target: parts.filter((p) => p !== SAVE_FLAG).join(" "),
+    save: parts.includes(SAVE_FLAG),
+  };
+}
+
+/** Config that uses only the named provider (no fallback chain). Throws on unknown names. */
+export function withProvider(config: EphileoConfig, name: string): EphileoConfig {
+  if (!config.providers[name]) {
+    throw new Error(
+      `Unknown provider '${name}'. Available: ${Object.keys(config.providers).join(", ")}`,
+    );
+  }
+  return { ...config, provider: name, providerChain: [name] };
+}
+
+/** Config with the active provider's model replaced. Other providers are left alone. */
+export function withModel(config: EphileoConfig, model: string): EphileoConfig {
+  const active = config.providers[config.provider];
+  return {
+    ...config,
+    providers: { ...config.providers, [config.provider]: { ...active, model } },
+  };
+}
+
+/**
+ * Apply a provider/model choice saved with `--save`. Entries that no longer
+ * match the config (provider removed) are ignored rather than failing startup.
+ */
+export function applySavedSelection(
+  config: EphileoConfig,
+  settings: EphileoSettings,
+): EphileoConfig {
+  let next = config;
+  if (settings.provider && settings.provider !== config.provider) {
+    if (!config.providers[settings.provider]) return config;
+    next = withProvider(next, settings.provider);
+  }
+  if (settings.model) next = withModel(next, settings.model);
+  return next;
+}
+
+/** Listing for `/provider`: every configured provider, active ones marked. */
+export function formatProviderList(config: EphileoConfig): string {
+  const lines = [`${YELLOW}Providers:${RESET}`];
+  for (const [name, p] of Object.entries(config.providers)) {
+    const marker = name === config.provider ? `${GREEN}*${RESET}` : " ";
+    const fallback =
+      name !== config.provider && config.providerChain.includes(name)
+        ? ` ${DIM}(fallback)${RESET}`
+        : "";
+    lines.push(`  ${marker} ${name} ${DIM}— ${p.type ?? "openai"}, ${p.model}${RESET}${fallback}`);
+  }
+  lines.push(`${DIM}Switch with /provider <name> [--save]${RESET}`);
+  return lines.join("\n");
+}
+
+/** Listing for `/model`: the models a provider serves, the current one marked. */
+export function formatModelList(provider: string, current: string, models: string[]): string {
+  if (models.length === 0) return `${DIM}${provider} did not list any models.${RESET}`;
+  const lines = [`${YELLOW}Models on ${provider}:${RESET}`];
+  for (const m of models) {
+    lines.push(`  ${m === current ? `${GREEN}*${RESET}` : " "} ${m}`);
+  }
+  lines.push(`${DIM}Switch with /model <id> [--save]${RESET}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ChatMessage } from "../llm/index.js";
+import { ToolRegistry } from "../tools/index.js";
+import { ANSI_ESCAPE_PATTERN } from "./ansi.js";
+import type { AskResult } from "./ask.js";
+import { formatPlan, formatPlanStop, type PlanRunner, type PlanVerdict, runPlan } from "./plan.js";
+
+const strip = (s: string) => s.replace(ANSI_ESCAPE_PATTERN, "");
+
+function makeTools() {
+  const tools = new ToolRegistry();
+  const tool = (name: string) => ({
+    name,
+    description: name,
+    parameters: { type: "object", properties: {} },
+    handler: async () => "ok",
+  });
+  tools.register({ ...tool("read_file"), confirmationGroup: "read" });
+  tools.register({ ...tool("write_file"), confirmationGroup: "write" });
+  return tools;
+}
+
+/** Runner that answers each turn from `answers` and records the requests and tools. */
+function makeRunner(answers: Array<string | AskResult>, verdicts: PlanVerdict[]) {
+  const requests: Array<{ request: string; tools: string[] }> = [];
+  const runner: PlanRunner = {
+    run: vi.fn(async (request: string, tools: ToolRegistry) => {
+      requests.push({ request, tools: tools.listNames() });
+      const answer = answers.shift() ?? "(none)";
+      return typeof answer === "string"
+        ? { response: answer, stopReason: "final", hadThinking: false }
+        : answer;
+    }),
+    review: vi.fn(async () => verdicts.shift() ?? { action: "cancel" as const }),
+    onStepStart: vi.fn(),
+    onStepEnd: vi.fn(),
+  };
+  return { runner, requests };
+}
+
+describe("runPlan", () => {
+  it("plans with read-only tools, then runs each approved step with all of them", async () => {
+    const messages: ChatMessage[] = [{ role: "system", content: "sys" }];
+    const { runner, requests } = makeRunner(
+      ["1. Read a.txt\n2. Fix the typo", "Read it.", "Fixed it."],
+      [{ action: "run" }],
+    );
+
+    const outcome = await runPlan("fix a.txt", makeTools(), messages, runner);
+
+    expect(outcome).toEqual({
+      status: "done",
+      steps: ["Read a.txt", "Fix the typo"],
+      completed: 2,
+      response: "Fixed it.",
+    });
+    expect(requests[0].request).toContain("Task: fix a.txt");
+    expect(requests[0].tools).toEqual(["read_file"]);
+    expect(requests[1].request).toContain("step 1 of 2");
+    expect(requests[2].tools).toEqual(["read_file", "write_file"]);
+    expect(runner.onStepStart).toHaveBeenCalledTimes(2);
+    expect(runner.onStepEnd).toHaveBeenLastCalledWith(1, outcome.steps, "Fixed it.");
+    // The plan and step reports stay in the conversation for later steps
+    expect(messages.filter((m) => m.role === "assistant").map((m) => m.content)).toEqual([
+      "1. Read a.txt\n2. Fix the typo",
+      "Read it.",
+      "Fixed it.",
+    ]);
+  });
+
+  it("revises the plan with the user's changes", async () => {
+    const { runner, requests } = makeRunner(
+      ["1. Delete everything", "1. Delete the temp files", "Deleted."],
+      [{ action: "revise", feedback: "only the temp files" }, { action: "run" }],
+    );
+
+    const outcome = await runPlan("clean up", makeTools(), [], runner);
+
+    expect(requests[1].request).toContain("only the temp files");
+    expect(requests[1].tools).toEqual(["read_file"]);
+    expect(outcome).toMatchObject({ status: "done", steps: ["Delete the temp files"] });
+  });
+
+  it("stops when the plan is rejected", async () => {
+    const messages: ChatMessage[] = [];
+    const { runner } = makeRunner(["1. Do it"], [{ action: "cancel" }]);
+
+    const outcome = await runPlan("task", makeTools(), messages, runner);
+
+    expect(outcome).toMatchObject({ status: "rejected", completed: 0 });
+    expect(runner.run).toHaveBeenCalledTimes(1);
+    expect(messages.at(-1)?.role).toBe("user");
+  });
+
+  it("returns an answer that has no plan as is", async () => {
+    const { runner } = makeRunner(["Nothing to do, it's already fixed."], []);
+
+    const outcome = await runPlan("task", makeTools(), [], runner);
+
+    expect(outcome).toMatchObject({
+      status: "answered",
+      response: "Nothing to do, it's already fixed.",
+    });
+    expect(runner.review).not.toHaveBeenCalled();
+  });
+
+  it("stops at a cancelled step", async () => {
+    const { runner } = makeRunner(
+      [
+        "1. One\n2. Two\n3. Three",
+        "Did one.",
+        { response: "[Cancelled]", stopReason: "cancelled", hadThinking: false, cancelled: true },
+      ],
+      [{ action: "run" }],
+    );
+
+    const outcome = await runPlan("task", makeTools(), [], runner);
+
+    expect(outcome).toMatchObject({ status: "cancelled", completed: 1 });
+    expect(runner.run).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops at a step that ran out of turns and says which", async () => {
+    const { runner } = makeRunner(
+      [
+        "1. One\n2. Two\n3. Three",
+        "Did one.",
+        { response: "Still going", stopReason: "max_turns", hadThinking: false },
+      ],
+      [{ action: "run" }],
+    );
+
+    const outcome = await runPlan("task", makeTools(), [], runner);
+
+    expect(outcome).toMatchObject({ status: "stopped", completed: 1, stopReason: "max_turns" });
+    expect(runner.run).toHaveBeenCalledTimes(3);
+    expect(runner.onStepEnd).toHaveBeenCalledTimes(1);
+    expect(strip(formatPlanStop(outcome))).toBe("[stopped at step 2 of 3: out of turns]");
+  });
+
+  it("stops before review when planning hits the budget", async () => {
+    const { runner } = makeRunner(
+      [{ response: "", stopReason: "budget", hadThinking: false }],
+      [{ action: "run" }],
+    );
+
+    const outcome = await runPlan("task", makeTools(), [], runner);
+
+    expect(outcome).toMatchObject({ status: "stopped", stopReason: "budget" });
+    expect(runner.review).not.toHaveBeenCalled();
+    expect(strip(formatPlanStop(outcome))).toBe("[stopped while planning: daily cost cap reached]");
+  });
+});
+
+describe("formatPlan", () => {
+  it("numbers the steps", () => {
+    expect(strip(formatPlan(["Read", "Write"]))).toBe("Plan:\n  1. Read\n  2. Write");
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Plan-then-execute driver for the REPL `/plan` command and `ask --plan`.
+ *
+ * The agent plans with read-only tools, the user approves, edits or rejects
+ * the plan, then each step runs as its own agent turn with progress markers.
+ * How a turn is displayed is up to the caller (see PlanRunner), so the REPL
+ * and one-shot ask share the flow.
+ */
+
+import {
+  parsePlan,
+  planningTools,
+  planRequest,
+  planRevisionRequest,
+  type StopReason,
+  stepRequest,
+} from "../agent/index.js";
+import {
+  addUsage,
+  type ChatClient,
+  type ChatMessage,
+  type TokenUsage,
+  ZERO_USAGE,
+} from "../llm/index.js";
+import type { ToolRegistry } from "../tools/index.js";
+import { BLUE, DIM, GREEN, RESET, YELLOW } from "./ansi.js";
+import { type AskOptions, type AskResult, ask } from "./ask.js";
+import { type ConfirmPromptOptions, readPlanReview } from "./confirm.js";
+import { readMultiLineInput } from "./input.js";
+
+export type PlanVerdict =
+  | { action: "run" }
+  | { action: "revise"; feedback: string }
+  | { action: "cancel" };
+
+export interface PlanRunner {
+  /** Run one agent turn for `request` on the conversation, with these tools. */
+  run(request: string, tools: ToolRegistry): Promise<AskResult>;
+  /** Show the proposed plan and return what the user makes of it. */
+  review(steps: string[]): Promise<PlanVerdict>;
+  /** Step `index` is about to run. */
+  onStepStart?(index: number, steps: string[]): void;
+  /** Step `index` finished with this report. */
+  onStepEnd?(index: number, steps: string[], response: string): void;
+}
+
+export interface PlanOutcome {
+  /**
+   * "done": every step ran. "answered": the model replied without a plan.
+   * "rejected": the user turned the plan down. "cancelled": a turn was cancelled.
+   * "stopped": a turn ended without finishing (see stopReason), so the rest
+   * of the plan was not run.
+   */
+  status: "done" | "answered" | "rejected" | "cancelled" | "stopped";
+  /** The last plan proposed. */
+  steps: string[];
+  /** Steps that ran to completion. */
+  completed: number;
+  /** The final step's report, or the planning answer when no plan was run. */
+  response: string;
+  /** Why the turn that stopped the plan ended, when status is "stopped". */
+  stopReason?: StopReason;
+}
+
+/**
+ * Plan `task`, get it reviewed, then run it step by step. The plan and each
+ * step's report are kept in `messages` so later steps (and turns) can see them.
+ * A turn that runs out of turns, loops or hits the budget stops the plan there.
+ */
+export async function runPlan(
+  task: string,
+  tools: ToolRegistry,
+  messages: ChatMessage[],
+  runner: PlanRunner,
+): Promise<PlanOutcome> {
+  const turn = async (request: string, registry: ToolRegistry) => {
+    const result = await runner.run(request, registry);
+    if (!result.cancelled) messages.push({ role: "assistant", content: result.response });
+    return result;
+  };
+
+  let steps: string[] = [];
+  let planning = await turn(planRequest(task), planningTools(tools));
+  for (;;) {
+    if (planning.cancelled) {
+      return { status: "cancelled", steps, completed: 0, response: planning.response };
+    }
+    if (planning.stopReason !== "final") {
+      const { response, stopReason } = planning;
+      return { status: "stopped", steps, completed: 0, response, stopReason };
+    }
+    steps = parsePlan(planning.response);
+    if (steps.length === 0) {
+      return { status: "answered", steps, completed: 0, response: planning.response };
+    }
+    const verdict = await runner.review(steps);
+    if (verdict.action === "run") break;
+    if (verdict.action === "cancel") {
+      messages.push({ role: "user", content: "I don't want to go ahead with this plan." });
+      return { status: "rejected", steps, completed: 0, response: planning.response };
+    }
+    planning = await turn(planRevisionRequest(verdict.feedback), planningTools(tools));
+  }
+
+  let response = "";
+  for (let i = 0; i < steps.length; i++) {
+    runner.onStepStart?.(i, steps);
+    const result = await turn(stepRequest(steps, i), tools);
+    if (result.cancelled) {
+      return { status: "cancelled", steps, completed: i, response: result.response };
+    }
+    if (result.stopReason !== "final") {
+      const { response, stopReason } = result;
+      return { status: "stopped", steps, completed: i, response, stopReason };
+    }
+    runner.onStepEnd?.(i, steps, result.response);
+    response = result.response;
+  }
+  return { status: "done", steps, completed: steps.length, response };
+}
+
+/** Numbered plan for display. */
+export function formatPlan(steps: string[]): string {
+  const lines = [`${YELLOW}Plan:${RESET}`];
+  steps.forEach((step, i) => {
+    lines.push(`  ${GREEN}${i + 1}.${RESET} ${step}`);
+  });
+  return lines.join("\n");
+}
+
+/** Progress marker shown before a step runs, e.g. "[step 2/5] Update the tests". */
+export function formatStepMarker(index: number, steps: string[]): string {
+  return `${YELLOW}[step ${index + 1}/${steps.length}]${RESET} ${steps[index]}`;
+}
+
+const STOP_DESCRIPTIONS: Record<StopReason, string> = {
+  final: "finished",
+  max_turns: "out of turns",
+  loop: "repeating the same tool calls",
+  budget: "daily cost cap reached",
+  cancelled: "cancelled",
+};
+
+/**
+ * Where and why a stopped plan ended, e.g. "[stopped at step 2 of 5: out of
+ * turns]". A plan stopped while planning has no steps to count.
+ */
+export function formatPlanStop(outcome: PlanOutcome): string {
+  const reason = STOP_DESCRIPTIONS[outcome.stopReason ?? "final"];
+  const where =
+    outcome.steps.length > 0
+      ? `at step ${outcome.completed + 1} of ${outcome.steps.length}`
+      : "while planning";
+  return `${YELLOW}[stopped ${where}: ${reason}]${RESET}`;
+}
+
+/**
+ * Interactive review: shows the plan and reads y (run), e (describe changes
+ * for a revised plan) or n (reject). Without a TTY the plan runs unreviewed.
+ */
+export async function reviewPlan(
+  steps: string[],
+  options: ConfirmPromptOptions = {},
+): Promise<PlanVerdict> {
+  const write = options.write ?? ((text: string) => process.stderr.write(text));
+  write(`\n${formatPlan(steps)}\n\n`);
+  write(`${YELLOW}Run this plan?${RESET} ${DIM}[y - yes, e - edit, n - no]${RESET} `);
+  const choice = await readPlanReview(options);
+  if (choice === "run") return { action: "run" };
+  if (choice === "cancel") return { action: "cancel" };
+
+  write(`${DIM}What should change? (Enter to send)${RESET}\n`);
+  const input = await readMultiLineInput({
+    prompt: `${BLUE}> ${RESET}`,
+    continuationPrompt: `${BLUE}..${RESET} `,
+  });
+  const feedback = input.kind === "input" ? input.value.trim() : "";
+  return feedback ? { action: "revise", feedback } : { action: "cancel" };
+}
+
+/**
+ * `ask --plan`: runs the plan flow on a fresh conversation with progress on
+ * stderr. The result's response is the final report; it is marked cancelled
+ * when the plan was rejected or a step was cancelled, and carries the stop
+ * reason of the turn that stopped the plan, which is reported on stderr.
+ */
+export async function askWithPlan(
+  task: string,
+  llm: ChatClient,
+  tools: ToolRegistry,
+  systemPrompt: string,
+  opts: AskOptions = {},
+): Promise<AskResult & { outcome: PlanOutcome }> {
+  const write = opts.write ?? ((text: string) => process.stderr.write(text));
+  const messages: ChatMessage[] = opts.messages ?? [{ role: "system", content: systemPrompt }];
+  const callUsage: TokenUsage[] = [];
+  let hadThinking = false;
+  // Attachments go with the planning request only
+  let images = opts.images;
+
+  const outcome = await runPlan(task, tools, messages, {
+    async run(request, registry) {
+      const result = await ask(request, llm, registry, systemPrompt, {
+        ...opts,
+        messages,
+        images,
+      });
+      images = undefined;
+      callUsage.push(...(result.callUsage ?? []));
+      hadThinking ||= result.hadThinking;
+      return result;
+    },
+    review: (steps) => reviewPlan(steps, { write }),
+    onStepStart: (index, steps) => write(`\n${formatStepMarker(index, steps)}\n`),
+    onStepEnd: (index, steps, response) => {
+      if (index < steps.length - 1) write(`${DIM}${response}${RESET}\n`);
+    },
+  });
+
+  if (outcome.status === "stopped") write(`${formatPlanStop(outcome)}\n`);
+  const cancelled = outcome.status === "rejected" || outcome.status === "cancelled";
+  return {
+    response: outcome.response,
+    stopReason: cancelled ? "cancelled" : (outcome.stopReason ?? "final"),
+    hadThinking,
+    cancelled,
+    usage: callUsage.reduce(addUsage, ZERO_USAGE),
+    callUsage,
+    outcome,
+  };
+}
@@ -29,6 +29,12 @@ describe("loadSettings", () => {
     expect(result.permissionLevel).toBeUndefined();
   });
 
+  it("loads a saved provider and model", () => {
+    const path = makeTempFile();
+    writeFileSync(path, JSON.stringify({ provider: "ollama", model: "llama3", extra: 1 }), "utf-8");
+    expect(loadSettings(path)).toEqual({ provider: "ollama", model: "llama3" });
+  });
+
   it("returns empty object for malformed JSON", () => {
     const path = makeTempFile();
     writeFileSync(path, "not json at all", "utf-8");
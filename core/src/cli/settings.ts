@@ -14,6 +14,10 @@ const SETTINGS_FILENAME = ".ephileo_settings";
 /** Shape of the persisted settings file. Extend this as new settings are added. */
 export interface EphileoSettings {
   permissionLevel?: PermissionLevel;
+  /** Provider chosen with `/provider <name> --save`. Overrides config.yaml's provider. */
+  provider?: string;
+  /** Model chosen with `/model <id> --save`, for the saved (or configured) provider. */
+  model?: string;
 }
 
 const VALID_PERMISSION_LEVELS: readonly string[] = ["write-only", "read-and-write", "auto-accept"];
@@ -36,6 +40,8 @@ export function loadSettings(filePath?: string): EphileoSettings {
     ) {
       settings.permissionLevel = obj.permissionLevel as PermissionLevel;
     }
+    if (typeof obj.provider === "string" && obj.provider) settings.provider = obj.provider;
+    if (typeof obj.model === "string" && obj.model) settings.model = obj.model;
     return settings;
   } catch {
     return {};
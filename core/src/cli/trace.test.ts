@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { TracedEvent } from "../agent/index.js";
+import { ANSI_ESCAPE_PATTERN } from "./ansi.js";
+import { formatTrace } from "./trace.js";
+
+const strip = (s: string) => s.replace(ANSI_ESCAPE_PATTERN, "");
+const ts = "2026-10-19T14:52:03.000Z";
+
+const EVENTS: TracedEvent[] = [
+  { ts, type: "session", session: "s1", provider: "local", model: "qwen" },
+  {
+    ts,
+    type: "request",
+    turn: 1,
+    model: "qwen",
+    tools: ["read_file"],
+    messages: [
+      { role: "system", content: "You are Ephileo" },
+      { role: "user", content: "read a.txt" },
+    ],
+  },
+  {
+    ts,
+    type: "response",
+    turn: 1,
+    content: null,
+    thinking: "I should read it",
+    toolCalls: [{ id: "1", name: "read_file", arguments: { path: "a.txt" } }],
+    finishReason: "tool_calls",
+    usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120, estimated: false },
+    durationMs: 1500,
+  },
+  {
+    ts,
+    type: "tool",
+    turn: 1,
+    id: "1",
+    name: "read_file",
+    arguments: { path: "a.txt" },
+    result: "x".repeat(1000),
+    images: 0,
+    durationMs: 3,
+  },
+  {
+    ts,
+    type: "request",
+    turn: 2,
+    model: "qwen",
+    tools: ["read_file"],
+    messages: [
+      { role: "system", content: "You are Ephileo" },
+      { role: "user", content: "read a.txt" },
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [
+          { id: "1", type: "function", function: { name: "read_file", arguments: "{}" } },
+        ],
+      },
+      { role: "tool", content: "contents", tool_call_id: "1" },
+    ],
+  },
+  { ts, type: "error", turn: 2, message: "LLM request failed (500)", durationMs: 20 },
+];
+
+describe("formatTrace", () => {
+  it("prints each event with its details", () => {
+    const out = strip(formatTrace(EVENTS));
+
+    expect(out).toContain("Session s1 — local (qwen)");
+    expect(out).toContain("14:52:03 [turn 1] request qwen, 2 messages, 1 tools");
+    expect(out).toContain("user: read a.txt");
+    expect(out).toContain("[turn 1] response 1.5s, finish tool_calls, 100 prompt + 20 completion");
+    expect(out).toContain("thinking: I should read it");
+    expect(out).toContain('→ read_file({"path":"a.txt"})');
+    expect(out).toContain("[turn 1] tool read_file 3ms");
+    expect(out).toContain("[turn 2] error after 20ms");
+    expect(out).toContain("LLM request failed (500)");
+  });
+
+  it("shows only the messages each request added", () => {
+    const out = strip(formatTrace(EVENTS));
+    expect(out.match(/user: read a\.txt/g)).toHaveLength(1);
+    expect(out).toContain("tool: contents");
+  });
+
+  it("clips long text unless full output is asked for", () => {
+    expect(strip(formatTrace(EVENTS))).toContain("… (600 more chars)");
+    expect(strip(formatTrace(EVENTS, { full: true }))).not.toContain("more chars");
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * `ephileo trace show` — pretty-prints a session's JSONL trace.
+ *
+ * Requests show only the messages added since the previous request (the
+ * whole history is resent every turn), responses show thinking, content and
+ * tool calls, and tool executions show their result. Long text is clipped
+ * unless --full is given. Formatting is pure so it can be tested directly.
+ */
+
+import type { TracedEvent } from "../agent/index.js";
+import { contentText } from "../llm/index.js";
+import { BLUE, DIM, GREEN, RED, RESET, YELLOW } from "./ansi.js";
+import { formatUsage } from "./usage.js";
+
+const CLIP_LENGTH = 400;
+
+export interface FormatTraceOptions {
+  /** Print text in full instead of clipping it. */
+  full?: boolean;
+}
+
+function clock(ts: string): string {
+  return ts.slice(11, 19);
+}
+
+function seconds(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Indent every line of a block under the event header. */
+function block(label: string, text: string, full: boolean): string {
+  const clipped =
+    !full && text.length > CLIP_LENGTH
+      ? `${text.slice(0, CLIP_LENGTH)}${DIM}… (${text.length - CLIP_LENGTH} more chars)${RESET}`
+      : text;
+  return `    ${DIM}${label}${RESET} ${clipped.replace(/\n/g, "\n      ")}`;
+}
+
+/** Render a session's events for the terminal. */
+export function formatTrace(events: TracedEvent[], options: FormatTraceOptions = {}): string {
+  const full = options.full ?? false;
+  const lines: string[] = [];
+  let sentMessages = 0;
+
+  for (const event of events) {
+    const at = `${DIM}${clock(event.ts)}${RESET}`;
+    switch (event.type) {
+      case "session":
+        lines.push(
+          `${YELLOW}Session ${event.session}${RESET} ${DIM}— ${event.provider} (${event.model})${RESET}`,
+        );
+        break;
+      case "request": {
+        // Fewer messages than last time means the history was cleared or compacted
+        const fresh =
+          event.messages.length >= sentMessages
+            ? event.messages.slice(sentMessages)
+            : event.messages;
+        sentMessages = event.messages.length;
+        lines.push(
+          `${at} ${GREEN}[turn ${event.turn}] request${RESET} ${DIM}${event.model}, ${event.messages.length} messages, ${event.tools.length} tools${RESET}`,
+        );
+        for (const m of fresh) {
+          const text = contentText(m.content);
+          if (text) lines.push(block(`${m.role}:`, text, full));
+          for (const tc of m.tool_calls ?? []) {
+            lines.push(block(`${m.role} →`, `${tc.function.name}(${tc.function.arguments})`, full));
+          }
+        }
+        break;
+      }
+      case "response":
+        lines.push(
+          `${at} ${BLUE}[turn ${event.turn}] response${RESET} ${DIM}${seconds(event.durationMs)}, finish ${event.finishReason}${event.usage ? `, ${formatUsage(event.usage)}` : ""}${RESET}`,
+        );
+        if (event.thinking) lines.push(block("thinking:", event.thinking, full));
+        if (event.content) lines.push(block("content:", event.content, full));
+        for (const tc of event.toolCalls) {
+          lines.push(block("→", `${tc.name}(${JSON.stringify(tc.arguments)})`, full));
+        }
+        break;
+      case "tool":
+        lines.push(
+          `${at} ${YELLOW}[turn ${event.turn}] tool ${event.name}${RESET} ${DIM}${seconds(event.durationMs)}${event.images ? `, ${event.images} image(s)` : ""}${RESET}`,
+        );
+        lines.push(block("←", event.result, full));
+        break;
+      case "compaction":
+        lines.push(
+          `${at} ${YELLOW}[turn ${event.turn}] compaction${RESET} ${DIM}summarized ${event.removedMessages} messages (~${event.tokensBefore} → ~${event.tokensAfter} tokens)${RESET}`,
+        );
+        // The next request resends the shortened history in full
+        sentMessages = 0;
+        break;
+      case "error":
+        lines.push(
+          `${at} ${RED}[turn ${event.turn}] error${RESET} ${DIM}after ${seconds(event.durationMs)}${RESET}`,
+        );
+        lines.push(block("", event.message, full));
+        break;
+    }
+  }
+  return lines.join("\n");
+}
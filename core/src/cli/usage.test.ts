@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { ANSI_ESCAPE_PATTERN } from "./ansi.js";
+import { formatUsage, UsageTracker } from "./usage.js";
+
+const strip = (s: string) => s.replace(ANSI_ESCAPE_PATTERN, "");
+
+describe("formatUsage", () => {
+  it("formats reported usage with thousands separators", () => {
+    const text = formatUsage({
+      promptTokens: 1200,
+      completionTokens: 340,
+      totalTokens: 1540,
+      estimated: false,
+    });
+    expect(text).toBe("1,200 prompt + 340 completion = 1,540 tokens");
+  });
+
+  it("marks estimated usage with ~", () => {
+    const text = formatUsage({
+      promptTokens: 5,
+      completionTokens: 1,
+      totalTokens: 6,
+      estimated: true,
+    });
+    expect(text).toBe("~5 prompt + ~1 completion = ~6 tokens");
+  });
+});
+
+describe("UsageTracker", () => {
+  const call = (p: number, c: number) => ({
+    promptTokens: p,
+    completionTokens: c,
+    totalTokens: p + c,
+    estimated: false,
+  });
+
+  it("reports when nothing has been recorded", () => {
+    expect(strip(new UsageTracker().format())).toBe("No LLM calls yet.");
+  });
+
+  it("accumulates session totals across turns", () => {
+    const tracker = new UsageTracker();
+    tracker.record([call(100, 10)]);
+    tracker.record([call(200, 20), call(300, 30)]);
+
+    expect(tracker.total.totalTokens).toBe(660);
+    const text = strip(tracker.format());
+    expect(text).toContain("last turn  500 prompt + 50 completion = 550 tokens (2 calls)");
+    expect(text).toContain("call 2: 300 prompt");
+    expect(text).toContain("session    600 prompt + 60 completion = 660 tokens (3 calls)");
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Token usage display for the REPL `/usage` command and `ask --usage`.
+ *
+ * Keeps running totals for the session; formatting is pure so it can be
+ * tested without a terminal.
+ */
+
+import { addUsage, type TokenUsage, ZERO_USAGE } from "../llm/index.js";
+import { DIM, GREEN, RESET, YELLOW } from "./ansi.js";
+
+/** Format one usage record, e.g. "1,200 prompt + 340 completion = 1,540 tokens". */
+export function formatUsage(usage: TokenUsage): string {
+  const approx = usage.estimated ? "~" : "";
+  const n = (v: number) => `${approx}${v.toLocaleString("en-US")}`;
+  return `${n(usage.promptTokens)} prompt + ${n(usage.completionTokens)} completion = ${n(usage.totalTokens)} tokens`;
+}
+
+/** Accumulates usage across REPL turns. */
+export class UsageTracker {
+  private session: TokenUsage = ZERO_USAGE;
+  private sessionCalls = 0;
+  private lastTurn: TokenUsage[] = [];
+
+  /** Record the per-call usage of one ask() round. */
+  record(callUsage: TokenUsage[]): void {
+    this.lastTurn = callUsage;
+    this.sessionCalls += callUsage.length;
+    this.session = callUsage.reduce(addUsage, this.session);
+  }
+
+  get total(): TokenUsage {
+    return this.session;
+  }
+
+  /** Multi-line report for the /usage command. */
+  format(): string {
+    if (this.sessionCalls === 0) return `${DIM}No LLM calls yet.${RESET}`;
+    const lines = [`${YELLOW}Token usage:${RESET}`];
+    if (this.lastTurn.length > 0) {
+      const turn = this.lastTurn.reduce(addUsage, ZERO_USAGE);
+      lines.push(
+        `  ${GREEN}last turn${RESET}  ${formatUsage(turn)} ${DIM}(${callCount(this.lastTurn.length)})${RESET}`,
+      );
+      if (this.lastTurn.length > 1) {
+        this.lastTurn.forEach((u, i) => {
+          lines.push(`    ${DIM}call ${i + 1}: ${formatUsage(u)}${RESET}`);
+        });
+      }
+    }
+    lines.push(
+      `  ${GREEN}session${RESET}    ${formatUsage(this.session)} ${DIM}(${callCount(this.sessionCalls)})${RESET}`,
+    );
+    if (this.session.estimated) {
+      lines.push(`  ${DIM}~ = estimated locally (provider did not report usage)${RESET}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+/** "1 call", "3 calls". */
+export function callCount(n: number): string {
+  return `${n} call${n === 1 ? "" : "s"}`;
+}
@@ -7,7 +7,13 @@ vi.mock("node:fs", () => ({
 }));
 
 import { existsSync, readFileSync } from "node:fs";
-import { _resetConfigCacheForTesting, getActiveProvider, loadConfig } from "./loader.js";
+import {
+  _resetConfigCacheForTesting,
+  getActiveProvider,
+  getProviderChain,
+  loadConfig,
+  resolveRetry,
+} from "./loader.js";
 
 const mockedExistsSync = vi.mocked(existsSync);
 const mockedReadFileSync = vi.mocked(readFileSync);
@@ -91,6 +97,79 @@ providers:
     expect(config.providers.custom.model).toBe("test-model");
   });
 
+  it("keeps provider options when env overrides the base URL", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(`
+provider: ollama
+providers:
+  ollama:
+    type: ollama-native
+    baseUrl: http://localhost:11434
+    model: qwen3
+    numCtx: 16384
+`);
+    process.env.EPHILEO_BASE_URL = "http://other:11434";
+
+    const config = loadConfig();
+    expect(config.providers.ollama.type).toBe("ollama-native");
+    expect(config.providers.ollama.numCtx).toBe(16384);
+    expect(config.providers.ollama.baseUrl).toBe("http://other:11434");
+  });
+
+  it("throws for an unknown provider type", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(`
+provider: exo
+providers:
+  exo:
+    type: carrier-pigeon
+    baseUrl: http://localhost:52415/v1
+    model: test
+`);
+    expect(() => loadConfig()).toThrow('Unknown type "carrier-pigeon"');
+  });
+
+  it("throws for a thinkTag given with angle brackets", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(`
+provider: exo
+providers:
+  exo:
+    baseUrl: http://localhost:52415/v1
+    model: test
+    thinkTag: "<thinking>"
+`);
+    expect(() => loadConfig()).toThrow('Invalid thinkTag "<thinking>"');
+  });
+
+  it("accepts a list of providers as a fallback chain", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(`
+provider: [exo, ollama]
+providers:
+  exo:
+    baseUrl: http://localhost:52415/v1
+    model: a
+  ollama:
+    baseUrl: http://localhost:11434/v1
+    model: b
+`);
+
+    const config = loadConfig();
+    expect(config.provider).toBe("exo");
+    expect(config.providerChain).toEqual(["exo", "ollama"]);
+  });
+
+  it("reads a comma-separated chain from EPHILEO_PROVIDER", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(VALID_YAML);
+    process.env.EPHILEO_PROVIDER = "ollama, exo";
+
+    const config = loadConfig();
+    expect(config.provider).toBe("ollama");
+    expect(config.providerChain).toEqual(["ollama", "exo"]);
+  });
+
   it("uses agent defaults when not specified in yaml", () => {
     mockedExistsSync.mockReturnValue(true);
     mockedReadFileSync.mockReturnValue(VALID_YAML);
@@ -98,6 +177,207 @@ providers:
     const config = loadConfig();
     expect(config.agent.maxTurns).toBe(20);
     expect(config.agent.maxTokens).toBe(4096);
+    expect(config.agent.retry).toEqual({ maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 30000 });
+  });
+
+  it("merges agent.retry over defaults", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(`${VALID_YAML}
+agent:
+  retry:
+    maxAttempts: 5
+`);
+
+    const config = loadConfig();
+    expect(config.agent.retry.maxAttempts).toBe(5);
+    expect(config.agent.retry.baseDelayMs).toBe(1000);
+  });
+
+  it("throws for an invalid retry setting", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(`
+provider: exo
+providers:
+  exo:
+    baseUrl: http://localhost:52415/v1
+    model: test
+    retry:
+      maxAttempts: 0
+`);
+    expect(() => loadConfig()).toThrow("providers.exo.retry.maxAttempts");
+  });
+
+  it("loads sampling parameters and capability flags", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(`
+provider: exo
+providers:
+  exo:
+    baseUrl: http://localhost:52415/v1
+    model: test
+    temperature: 0.2
+    topP: 0.9
+    stop: "###"
+    seed: 7
+    contextWindow: 32768
+    supportsTools: false
+    supportsThinking: false
+    timeoutMs: 600000
+    idleTimeoutMs: 0
+`);
+
+    const p = loadConfig().providers.exo;
+    expect(p.temperature).toBe(0.2);
+    expect(p.topP).toBe(0.9);
+    expect(p.stop).toEqual(["###"]);
+    expect(p.seed).toBe(7);
+    expect(p.contextWindow).toBe(32768);
+    expect(p.supportsTools).toBe(false);
+    expect(p.supportsThinking).toBe(false);
+    expect(p.timeoutMs).toBe(600000);
+    expect(p.idleTimeoutMs).toBe(0);
+  });
+
+  it.each([
+    ["temperature: 3", "providers.exo.temperature"],
+    ["topP: -0.1", "providers.exo.topP"],
+    ["seed: 1.5", "providers.exo.seed"],
+    ["contextWindow: 0", "providers.exo.contextWindow"],
+    ["stop: [1, 2]", "providers.exo.stop"],
+    ['supportsTools: "no"', "providers.exo.supportsTools"],
+    ["timeoutMs: 0", "providers.exo.timeoutMs"],
+    ["idleTimeoutMs: -1", "providers.exo.idleTimeoutMs"],
+    ["prices: { big: { input: 3 } }", "providers.exo.prices.big.output"],
+  ])("rejects invalid model setting %s", (line, path) => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(`${VALID_YAML}    ${line}\n`);
+    expect(() => loadConfig()).toThrow(path);
+  });
+
+  it("defaults and validates agent.compactThreshold", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(VALID_YAML);
+    expect(loadConfig().agent.compactThreshold).toBe(0.8);
+
+    _resetConfigCacheForTesting();
+    mockedReadFileSync.mockReturnValue(`${VALID_YAML}agent:\n  compactThreshold: 0.5\n`);
+    expect(loadConfig().agent.compactThreshold).toBe(0.5);
+
+    _resetConfigCacheForTesting();
+    mockedReadFileSync.mockReturnValue(`${VALID_YAML}agent:\n  compactThreshold: 1.5\n`);
+    expect(() => loadConfig()).toThrow("agent.compactThreshold");
+  });
+
+  it("defaults and validates agent.subagentMaxTurns", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(VALID_YAML);
+    expect(loadConfig().agent.subagentMaxTurns).toBe(10);
+
+    _resetConfigCacheForTesting();
+    mockedReadFileSync.mockReturnValue(`${VALID_YAML}agent:\n  subagentMaxTurns: 4\n`);
+    expect(loadConfig().agent.subagentMaxTurns).toBe(4);
+
+    _resetConfigCacheForTesting();
+    mockedReadFileSync.mockReturnValue(`${VALID_YAML}agent:\n  subagentMaxTurns: 0\n`);
+    expect(() => loadConfig()).toThrow("agent.subagentMaxTurns");
+  });
+
+  it("loads model prices and validates cost.dailyCap", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(
+      `${VALID_YAML}    prices:\n      big: { input: 3, output: 15 }\ncost:\n  dailyCap: 2.5\n`,
+    );
+    const config = loadConfig();
+    expect(config.providers.exo.prices).toEqual({ big: { input: 3, output: 15 } });
+    expect(config.cost.dailyCap).toBe(2.5);
+
+    _resetConfigCacheForTesting();
+    mockedReadFileSync.mockReturnValue(`${VALID_YAML}cost:\n  dailyCap: 0\n`);
+    expect(() => loadConfig()).toThrow("cost.dailyCap");
+  });
+
+  it("enables tracing from config or EPHILEO_TRACE", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(VALID_YAML);
+    expect(loadConfig().trace).toBe(false);
+
+    _resetConfigCacheForTesting();
+    process.env.EPHILEO_TRACE = "1";
+    expect(loadConfig().trace).toBe(true);
+
+    _resetConfigCacheForTesting();
+    mockedReadFileSync.mockReturnValue(`trace: true\n${VALID_YAML}`);
+    process.env.EPHILEO_TRACE = "off";
+    expect(loadConfig().trace).toBe(false);
+  });
+
+  it("loads memory recall settings", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(VALID_YAML);
+    expect(loadConfig().memory.topK).toBe(5);
+    expect(loadConfig().memory.embeddings).toBeUndefined();
+
+    _resetConfigCacheForTesting();
+    mockedReadFileSync.mockReturnValue(
+      `${VALID_YAML}memory:\n  topK: 3\n  embeddings:\n    provider: exo\n    model: embed\n`,
+    );
+    expect(loadConfig().memory).toMatchObject({
+      topK: 3,
+      embeddings: { provider: "exo", model: "embed" },
+    });
+  });
+
+  it.each([
+    ["  topK: 0", "memory.topK"],
+    ["  embeddings:\n    provider: nope\n    model: embed", 'provider "nope" is not a configured'],
+    ["  embeddings:\n    provider: exo", "Missing memory.embeddings.model"],
+  ])("rejects invalid memory setting %s", (lines, message) => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(`${VALID_YAML}memory:\n${lines}\n`);
+    expect(() => loadConfig()).toThrow(message);
+  });
+
+  it("rejects an embeddings provider without an embeddings endpoint", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(`${VALID_YAML}  claude:
+    type: anthropic
+    baseUrl: https://api.anthropic.com/v1
+    model: claude
+memory:
+  embeddings:
+    provider: claude
+    model: embed
+`);
+    expect(() => loadConfig()).toThrow("has no embeddings endpoint");
+  });
+
+  it("requires a fixture for replay providers and resolves it", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(`
+provider: replay
+providers:
+  replay:
+    type: replay
+`);
+    expect(() => loadConfig()).toThrow("no fixture");
+
+    _resetConfigCacheForTesting();
+    mockedReadFileSync.mockReturnValue(`
+provider: replay
+providers:
+  replay:
+    type: replay
+    fixture: fixtures/bug.json
+`);
+    expect(loadConfig().providers.replay.fixture).toMatch(/^\/.*fixtures\/bug\.json$/);
+  });
+
+  it("reads EPHILEO_RECORD", () => {
+    mockedExistsSync.mockReturnValue(true);
+    mockedReadFileSync.mockReturnValue(VALID_YAML);
+    process.env.EPHILEO_RECORD = "session.json";
+
+    expect(loadConfig().record).toMatch(/^\/.*session\.json$/);
   });
 
   it("resolves relative memory dir to absolute path", () => {
@@ -144,3 +424,57 @@ describe("getActiveProvider", () => {
     expect(() => getActiveProvider(config)).toThrow("exo");
   });
 });
+
+describe("getProviderChain", () => {
+  it("resolves each provider in order", () => {
+    const config = {
+      provider: "exo",
+      providerChain: ["exo", "ollama"],
+      providers: {
+        exo: { baseUrl: "http://exo", model: "a" },
+        ollama: { baseUrl: "http://ollama", model: "b" },
+      },
+      agent: {
+        maxTurns: 20,
+        maxTokens: 4096,
+        retry: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+      },
+      memory: { dir: "/tmp/memory" },
+    };
+
+    expect(getProviderChain(config).map((c) => c.name)).toEqual(["exo", "ollama"]);
+  });
+
+  it("throws for an unknown provider in the chain", () => {
+    const config = {
+      provider: "exo",
+      providerChain: ["exo", "missing"],
+      providers: { exo: { baseUrl: "http://exo", model: "a" } },
+      agent: {
+        maxTurns: 20,
+        maxTokens: 4096,
+        retry: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+      },
+      memory: { dir: "/tmp/memory" },
+    };
+
+    expect(() => getProviderChain(config)).toThrow('Provider "missing" not found');
+  });
+});
+
+describe("resolveRetry", () => {
+  it("overlays provider retry settings on the agent defaults", () => {
+    const agent = {
+      maxTurns: 20,
+      maxTokens: 4096,
+      retry: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 30000 },
+    };
+    const provider = { baseUrl: "http://x", model: "m", retry: { maxAttempts: 6 } };
+
+    expect(resolveRetry(provider, agent)).toEqual({
+      maxAttempts: 6,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+    });
+  });
+});
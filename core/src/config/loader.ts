@@ -2,8 +2,9 @@
  * Config loader — reads config.yaml, validates, and exports a typed object.
  *
  * Resolution order (highest priority wins):
- *   1. Environment variables (EPHILEO_PROVIDER, EPHILEO_BASE_URL, etc.)
- *   2. config.yaml (required — must define provider and at least one provider entry)
+ *   1. Environment variables (EPHILEO_PROVIDER, EPHILEO_BASE_URL, EPHILEO_RECORD, EPHILEO_TRACE, etc.)
+ *   2. config.yaml (required — must define provider and at least one provider entry),
+ *      or the file named by EPHILEO_CONFIG
  */
 
 import { existsSync, readFileSync } from "node:fs";
@@ -13,33 +14,165 @@ import { parse as parseYaml } from "yaml";
 
 // --- Types ---
 
+/**
+ * Wire protocol spoken by a provider.
+ * - "openai": OpenAI-compatible /chat/completions (exo, vLLM, OpenRouter, etc.) — the default
+ * - "ollama-native": Ollama's own /api/chat, which exposes num_ctx, keep_alive and thinking
+ * - "anthropic": Anthropic Messages API (/v1/messages)
+ * - "replay": serves a session recorded with EPHILEO_RECORD back from a fixture file
+ */
+export type ProviderType = "openai" | "ollama-native" | "anthropic" | "replay";
+
+export const PROVIDER_TYPES: readonly ProviderType[] = [
+  "openai",
+  "ollama-native",
+  "anthropic",
+  "replay",
+];
+
+/** How a provider's model emits tool calls. "native" means delta.tool_calls — no parsing. */
+export type ToolCallDialect = "native" | "hermes" | "fenced-json";
+
+export const TOOL_CALL_DIALECTS: readonly ToolCallDialect[] = ["native", "hermes", "fenced-json"];
+
+/** Retry settings for transient LLM failures (429, 5xx, connection resets). */
+export interface RetryConfig {
+  /** Total attempts including the first. 1 disables retrying. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/** What a model costs, in US dollars per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
 export interface ProviderConfig {
   baseUrl: string;
   model: string;
   apiKey?: string;
+  /** Wire protocol. Defaults to "openai". */
+  type?: ProviderType;
+  /**
+   * Tag name the model wraps inline reasoning in, e.g. "thinking" for <thinking>.
+   * Defaults to "think". Separate reasoning fields are picked up regardless.
+   */
+  thinkTag?: string;
+  /** openai only: request usage in the stream (stream_options). Defaults to true. */
+  streamUsage?: boolean;
+  /** ollama-native only: context window size (num_ctx). */
+  numCtx?: number;
+  /** ollama-native only: how long to keep the model loaded, e.g. "10m" or -1. */
+  keepAlive?: string | number;
+  /** ollama-native only: request the separate thinking stream. */
+  think?: boolean;
+  /** anthropic only: enable extended thinking with this token budget. */
+  thinkingBudget?: number;
+  /**
+   * How the model emits tool calls. "native" (default) uses the API's tool_calls;
+   * "hermes" and "fenced-json" parse calls the model writes into its text.
+   */
+  toolCallDialect?: ToolCallDialect;
+  /** Per-provider retry overrides, merged over agent.retry. */
+  retry?: Partial<RetryConfig>;
+  /** Sampling temperature, 0–2. Server default when unset. */
+  temperature?: number;
+  /** Nucleus sampling cutoff, 0–1. Server default when unset. */
+  topP?: number;
+  /** Stop sequences. config.yaml may give a single string. */
+  stop?: string[];
+  /** Sampling seed for reproducible output, where the server honours it (not anthropic). */
+  seed?: number;
+  /**
+   * The model's context window in tokens. ollama-native sends it as num_ctx
+   * unless numCtx is set; other types don't take it on the wire. Also sets
+   * when the conversation is compacted (see agent.compactThreshold).
+   */
+  contextWindow?: number;
+  /** Set false for models without function calling — the agent then sends no tools. Defaults to true. */
+  supportsTools?: boolean;
+  /** Set false for models that can't think — think/thinkingBudget are then not requested. Defaults to true. */
+  supportsThinking?: boolean;
+  /** Limit for a whole request in milliseconds. Defaults to 900000 (15 minutes). */
+  timeoutMs?: number;
+  /**
+   * Longest wait for the next streamed chunk before the generation counts as
+   * stalled, in milliseconds. Defaults to 120000; 0 disables the check. Raise
+   * it for models that take long to load or to start answering.
+   */
+  idleTimeoutMs?: number;
+  /**
+   * Prices by model id, for paid providers. Calls to a priced provider are
+   * costed into memory/costs.jsonl and count against cost.dailyCap.
+   */
+  prices?: Record<string, ModelPrice>;
+  /** replay only: fixture file to serve, relative to the project root. */
+  fixture?: string;
+  /** replay only: fail when a request differs from the recorded one. */
+  strict?: boolean;
 }
 
 export interface AgentConfig {
   maxTurns: number;
   maxTokens: number;
+  retry: RetryConfig;
+  /**
+   * Fraction of the provider's contextWindow at which older turns are
+   * summarized. Providers without a contextWindow are never compacted automatically.
+   */
+  compactThreshold: number;
+  /** Most LLM calls a delegate_task sub-agent may make. */
+  subagentMaxTurns: number;
+}
+
+/** Model used to embed journal entries for semantic recall. */
+export interface EmbeddingsConfig {
+  /** Name of a configured provider (openai or ollama-native) that serves the model. */
+  provider: string;
+  model: string;
 }
 
 export interface MemoryConfig {
   dir: string;
+  /** Journal entries injected into the system prompt per turn. */
+  topK: number;
+  /** Without it, entries are picked by keyword overlap with the user's message. */
+  embeddings?: EmbeddingsConfig;
+}
+
+export interface CostConfig {
+  /** US dollars per day; once spent, priced providers are refused until tomorrow. */
+  dailyCap?: number;
 }
 
 export interface EphileoConfig {
+  /** Primary provider — the first entry of providerChain. */
   provider: string;
+  /** Providers to try in order. config.yaml may give `provider` as a single name or a list. */
+  providerChain: string[];
   providers: Record<string, ProviderConfig>;
   agent: AgentConfig;
   memory: MemoryConfig;
+  /** Record every LLM exchange to this fixture file (EPHILEO_RECORD). */
+  record?: string;
+  /** Write a JSONL trace of each session under memory/traces (or EPHILEO_TRACE=1). */
+  trace: boolean;
+  cost: CostConfig;
 }
 
 // --- Defaults (agent + memory only, provider must come from config.yaml) ---
 
 const DEFAULT_MAX_TURNS = 20;
 const DEFAULT_MAX_TOKENS = 4096;
+/** Compact once the prompt estimate passes this fraction of the context window. */
+export const DEFAULT_COMPACT_THRESHOLD = 0.8;
+/** Most LLM calls a delegate_task sub-agent may make. */
+export const DEFAULT_SUBAGENT_MAX_TURNS = 10;
 const DEFAULT_MEMORY_DIR = "./memory";
+const DEFAULT_MEMORY_TOP_K = 5;
+const DEFAULT_RETRY: RetryConfig = { maxAttempts: 3, baseDelayMs: 1_000, maxDelayMs: 30_000 };
 
 const CONFIG_HINT =
   "See config/config.example.yaml for a complete template.\n" +
@@ -47,6 +180,17 @@ const CONFIG_HINT =
 
 // --- Loader ---
 
+/** config.yaml as parsed, before normalization. */
+type RawConfig = Omit<Partial<EphileoConfig>, "provider" | "providerChain"> & {
+  provider?: string | string[];
+};
+
+/** Normalize `provider: exo` or `provider: [exo, ollama]` into a trimmed, non-empty list. */
+function toProviderChain(raw: string | string[] | undefined): string[] {
+  const names = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  return names.map((n) => String(n).trim()).filter((n) => n.length > 0);
+}
+
 let _cached: EphileoConfig | null = null;
 
 /** Reset the config cache. Only for testing. */
@@ -70,7 +214,10 @@ export function loadConfig(): EphileoConfig {
   if (_cached) return _cached;
 
   const projectRoot = getProjectRoot();
-  const configPath = resolve(projectRoot, "config", "config.yaml");
+  // EPHILEO_CONFIG points at an alternative file — used by end-to-end tests
+  const configPath = process.env.EPHILEO_CONFIG
+    ? resolve(process.env.EPHILEO_CONFIG)
+    : resolve(projectRoot, "config", "config.yaml");
 
   if (!existsSync(configPath)) {
     throw new Error(
@@ -81,9 +228,10 @@ export function loadConfig(): EphileoConfig {
   }
 
   const raw = readFileSync(configPath, "utf-8");
-  const fileConfig: Partial<EphileoConfig> = parseYaml(raw) || {};
+  const fileConfig: RawConfig = parseYaml(raw) || {};
+  const chain = toProviderChain(fileConfig.provider);
 
-  if (!fileConfig.provider) {
+  if (chain.length === 0) {
     throw new Error(
       "Missing 'provider' in config/config.yaml.\n" +
         "Add a provider field at the top of the file:\n\n" +
@@ -99,40 +247,239 @@ export function loadConfig(): EphileoConfig {
     );
   }
 
+  for (const [name, p] of Object.entries(fileConfig.providers)) {
+    if (p?.type !== undefined && !PROVIDER_TYPES.includes(p.type)) {
+      throw new Error(
+        `Unknown type "${p.type}" for provider "${name}" in config/config.yaml.\n` +
+          `Supported types: ${PROVIDER_TYPES.join(", ")}`,
+      );
+    }
+    if (p?.thinkTag !== undefined && !/^[A-Za-z][\w-]*$/.test(String(p.thinkTag))) {
+      throw new Error(
+        `Invalid thinkTag "${p.thinkTag}" for provider "${name}" in config/config.yaml.\n` +
+          "Give the bare tag name, e.g. thinkTag: thinking (for <thinking>...</thinking>).",
+      );
+    }
+    if (p?.type === "replay" && !p.fixture) {
+      throw new Error(
+        `Provider "${name}" has type replay but no fixture in config/config.yaml.\n` +
+          "Point it at a file recorded with EPHILEO_RECORD, e.g. fixture: fixtures/session.json",
+      );
+    }
+    if (p?.toolCallDialect !== undefined && !TOOL_CALL_DIALECTS.includes(p.toolCallDialect)) {
+      throw new Error(
+        `Unknown toolCallDialect "${p.toolCallDialect}" for provider "${name}" in config/config.yaml.\n` +
+          `Supported dialects: ${TOOL_CALL_DIALECTS.join(", ")}`,
+      );
+    }
+  }
+
   const config: EphileoConfig = {
-    provider: fileConfig.provider,
+    provider: chain[0],
+    providerChain: chain,
     providers: fileConfig.providers as Record<string, ProviderConfig>,
     agent: {
       maxTurns: fileConfig.agent?.maxTurns ?? DEFAULT_MAX_TURNS,
       maxTokens: fileConfig.agent?.maxTokens ?? DEFAULT_MAX_TOKENS,
+      retry: { ...DEFAULT_RETRY, ...fileConfig.agent?.retry },
+      compactThreshold: fileConfig.agent?.compactThreshold ?? DEFAULT_COMPACT_THRESHOLD,
+      subagentMaxTurns: fileConfig.agent?.subagentMaxTurns ?? DEFAULT_SUBAGENT_MAX_TURNS,
     },
+    trace: fileConfig.trace ?? false,
+    cost: { dailyCap: fileConfig.cost?.dailyCap },
     memory: {
       dir: fileConfig.memory?.dir ?? DEFAULT_MEMORY_DIR,
+      topK: fileConfig.memory?.topK ?? DEFAULT_MEMORY_TOP_K,
+      embeddings: fileConfig.memory?.embeddings,
     },
   };
 
+  validateRetry(config.agent.retry, "agent.retry");
+  const { compactThreshold } = config.agent;
+  if (!(typeof compactThreshold === "number" && compactThreshold > 0 && compactThreshold <= 1)) {
+    throw new Error(
+      "Invalid agent.compactThreshold in config/config.yaml: must be a number above 0 and at most 1.",
+    );
+  }
+  const { subagentMaxTurns } = config.agent;
+  if (!(Number.isInteger(subagentMaxTurns) && subagentMaxTurns > 0)) {
+    throw new Error(
+      "Invalid agent.subagentMaxTurns in config/config.yaml: must be a whole number above 0.",
+    );
+  }
+  for (const [name, p] of Object.entries(config.providers)) {
+    if (p.retry) validateRetry(p.retry, `providers.${name}.retry`);
+    validateModelSettings(p, `providers.${name}`);
+  }
+  validateMemory(config);
+  const { dailyCap } = config.cost;
+  if (dailyCap !== undefined && !(typeof dailyCap === "number" && dailyCap > 0)) {
+    throw new Error(
+      "Invalid cost.dailyCap in config/config.yaml: must be a number of dollars above 0.",
+    );
+  }
+
   // Environment variable overrides (highest priority)
   if (process.env.EPHILEO_PROVIDER) {
-    config.provider = process.env.EPHILEO_PROVIDER;
+    // Comma-separated for a fallback chain, e.g. EPHILEO_PROVIDER=exo,ollama
+    config.providerChain = toProviderChain(process.env.EPHILEO_PROVIDER.split(","));
+    config.provider = config.providerChain[0];
   }
   if (process.env.EPHILEO_BASE_URL || process.env.EPHILEO_MODEL || process.env.EPHILEO_API_KEY) {
     const active = config.providers[config.provider] ?? { baseUrl: "", model: "" };
     config.providers[config.provider] = {
+      ...active,
       baseUrl: process.env.EPHILEO_BASE_URL ?? active.baseUrl,
       model: process.env.EPHILEO_MODEL ?? active.model,
       apiKey: process.env.EPHILEO_API_KEY ?? active.apiKey,
     };
   }
 
-  // Resolve memory dir relative to project root
+  if (process.env.EPHILEO_TRACE) {
+    config.trace = !["0", "false", "off"].includes(process.env.EPHILEO_TRACE.toLowerCase());
+  }
+  if (process.env.EPHILEO_RECORD) {
+    config.record = resolve(process.env.EPHILEO_RECORD);
+  }
+
+  // Resolve memory dir and replay fixtures relative to project root
   if (!isAbsolute(config.memory.dir)) {
     config.memory.dir = resolve(projectRoot, config.memory.dir);
   }
+  for (const p of Object.values(config.providers)) {
+    if (p.fixture && !isAbsolute(p.fixture)) p.fixture = resolve(projectRoot, p.fixture);
+  }
 
   _cached = config;
   return config;
 }
 
+/** Reject retry settings that would loop forever or never wait. */
+function validateRetry(retry: Partial<RetryConfig>, path: string): void {
+  if (
+    retry.maxAttempts !== undefined &&
+    (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1)
+  ) {
+    throw new Error(`Invalid ${path}.maxAttempts in config/config.yaml: must be an integer >= 1.`);
+  }
+  for (const key of ["baseDelayMs", "maxDelayMs"] as const) {
+    const value = retry[key];
+    if (value !== undefined && (typeof value !== "number" || value < 0)) {
+      throw new Error(`Invalid ${path}.${key} in config/config.yaml: must be a number >= 0.`);
+    }
+  }
+}
+
+/** Check memory.topK and that memory.embeddings names a provider that can embed. */
+function validateMemory(config: EphileoConfig): void {
+  const { topK, embeddings } = config.memory;
+  if (!(Number.isInteger(topK) && topK > 0)) {
+    throw new Error("Invalid memory.topK in config/config.yaml: must be a positive integer.");
+  }
+  if (!embeddings) return;
+  const provider = config.providers[embeddings.provider];
+  if (!provider) {
+    throw new Error(
+      `memory.embeddings.provider "${embeddings.provider}" is not a configured provider.\n` +
+        `Available: ${Object.keys(config.providers).join(", ")}`,
+    );
+  }
+  const type = provider.type ?? "openai";
+  if (type !== "openai" && type !== "ollama-native") {
+    throw new Error(
+      `memory.embeddings.provider "${embeddings.provider}" has type ${type}, which has no embeddings endpoint.\n` +
+        "Use an openai or ollama-native provider.",
+    );
+  }
+  if (typeof embeddings.model !== "string" || !embeddings.model) {
+    throw new Error(
+      "Missing memory.embeddings.model in config/config.yaml, e.g. model: nomic-embed-text",
+    );
+  }
+}
+
+/** Check sampling parameters and capability flags; normalizes a single stop string to a list. */
+function validateModelSettings(provider: ProviderConfig, path: string): void {
+  const fail = (key: string, rule: string) => {
+    throw new Error(`Invalid ${path}.${key} in config/config.yaml: ${rule}.`);
+  };
+  const { temperature, topP, seed, contextWindow, timeoutMs, idleTimeoutMs } = provider;
+  if (
+    temperature !== undefined &&
+    !(typeof temperature === "number" && temperature >= 0 && temperature <= 2)
+  ) {
+    fail("temperature", "must be a number from 0 to 2");
+  }
+  if (topP !== undefined && !(typeof topP === "number" && topP >= 0 && topP <= 1)) {
+    fail("topP", "must be a number from 0 to 1");
+  }
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    fail("seed", "must be an integer");
+  }
+  if (contextWindow !== undefined && !(Number.isInteger(contextWindow) && contextWindow > 0)) {
+    fail("contextWindow", "must be a positive integer");
+  }
+  if (timeoutMs !== undefined && !(Number.isInteger(timeoutMs) && timeoutMs > 0)) {
+    fail("timeoutMs", "must be a positive integer (milliseconds)");
+  }
+  if (idleTimeoutMs !== undefined && !(Number.isInteger(idleTimeoutMs) && idleTimeoutMs >= 0)) {
+    fail("idleTimeoutMs", "must be a non-negative integer (milliseconds, 0 disables it)");
+  }
+  const stop: unknown = provider.stop;
+  if (typeof stop === "string") {
+    provider.stop = [stop];
+  } else if (
+    stop !== undefined &&
+    !(Array.isArray(stop) && stop.every((s) => typeof s === "string"))
+  ) {
+    fail("stop", "must be a string or a list of strings");
+  }
+  if (provider.prices !== undefined) {
+    if (typeof provider.prices !== "object" || provider.prices === null) {
+      fail("prices", "must map model ids to { input, output } prices");
+    }
+    for (const [model, price] of Object.entries(provider.prices)) {
+      for (const side of ["input", "output"] as const) {
+        const value: unknown = price?.[side];
+        if (!(typeof value === "number" && value >= 0)) {
+          fail(`prices.${model}.${side}`, "must be a number >= 0 (dollars per million tokens)");
+        }
+      }
+    }
+  }
+  for (const key of ["supportsTools", "supportsThinking"] as const) {
+    if (provider[key] !== undefined && typeof provider[key] !== "boolean") {
+      fail(key, "must be true or false");
+    }
+  }
+}
+
+/**
+ * Retry policy for a provider: its own overrides merged over agent.retry.
+ */
+export function resolveRetry(provider: ProviderConfig, agent: AgentConfig): RetryConfig {
+  return { ...agent.retry, ...provider.retry };
+}
+
+/**
+ * Resolve every provider in the fallback chain, in order.
+ * Throws if any name in the chain has no entry under `providers`.
+ */
+export function getProviderChain(
+  config?: EphileoConfig,
+): Array<{ name: string; provider: ProviderConfig }> {
+  const c = config ?? loadConfig();
+  return c.providerChain.map((name) => {
+    const provider = c.providers[name];
+    if (!provider) {
+      throw new Error(
+        `Provider "${name}" not found in config. Available: ${Object.keys(c.providers).join(", ")}`,
+      );
+    }
+    return { name, provider };
+  });
+}
+
 /**
  * Get the active provider config.
  */
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { UserAbortError } from "./errors.js";
+import { LLMRequestError, UserAbortError } from "./errors.js";
 
 describe("UserAbortError", () => {
   it("is an instance of Error", () => {
@@ -41,3 +41,26 @@ describe("UserAbortError", () => {
     expect(err.partialContent).toBe("partial");
   });
 });
+
+describe("LLMRequestError", () => {
+  it("carries kind, status and retry hints", () => {
+    const err = new LLMRequestError("busy", {
+      kind: "http",
+      status: 429,
+      retryable: true,
+      retryAfterMs: 2000,
+    });
+    expect(err).toBeInstanceOf(Error);
+    expect(err.name).toBe("LLMRequestError");
+    expect(err.kind).toBe("http");
+    expect(err.status).toBe(429);
+    expect(err.retryable).toBe(true);
+    expect(err.retryAfterMs).toBe(2000);
+  });
+
+  it("is not retryable by default", () => {
+    const err = new LLMRequestError("refused", { kind: "connection" });
+    expect(err.retryable).toBe(false);
+    expect(err.status).toBeUndefined();
+  });
+});
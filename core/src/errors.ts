@@ -18,3 +18,103 @@ export class UserAbortError extends Error {
     this.partialContent = partialContent;
   }
 }
+
+/**
+ * What went wrong talking to an LLM provider.
+ * - "connection": the server could not be reached (refused, reset, DNS)
+ * - "not_found": 404 — usually a wrong model name or endpoint
+ * - "http": any other non-OK status
+ * - "stream": the response stream broke off mid-way
+ */
+export type LLMRequestErrorKind = "connection" | "not_found" | "http" | "stream";
+
+/**
+ * Thrown by the LLM layer for transport and HTTP failures.
+ * `retryable` marks failures worth another attempt (429, 5xx, resets, dropped
+ * streams); `retryAfterMs` carries the server's Retry-After hint when given.
+ */
+export class LLMRequestError extends Error {
+  readonly kind: LLMRequestErrorKind;
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    opts: {
+      kind: LLMRequestErrorKind;
+      status?: number;
+      retryable?: boolean;
+      retryAfterMs?: number;
+    },
+  ) {
+    super(message);
+    this.name = "LLMRequestError";
+    this.kind = opts.kind;
+    this.status = opts.status;
+    this.retryable = opts.retryable ?? false;
+    this.retryAfterMs = opts.retryAfterMs;
+  }
+}
+
+/**
+ * Which timeout cut a request off.
+ * - "idle": the stream went quiet for too long between chunks (stalled server)
+ * - "total": the whole request ran past its time limit
+ */
+export type StreamTimeoutKind = "idle" | "total";
+
+/**
+ * Thrown when an LLM request times out, as opposed to failing outright.
+ * Not retried automatically — a stalled model usually stays stalled — so the
+ * CLI offers a retry instead. Carries any partial response, like UserAbortError.
+ */
+export class StreamTimeoutError extends Error {
+  readonly kind: StreamTimeoutKind;
+  readonly timeoutMs: number;
+  readonly baseUrl: string;
+  readonly partialContent: string;
+
+  constructor(kind: StreamTimeoutKind, timeoutMs: number, baseUrl: string, partialContent = "") {
+    const seconds = Math.round(timeoutMs / 1000);
+    super(
+      kind === "idle"
+        ? `LLM at ${baseUrl} sent nothing for ${seconds}s — the generation looks stalled.\n` +
+            "If the model is just slow to start, raise idleTimeoutMs for this provider in config/config.yaml."
+        : `LLM request to ${baseUrl} did not finish within ${seconds}s.\n` +
+            "For long generations, raise timeoutMs for this provider in config/config.yaml.",
+    );
+    this.name = "StreamTimeoutError";
+    this.kind = kind;
+    this.timeoutMs = timeoutMs;
+    this.baseUrl = baseUrl;
+    this.partialContent = partialContent;
+  }
+
+  /** The same timeout, carrying what was streamed before it hit. */
+  withPartialContent(partialContent: string): StreamTimeoutError {
+    return new StreamTimeoutError(this.kind, this.timeoutMs, this.baseUrl, partialContent);
+  }
+}
+
+/**
+ * Thrown instead of calling a paid provider once today's spending has reached
+ * the configured daily cap. A fallback chain moves on to its next provider.
+ */
+export class BudgetExceededError extends Error {
+  readonly provider: string;
+  readonly spent: number;
+  readonly cap: number;
+
+  constructor(provider: string, spent: number, cap: number, message?: string) {
+    super(
+      message ??
+        `Daily spending cap reached: $${spent.toFixed(2)} of $${cap.toFixed(2)} spent today, so ${provider} was not called.\n` +
+          "Use a local provider (/provider), or raise cost.dailyCap in config/config.yaml.",
+    );
+    this.name = "BudgetExceededError";
+    this.provider = provider;
+    this.spent = spent;
+    this.cap = cap;
+  }
+}
@@ -0,0 +1,283 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { AnthropicClient, toAnthropicMessages } from "./anthropic.js";
+import type { ChatMessage } from "./client.js";
+
+/** Start a local fake Messages API that replies with the given SSE events. */
+async function startFakeServer(
+  events: unknown[],
+  onRequest?: (body: Record<string, unknown>, req: IncomingMessage) => void,
+): Promise<{ server: Server; baseUrl: string }> {
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (c) => {
+      raw += c;
+    });
+    req.on("end", () => {
+      onRequest?.(JSON.parse(raw), req);
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      for (const ev of events) {
+        const type = (ev as { type: string }).type;
+        res.write(`event: ${type}\ndata: ${JSON.stringify(ev)}\n\n`);
+      }
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}/v1` };
+}
+
+let activeServer: Server | null = null;
+
+afterEach(async () => {
+  if (activeServer) {
+    const s = activeServer;
+    activeServer = null;
+    await new Promise<void>((resolve) => s.close(() => resolve()));
+  }
+});
+
+describe("toAnthropicMessages", () => {
+  it("lifts system messages and merges consecutive tool results", () => {
+    const messages: ChatMessage[] = [
+      { role: "system", content: "be nice" },
+      { role: "user", content: "hi" },
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [
+          { id: "t1", type: "function", function: { name: "a", arguments: "{}" } },
+          { id: "t2", type: "function", function: { name: "b", arguments: '{"x":1}' } },
+        ],
+      },
+      { role: "tool", content: "ra", tool_call_id: "t1" },
+      { role: "tool", content: "rb", tool_call_id: "t2" },
+    ];
+
+    const { system, messages: out } = toAnthropicMessages(messages);
+    expect(system).toBe("be nice");
+    expect(out).toHaveLength(3);
+    expect(out[1].content).toEqual([
+      { type: "tool_use", id: "t1", name: "a", input: {} },
+      { type: "tool_use", id: "t2", name: "b", input: { x: 1 } },
+    ]);
+    expect(out[2]).toEqual({
+      role: "user",
+      content: [
+        { type: "tool_result", tool_use_id: "t1", content: "ra" },
+        { type: "tool_result", tool_use_id: "t2", content: "rb" },
+      ],
+    });
+  });
+});
+
+describe("toAnthropicMessages images", () => {
+  it("converts data URLs to base64 image blocks and other URLs to url blocks", () => {
+    const { messages: out } = toAnthropicMessages([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "what is this?" },
+          { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+          { type: "image_url", image_url: { url: "https://example.com/a.jpg" } },
+        ],
+      },
+    ]);
+    expect(out[0].content).toEqual([
+      { type: "text", text: "what is this?" },
+      { type: "image", source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" } },
+      { type: "image", source: { type: "url", url: "https://example.com/a.jpg" } },
+    ]);
+  });
+});
+
+describe("AnthropicClient.chat", () => {
+  it("streams text and thinking from a local SSE server", async () => {
+    let received: Record<string, unknown> = {};
+    let apiKey: string | string[] | undefined;
+    const fake = await startFakeServer(
+      [
+        { type: "message_start", message: { id: "m1" } },
+        { type: "content_block_start", index: 0, content_block: { type: "thinking" } },
+        {
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "thinking_delta", thinking: "hmm" },
+        },
+        {
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "signature_delta", signature: "s" },
+        },
+        { type: "content_block_stop", index: 0 },
+        { type: "content_block_start", index: 1, content_block: { type: "text", text: "" } },
+        { type: "content_block_delta", index: 1, delta: { type: "text_delta", text: "Hel" } },
+        { type: "content_block_delta", index: 1, delta: { type: "text_delta", text: "lo" } },
+        { type: "content_block_stop", index: 1 },
+        { type: "message_delta", delta: { stop_reason: "end_turn" } },
+        { type: "message_stop" },
+      ],
+      (body, req) => {
+        received = body;
+        apiKey = req.headers["x-api-key"];
+      },
+    );
+    activeServer = fake.server;
+    const client = new AnthropicClient({
+      baseUrl: fake.baseUrl,
+      model: "claude-test",
+      apiKey: "sk-test",
+      maxTokens: 1000,
+      thinkingBudget: 500,
+    });
+    const tokens: Array<{ text: string; isThinking: boolean }> = [];
+
+    const resp = await client.chat(
+      [
+        { role: "system", content: "sys" },
+        { role: "user", content: "hi" },
+      ],
+      undefined,
+      (text, isThinking) => tokens.push({ text, isThinking }),
+    );
+
+    expect(resp.content).toBe("Hello");
+    expect(resp.thinking).toBe("hmm");
+    expect(resp.finishReason).toBe("stop");
+    expect(tokens.filter((t) => t.isThinking).map((t) => t.text)).toEqual(["hmm", "\n"]);
+    expect(received.system).toBe("sys");
+    expect(received.thinking).toEqual({ type: "enabled", budget_tokens: 500 });
+    expect(apiKey).toBe("sk-test");
+  });
+
+  it("assembles tool_use input deltas and replays thinking blocks", async () => {
+    const requests: Array<Record<string, unknown>> = [];
+    const fake = await startFakeServer(
+      [
+        { type: "content_block_start", index: 0, content_block: { type: "thinking" } },
+        { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "t" } },
+        {
+          type: "content_block_delta",
+          index: 0,
+          delta: { type: "signature_delta", signature: "sig" },
+        },
+        { type: "content_block_stop", index: 0 },
+        {
+          type: "content_block_start",
+          index: 1,
+          content_block: { type: "tool_use", id: "toolu_1", name: "read_file" },
+        },
+        {
+          type: "content_block_delta",
+          index: 1,
+          delta: { type: "input_json_delta", partial_json: '{"path":' },
+        },
+        {
+          type: "content_block_delta",
+          index: 1,
+          delta: { type: "input_json_delta", partial_json: '"a.txt"}' },
+        },
+        { type: "content_block_stop", index: 1 },
+        { type: "message_delta", delta: { stop_reason: "tool_use" } },
+      ],
+      (body) => requests.push(body),
+    );
+    activeServer = fake.server;
+    const client = new AnthropicClient({ baseUrl: fake.baseUrl, model: "m", maxTokens: 100 });
+    const history: ChatMessage[] = [{ role: "user", content: "read" }];
+
+    const resp = await client.chat(history);
+
+    expect(resp.toolCalls).toEqual([
+      { id: "toolu_1", name: "read_file", arguments: { path: "a.txt" } },
+    ]);
+    expect(resp.finishReason).toBe("tool_calls");
+
+    // The follow-up request must carry the signed thinking block back
+    history.push(
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [
+          {
+            id: "toolu_1",
+            type: "function",
+            function: { name: "read_file", arguments: '{"path":"a.txt"}' },
+          },
+        ],
+      },
+      { role: "tool", content: "contents", tool_call_id: "toolu_1" },
+    );
+    await client.chat(history);
+
+    const sent = requests[1].messages as Array<{ role: string; content: unknown[] }>;
+    expect(sent[1].content[0]).toEqual({ type: "thinking", thinking: "t", signature: "sig" });
+    expect(sent[1].content[1]).toEqual({
+      type: "tool_use",
+      id: "toolu_1",
+      name: "read_file",
+      input: { path: "a.txt" },
+    });
+  });
+
+  it("forgets thinking blocks once they have been sent back", async () => {
+    const requests: Array<Record<string, unknown>> = [];
+    const events: unknown[] = [
+      { type: "content_block_start", index: 0, content_block: { type: "thinking" } },
+      { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "t" } },
+      { type: "content_block_stop", index: 0 },
+      {
+        type: "content_block_start",
+        index: 1,
+        content_block: { type: "tool_use", id: "toolu_1", name: "read_file" },
+      },
+      { type: "content_block_stop", index: 1 },
+      { type: "message_delta", delta: { stop_reason: "tool_use" } },
+    ];
+    const fake = await startFakeServer(events, (body) => requests.push(body));
+    activeServer = fake.server;
+    const client = new AnthropicClient({ baseUrl: fake.baseUrl, model: "m", maxTokens: 100 });
+    const history: ChatMessage[] = [{ role: "user", content: "read" }];
+
+    await client.chat(history);
+    history.push(
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [
+          { id: "toolu_1", type: "function", function: { name: "read_file", arguments: "{}" } },
+        ],
+      },
+      { role: "tool", content: "contents", tool_call_id: "toolu_1" },
+    );
+    // From here on the model just answers
+    events.splice(
+      0,
+      events.length,
+      { type: "content_block_start", index: 0, content_block: { type: "text" } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "ok" } },
+      { type: "message_delta", delta: { stop_reason: "end_turn" } },
+    );
+    await client.chat(history);
+    await client.chat(history);
+
+    const assistantBlocks = (i: number) =>
+      (requests[i].messages as Array<{ content: Array<{ type: string }> }>)[1].content.map(
+        (b) => b.type,
+      );
+    expect(assistantBlocks(1)).toEqual(["thinking", "tool_use"]);
+    expect(assistantBlocks(2)).toEqual(["tool_use"]);
+  });
+
+  it("surfaces error events", async () => {
+    const fake = await startFakeServer([
+      { type: "error", error: { type: "overloaded_error", message: "Overloaded" } },
+    ]);
+    activeServer = fake.server;
+    const client = new AnthropicClient({ baseUrl: fake.baseUrl, model: "m", maxTokens: 100 });
+
+    await expect(client.chat([{ role: "user", content: "hi" }])).rejects.toThrow("Overloaded");
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Anthropic client — talks to the Messages API (/v1/messages) with streaming.
+ *
+ * Converts the OpenAI-style ChatMessage/ToolDefinition types used everywhere
+ * else into Anthropic content blocks (text, tool_use, tool_result, thinking)
+ * and back, so the agent loop sees the same LLMResponse as with LLMClient.
+ */
+
+import { LLMRequestError } from "../errors.js";
+import {
+  type ChatClient,
+  type ChatMessage,
+  contentText,
+  type LLMClientOptions,
+  type LLMResponse,
+  type MessageContent,
+  type OnTokenCallback,
+  parseDataUrl,
+  parseToolArguments,
+  type ToolCall,
+  type ToolDefinition,
+} from "./client.js";
+import { openStream, readLines } from "./http.js";
+import { type ChatOptions, schemaInstruction } from "./schema.js";
+import { resolveUsage } from "./usage.js";
+
+export interface AnthropicClientOptions extends LLMClientOptions {
+  /** Enable extended thinking with this token budget. Must be below maxTokens. */
+  thinkingBudget?: number;
+}
+
+export const ANTHROPIC_VERSION = "2023-06-01";
+
+/** Content blocks we send and receive. */
+type AnthropicBlock =
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string };
+    }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_result"; tool_use_id: string; content: string }
+  | { type: "thinking"; thinking: string; signature: string }
+  | { type: "redacted_thinking"; data: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicBlock[];
+}
+
+/** Shape of a single SSE event payload from a streaming Messages response. */
+interface AnthropicEvent {
+  type: string;
+  index?: number;
+  content_block?: {
+    type: string;
+    id?: string;
+    name?: string;
+    data?: string;
+  };
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+    thinking?: string;
+    signature?: string;
+    stop_reason?: string | null;
+  };
+  /** message_start carries input tokens; message_delta carries cumulative output tokens. */
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+  usage?: { output_tokens?: number };
+  error?: { type: string; message: string };
+}
+
+/** In-stream error types that are transient (the API's equivalents of 429/5xx). */
+const RETRYABLE_ERROR_TYPES = new Set(["overloaded_error", "api_error", "rate_limit_error"]);
+
+/** Map Anthropic stop reasons onto the OpenAI finish_reason vocabulary. */
+const STOP_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  tool_use: "tool_calls",
+  max_tokens: "length",
+};
+
+/** Convert OpenAI-style tool schemas to Anthropic's { name, description, input_schema }. */
+export function toAnthropicTools(tools: ToolDefinition[]): Array<Record<string, unknown>> {
+  return tools.map((t) => ({
+    name: t.function.name,
+    description: t.function.description,
+    input_schema: t.function.parameters,
+  }));
+}
+
+/** Convert message content into text and image blocks. */
+function toContentBlocks(content: MessageContent): AnthropicBlock[] {
+  if (typeof content === "string") return [{ type: "text", text: content }];
+  return content.map((part): AnthropicBlock => {
+    if (part.type === "text") return { type: "text", text: part.text };
+    const data = parseDataUrl(part.image_url.url);
+    return data
+      ? { type: "image", source: { type: "base64", media_type: data.mediaType, data: data.data } }
+      : { type: "image", source: { type: "url", url: part.image_url.url } };
+  });
+}
+
+/**
+ * Convert OpenAI-style messages into a system string plus Anthropic messages.
+ *
+ * - system messages are lifted into the top-level system prompt
+ * - assistant tool_calls become tool_use blocks (preceded by any thinking blocks
+ *   recorded for them, which the API requires when extended thinking is on)
+ * - consecutive tool results are merged into one user message of tool_result blocks
+ */
+export function toAnthropicMessages(
+  messages: ChatMessage[],
+  thinkingByToolCall: ReadonlyMap<string, AnthropicBlock[]> = new Map(),
+): { system: string; messages: AnthropicMessage[] } {
+  const systemParts: string[] = [];
+  const out: AnthropicMessage[] = [];
+
+  const pushBlocks = (role: "user" | "assistant", blocks: AnthropicBlock[]) => {
+    const last = out[out.length - 1];
+    if (last && last.role === role) {
+      const existing: AnthropicBlock[] =
+        typeof last.content === "string" ? [{ type: "text", text: last.content }] : last.content;
+      last.content = [...existing, ...blocks];
+    } else {
+      out.push({ role, content: blocks });
+    }
+  };
+
+  for (const m of messages) {
+    switch (m.role) {
+      case "system":
+        systemParts.push(contentText(m.content));
+        break;
+      case "user":
+        pushBlocks("user", toContentBlocks(m.content));
+        break;
+      case "tool":
+        pushBlocks("user", [
+          {
+            type: "tool_result",
+            tool_use_id: m.tool_call_id ?? "",
+            content: contentText(m.content),
+          },
+        ]);
+        break;
+      case "assistant": {
+        const blocks: AnthropicBlock[] = [];
+        const firstCallId = m.tool_calls?.[0]?.id;
+        if (firstCallId) blocks.push(...(thinkingByToolCall.get(firstCallId) ?? []));
+        const text = contentText(m.content);
+        if (text) blocks.push({ type: "text", text });
+        for (const tc of m.tool_calls ?? []) {
+          let input: Record<string, unknown> = {};
+          try {
+            input = JSON.parse(tc.function.arguments);
+          } catch {
+            // malformed args were already reported to the model — send empty
+          }
+          blocks.push({ type: "tool_use", id: tc.id, name: tc.function.name, input });
+        }
+        if (blocks.length > 0) pushBlocks("assistant", blocks);
+        break;
+      }
+    }
+  }
+
+  return { system: systemParts.join("\n\n"), messages: out };
+}
+
+export class AnthropicClient implements ChatClient {
+  readonly opts: AnthropicClientOptions;
+  /**
+   * Signed thinking blocks keyed by the first tool_use id of the same turn.
+   * With extended thinking on, the API rejects tool results unless the
+   * preceding assistant turn is sent back with its thinking blocks intact —
+   * ChatMessage has nowhere to hold them, so the client remembers them.
+   * Only that next request needs them, so an entry is dropped once a request
+   * that sent it back has gone through.
+   */
+  private thinkingByToolCall = new Map<string, AnthropicBlock[]>();
+
+  constructor(opts: AnthropicClientOptions) {
+    this.opts = opts;
+  }
+
+  /**
+   * Streaming chat via the Messages API.
+   *
+   * text_delta → content tokens, thinking_delta → thinking tokens,
+   * input_json_delta → accumulated tool call arguments.
+   */
+  async chat(
+    messages: ChatMessage[],
+    tools?: ToolDefinition[],
+    onToken?: OnTokenCallback,
+    signal?: AbortSignal,
+    options?: ChatOptions,
+  ): Promise<LLMResponse> {
+    const converted = toAnthropicMessages(messages, this.thinkingByToolCall);
+    const replayed = messages.flatMap((m) => {
+      const id = m.tool_calls?.[0]?.id;
+      return id && this.thinkingByToolCall.has(id) ? [id] : [];
+    });
+    const payload: Record<string, unknown> = {
+      model: this.opts.model,
+      messages: converted.messages,
+      max_tokens: this.opts.maxTokens,
+      stream: true,
+    };
+    // No native schema option — ask for it in the system prompt; the caller validates
+    const system = options?.responseSchema
+      ? [converted.system, schemaInstruction(options.responseSchema)].filter(Boolean).join("\n\n")
+      : converted.system;
+    if (system) payload.system = system;
+    if (tools && tools.length > 0) payload.tools = toAnthropicTools(tools);
+    // The Messages API has no seed parameter
+    const sampling = this.opts.sampling ?? {};
+    if (sampling.temperature !== undefined) payload.temperature = sampling.temperature;
+    if (sampling.topP !== undefined) payload.top_p = sampling.topP;
+    if (sampling.stop?.length) payload.stop_sequences = sampling.stop;
+    if (this.opts.thinkingBudget) {
+      payload.thinking = { type: "enabled", budget_tokens: this.opts.thinkingBudget };
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "anthropic-version": ANTHROPIC_VERSION,
+    };
+    if (this.opts.apiKey) {
+      headers["x-api-key"] = this.opts.apiKey;
+    }
+
+    const body = await openStream({
+      url: `${this.opts.baseUrl}/messages`,
+      headers,
+      payload,
+      signal,
+      baseUrl: this.opts.baseUrl,
+      model: this.opts.model,
+      modelsUrl: `${this.opts.baseUrl}/models`,
+      fetch: this.opts.fetch,
+      timeouts: this.opts.timeouts,
+    });
+
+    let fullContent = "";
+    let fullThinking = "";
+    let finishReason = "stop";
+    const reportedUsage: { promptTokens?: number; completionTokens?: number } = {};
+    // Blocks by stream index — tool_use input and thinking signatures arrive as deltas
+    const blocks = new Map<number, { block: AnthropicBlock; json: string }>();
+
+    for await (const line of readLines(body, signal, () => fullContent)) {
+      if (!line.startsWith("data: ")) continue;
+
+      let event: AnthropicEvent;
+      try {
+        event = JSON.parse(line.slice(6));
+      } catch {
+        continue;
+      }
+
+      switch (event.type) {
+        case "message_start":
+          reportedUsage.promptTokens = event.message?.usage?.input_tokens;
+          break;
+        case "content_block_start": {
+          const cb = event.content_block;
+          const idx = event.index ?? 0;
+          if (cb?.type === "tool_use") {
+            blocks.set(idx, {
+              block: { type: "tool_use", id: cb.id ?? "", name: cb.name ?? "", input: {} },
+              json: "",
+            });
+          } else if (cb?.type === "thinking") {
+            blocks.set(idx, { block: { type: "thinking", thinking: "", signature: "" }, json: "" });
+            onToken?.("[thinking] ", false);
+          } else if (cb?.type === "redacted_thinking") {
+            blocks.set(idx, {
+              block: { type: "redacted_thinking", data: cb.data ?? "" },
+              json: "",
+            });
+          }
+          break;
+        }
+        case "content_block_delta": {
+          const delta = event.delta;
+          const entry = blocks.get(event.index ?? 0);
+          if (delta?.type === "text_delta" && delta.text) {
+            fullContent += delta.text;
+            onToken?.(delta.text, false);
+          } else if (delta?.type === "thinking_delta" && delta.thinking) {
+            fullThinking += delta.thinking;
+            if (entry?.block.type === "thinking") entry.block.thinking += delta.thinking;
+            onToken?.(delta.thinking, true);
+          } else if (delta?.type === "signature_delta" && delta.signature) {
+            if (entry?.block.type === "thinking") entry.block.signature += delta.signature;
+          } else if (delta?.type === "input_json_delta" && delta.partial_json) {
+            if (entry) entry.json += delta.partial_json;
+          }
+          break;
+        }
+        case "content_block_stop": {
+          const entry = blocks.get(event.index ?? 0);
+          if (entry?.block.type === "thinking") onToken?.("\n", true);
+          break;
+        }
+        case "message_delta":
+          if (event.delta?.stop_reason) {
+            finishReason = STOP_REASONS[event.delta.stop_reason] ?? event.delta.stop_reason;
+          }
+          if (event.usage?.output_tokens !== undefined) {
+            reportedUsage.completionTokens = event.usage.output_tokens;
+          }
+          break;
+        case "error": {
+          const errorType = event.error?.type ?? "error";
+          throw new LLMRequestError(
+            `LLM request failed: ${errorType}: ${event.error?.message ?? ""}`,
+            { kind: "http", retryable: RETRYABLE_ERROR_TYPES.has(errorType) },
+          );
+        }
+      }
+    }
+
+    const toolCalls: ToolCall[] = [];
+    const thinkingBlocks: AnthropicBlock[] = [];
+    for (const [, { block, json }] of [...blocks.entries()].sort((a, b) => a[0] - b[0])) {
+      if (block.type === "tool_use") {
+        toolCalls.push({ id: block.id, name: block.name, ...parseToolArguments(json) });
+      } else if (block.type === "thinking" || block.type === "redacted_thinking") {
+        thinkingBlocks.push(block);
+      }
+    }
+    for (const id of replayed) this.thinkingByToolCall.delete(id);
+    if (toolCalls.length > 0 && thinkingBlocks.length > 0) {
+      this.thinkingByToolCall.set(toolCalls[0].id, thinkingBlocks);
+    }
+
+    return {
+      content: fullContent.trim() || null,
+      thinking: fullThinking.trim() || null,
+      toolCalls,
+      finishReason,
+      usage: resolveUsage(
+        reportedUsage,
+        messages,
+        tools,
+        fullThinking + fullContent + JSON.stringify(toolCalls),
+      ),
+    };
+  }
+}
@@ -1,11 +1,40 @@
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { StreamTimeoutError, UserAbortError } from "../errors.js";
 import type { OnTokenCallback } from "./client.js";
-import { processThinkBuffer } from "./client.js";
+import {
+  contentImages,
+  contentText,
+  extractThinking,
+  LLMClient,
+  parseDataUrl,
+  parseToolArguments,
+  processThinkBuffer,
+} from "./client.js";
+
+/** Build a streaming Response that emits each object as one SSE data line. */
+function sseResponse(chunks: unknown[]): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+      }
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  });
+  return new Response(stream, { status: 200 });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
 
 /** Helper: run processThinkBuffer and collect all emitted tokens. */
 function collectTokens(
   buffer: string,
   insideThink = false,
+  tag?: string,
 ): {
   tokens: Array<{ text: string; isThinking: boolean }>;
   insideThink: boolean;
@@ -19,10 +48,16 @@ function collectTokens(
     tokens.push({ text, isThinking });
   };
 
-  processThinkBuffer(buffer, insideThink, onToken, (newInside, remaining) => {
-    finalInside = newInside;
-    finalRemaining = remaining;
-  });
+  processThinkBuffer(
+    buffer,
+    insideThink,
+    onToken,
+    (newInside, remaining) => {
+      finalInside = newInside;
+      finalRemaining = remaining;
+    },
+    tag,
+  );
 
   return { tokens, insideThink: finalInside, remaining: finalRemaining };
 }
@@ -97,3 +132,386 @@ describe("processThinkBuffer", () => {
     expect(result.insideThink).toBe(true);
   });
 });
+
+describe("processThinkBuffer with a custom tag", () => {
+  it("detects <thinking> blocks and ignores <think>", () => {
+    const result = collectTokens("a<thinking>b</thinking>c<think>d", false, "thinking");
+    const thinking = result.tokens.filter((t) => t.isThinking && t.text !== "\n");
+    expect(thinking.map((t) => t.text)).toEqual(["b"]);
+    expect(result.insideThink).toBe(false);
+  });
+
+  it("buffers a partial custom tag", () => {
+    const result = collectTokens("text<reason", false, "reasoning");
+    expect(result.remaining).toBe("<reason");
+  });
+});
+
+describe("extractThinking", () => {
+  it("splits <think> blocks by default", () => {
+    expect(extractThinking("<think>hmm</think>answer")).toEqual({
+      content: "answer",
+      thinking: "hmm",
+    });
+  });
+
+  it("uses the given tag name", () => {
+    expect(extractThinking("<reasoning>why</reasoning> ok", "reasoning")).toEqual({
+      content: "ok",
+      thinking: "why",
+    });
+  });
+});
+
+describe("message content helpers", () => {
+  const parts = [
+    { type: "text" as const, text: "look" },
+    { type: "image_url" as const, image_url: { url: "data:image/jpeg;base64,/9j/4AAQ" } },
+    { type: "text" as const, text: "here" },
+  ];
+
+  it("joins text parts and passes plain strings through", () => {
+    expect(contentText("plain")).toBe("plain");
+    expect(contentText(parts)).toBe("look\nhere");
+  });
+
+  it("collects image parts", () => {
+    expect(contentImages("plain")).toEqual([]);
+    expect(contentImages(parts)).toEqual([parts[1]]);
+  });
+
+  it("parses base64 data URLs and rejects anything else", () => {
+    expect(parseDataUrl("data:image/jpeg;base64,/9j/4AAQ")).toEqual({
+      mediaType: "image/jpeg",
+      data: "/9j/4AAQ",
+    });
+    expect(parseDataUrl("https://example.com/a.png")).toBeNull();
+  });
+});
+
+describe("LLMClient.chat reasoning fields", () => {
+  it.each(["reasoning_content", "reasoning"])("routes delta.%s as thinking", async (field) => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        sseResponse([
+          { choices: [{ index: 0, delta: { [field]: "step one" }, finish_reason: null }] },
+          { choices: [{ index: 0, delta: { [field]: ", two" }, finish_reason: null }] },
+          { choices: [{ index: 0, delta: { content: "Answer" }, finish_reason: "stop" }] },
+        ]),
+      ),
+    );
+    const client = new LLMClient({ baseUrl: "http://test/v1", model: "m", maxTokens: 10 });
+    const tokens: Array<{ text: string; isThinking: boolean }> = [];
+
+    const resp = await client.chat(
+      [{ role: "user", content: "q" }],
+      undefined,
+      (text, isThinking) => tokens.push({ text, isThinking }),
+    );
+
+    expect(resp.thinking).toBe("step one, two");
+    expect(resp.content).toBe("Answer");
+    expect(tokens).toEqual([
+      { text: "[thinking] ", isThinking: false },
+      { text: "step one", isThinking: true },
+      { text: ", two", isThinking: true },
+      { text: "\n", isThinking: true },
+      { text: "Answer", isThinking: false },
+    ]);
+  });
+
+  it("strips a configured inline think tag from content", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        sseResponse([
+          {
+            choices: [
+              { index: 0, delta: { content: "<thinking>hm</thinking>Yes" }, finish_reason: "stop" },
+            ],
+          },
+        ]),
+      ),
+    );
+    const client = new LLMClient({
+      baseUrl: "http://test/v1",
+      model: "m",
+      maxTokens: 10,
+      thinkTag: "thinking",
+    });
+
+    const resp = await client.chat([{ role: "user", content: "q" }]);
+    expect(resp.thinking).toBe("hm");
+    expect(resp.content).toBe("Yes");
+  });
+});
+
+describe("parseToolArguments", () => {
+  it("parses a JSON object and treats empty text as no arguments", () => {
+    expect(parseToolArguments('{"a": 1}')).toEqual({ arguments: { a: 1 } });
+    expect(parseToolArguments("")).toEqual({ arguments: {} });
+  });
+
+  it("keeps partial or non-object arguments as invalidArguments", () => {
+    expect(parseToolArguments('{"a": "hal')).toEqual({
+      arguments: {},
+      invalidArguments: '{"a": "hal',
+    });
+    expect(parseToolArguments("42")).toEqual({ arguments: {}, invalidArguments: "42" });
+  });
+});
+
+describe("LLMClient.chat truncated tool call", () => {
+  it("flags arguments cut off at the token limit", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        sseResponse([
+          {
+            choices: [
+              {
+                index: 0,
+                delta: {
+                  tool_calls: [
+                    { index: 0, id: "c1", function: { name: "write", arguments: '{"text": "lo' } },
+                  ],
+                },
+                finish_reason: "length",
+              },
+            ],
+          },
+        ]),
+      ),
+    );
+    const client = new LLMClient({ baseUrl: "http://test/v1", model: "m", maxTokens: 10 });
+
+    const response = await client.chat([{ role: "user", content: "q" }]);
+
+    expect(response.finishReason).toBe("length");
+    expect(response.toolCalls).toEqual([
+      { id: "c1", name: "write", arguments: {}, invalidArguments: '{"text": "lo' },
+    ]);
+  });
+});
+
+describe("LLMClient.chat usage", () => {
+  it("requests include_usage and parses the final usage chunk", async () => {
+    const fetchMock = vi.fn(async () =>
+      sseResponse([
+        { choices: [{ index: 0, delta: { content: "Hi" }, finish_reason: null }] },
+        { choices: [{ index: 0, delta: {}, finish_reason: "stop" }] },
+        { choices: [], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } },
+      ]),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new LLMClient({ baseUrl: "http://test/v1", model: "m", maxTokens: 10 });
+
+    const resp = await client.chat([{ role: "user", content: "hello" }]);
+
+    const init = (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1];
+    expect(JSON.parse(String(init.body)).stream_options).toEqual({ include_usage: true });
+    expect(resp.content).toBe("Hi");
+    expect(resp.usage).toEqual({
+      promptTokens: 12,
+      completionTokens: 3,
+      totalTokens: 15,
+      estimated: false,
+    });
+  });
+
+  it("falls back to an estimate when the server reports no usage", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        sseResponse([
+          { choices: [{ index: 0, delta: { content: "abcdefgh" }, finish_reason: "stop" }] },
+        ]),
+      ),
+    );
+    const client = new LLMClient({
+      baseUrl: "http://test/v1",
+      model: "m",
+      maxTokens: 10,
+      streamUsage: false,
+    });
+
+    const resp = await client.chat([{ role: "user", content: "hello" }]);
+    expect(resp.usage?.estimated).toBe(true);
+    expect(resp.usage?.completionTokens).toBe(2);
+  });
+});
+
+describe("LLMClient.chat response schema", () => {
+  it("sends a json_schema response_format", async () => {
+    const fetchMock = vi.fn(async () =>
+      sseResponse([{ choices: [{ index: 0, delta: { content: "{}" }, finish_reason: "stop" }] }]),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new LLMClient({ baseUrl: "http://test/v1", model: "m", maxTokens: 10 });
+    const schema = { type: "object", properties: { ok: { type: "boolean" } } };
+
+    await client.chat([{ role: "user", content: "q" }], undefined, undefined, undefined, {
+      responseSchema: schema,
+    });
+
+    const init = (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1];
+    expect(JSON.parse(String(init.body)).response_format).toEqual({
+      type: "json_schema",
+      json_schema: { name: "response", schema },
+    });
+  });
+
+  it("asks for the schema in the system prompt when tools are sent", async () => {
+    const fetchMock = vi.fn(async () =>
+      sseResponse([{ choices: [{ index: 0, delta: { content: "{}" }, finish_reason: "stop" }] }]),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new LLMClient({ baseUrl: "http://test/v1", model: "m", maxTokens: 10 });
+    const schema = { type: "object" };
+    const tool = {
+      type: "function" as const,
+      function: { name: "echo", description: "Echo", parameters: { type: "object" } },
+    };
+
+    await client.chat(
+      [
+        { role: "system", content: "sys" },
+        { role: "user", content: "q" },
+      ],
+      [tool],
+      undefined,
+      undefined,
+      { responseSchema: schema },
+    );
+
+    const init = (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1];
+    const body = JSON.parse(String(init.body));
+    expect(body).not.toHaveProperty("response_format");
+    expect(body.messages[0].content).toMatch(/^sys\n\n.*JSON Schema/s);
+    expect(body.messages[1]).toEqual({ role: "user", content: "q" });
+  });
+});
+
+describe("LLMClient.chat sampling", () => {
+  it("forwards configured sampling parameters and omits unset ones", async () => {
+    const fetchMock = vi.fn(async () =>
+      sseResponse([{ choices: [{ index: 0, delta: { content: "ok" }, finish_reason: "stop" }] }]),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new LLMClient({
+      baseUrl: "http://test/v1",
+      model: "m",
+      maxTokens: 10,
+      sampling: { temperature: 0.3, stop: ["END"], seed: 42 },
+    });
+
+    await client.chat([{ role: "user", content: "q" }]);
+
+    const body = JSON.parse(
+      String((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body),
+    );
+    expect(body.temperature).toBe(0.3);
+    expect(body.stop).toEqual(["END"]);
+    expect(body.seed).toBe(42);
+    expect(body).not.toHaveProperty("top_p");
+  });
+});
+
+describe("LLMClient.chat timeouts", () => {
+  /** A response that streams one chunk, then goes silent without closing. */
+  function stalledResponse(content: string): Response {
+    const encoder = new TextEncoder();
+    const chunk = { choices: [{ index: 0, delta: { content }, finish_reason: null }] };
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+      },
+    });
+    return new Response(stream, { status: 200 });
+  }
+
+  it("fails a stalled stream with the partial answer", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => stalledResponse("Hello wor")),
+    );
+    const client = new LLMClient({
+      baseUrl: "http://test/v1",
+      model: "m",
+      maxTokens: 10,
+      timeouts: { idleMs: 30 },
+    });
+
+    const err = await client.chat([{ role: "user", content: "q" }]).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(StreamTimeoutError);
+    expect(err).toMatchObject({ kind: "idle", timeoutMs: 30, partialContent: "Hello wor" });
+    expect((err as Error).message).toContain("idleTimeoutMs");
+  });
+
+  it("fails a request that runs past the total timeout", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_, reject) => {
+            init.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+          }),
+      ),
+    );
+    const client = new LLMClient({
+      baseUrl: "http://test/v1",
+      model: "m",
+      maxTokens: 10,
+      timeouts: { totalMs: 30 },
+    });
+
+    await expect(client.chat([{ role: "user", content: "q" }])).rejects.toMatchObject({
+      kind: "total",
+      timeoutMs: 30,
+    });
+  });
+
+  it("fails a request whose headers never arrive with the idle timeout", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise<Response>((_, reject) => {
+            init.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+          }),
+      ),
+    );
+    const client = new LLMClient({
+      baseUrl: "http://test/v1",
+      model: "m",
+      maxTokens: 10,
+      timeouts: { idleMs: 30, totalMs: 5000 },
+    });
+
+    await expect(client.chat([{ role: "user", content: "q" }])).rejects.toMatchObject({
+      kind: "idle",
+      timeoutMs: 30,
+    });
+  });
+
+  it("lets a user abort win over a stall", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => stalledResponse("Hi")),
+    );
+    const client = new LLMClient({
+      baseUrl: "http://test/v1",
+      model: "m",
+      maxTokens: 10,
+      timeouts: { idleMs: 1000 },
+    });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(
+      client.chat([{ role: "user", content: "q" }], undefined, undefined, controller.signal),
+    ).rejects.toBeInstanceOf(UserAbortError);
+  });
+});
@@ -8,11 +8,30 @@
  * lets the caller display them live as they arrive.
  */
 
-import { UserAbortError } from "../errors.js";
+import { openStream, readLines, type StreamTimeouts } from "./http.js";
+import { type ChatOptions, RESPONSE_SCHEMA_NAME, schemaRequest } from "./schema.js";
+import { resolveUsage, type TokenUsage } from "./usage.js";
+
+/** Plain text part of a multimodal message. */
+export interface TextContentPart {
+  type: "text";
+  text: string;
+}
+
+/** Image part of a multimodal message. url is usually a data: URL built from a local file. */
+export interface ImageContentPart {
+  type: "image_url";
+  image_url: { url: string };
+}
+
+export type ContentPart = TextContentPart | ImageContentPart;
+
+/** Message content: a plain string, or text and image parts for vision models. */
+export type MessageContent = string | ContentPart[];
 
 export interface ChatMessage {
   role: "system" | "user" | "assistant" | "tool";
-  content: string;
+  content: MessageContent;
   tool_calls?: ToolCallMessage[];
   tool_call_id?: string;
 }
@@ -39,6 +58,11 @@ export interface ToolCall {
   id: string;
   name: string;
   arguments: Record<string, unknown>;
+  /**
+   * Raw argument text that wasn't a JSON object — usually a call cut off at
+   * maxTokens. `arguments` is then empty and the call must not be run.
+   */
+  invalidArguments?: string;
 }
 
 export interface LLMResponse {
@@ -46,6 +70,23 @@ export interface LLMResponse {
   thinking: string | null;
   toolCalls: ToolCall[];
   finishReason: string;
+  /** Tokens used by this call — server-reported where available, else estimated. */
+  usage?: TokenUsage;
+}
+
+/**
+ * Anything that can run a chat turn and return an LLMResponse.
+ * LLMClient (OpenAI-compatible) is the default; other providers plug in here.
+ */
+export interface ChatClient {
+  readonly opts: LLMClientOptions;
+  chat(
+    messages: ChatMessage[],
+    tools?: ToolDefinition[],
+    onToken?: OnTokenCallback,
+    signal?: AbortSignal,
+    options?: ChatOptions,
+  ): Promise<LLMResponse>;
 }
 
 export interface LLMClientOptions {
@@ -53,6 +94,25 @@ export interface LLMClientOptions {
   model: string;
   apiKey?: string;
   maxTokens: number;
+  /** Send stream_options.include_usage. Defaults to true; disable for servers that reject it. */
+  streamUsage?: boolean;
+  /** Inline reasoning tag name, e.g. "thinking" for <thinking>...</thinking>. Defaults to "think". */
+  thinkTag?: string;
+  /** Sampling parameters; unset fields are left to the server's defaults. */
+  sampling?: SamplingOptions;
+  /** False when the model has no function calling — the agent then sends no tools. */
+  supportsTools?: boolean;
+  /** fetch to use instead of the global one — set by the recorder and the replay provider. */
+  fetch?: typeof fetch;
+  /** Total and idle time limits for streaming requests; defaults apply when unset. */
+  timeouts?: StreamTimeouts;
+}
+
+export interface SamplingOptions {
+  temperature?: number;
+  topP?: number;
+  stop?: string[];
+  seed?: number;
 }
 
 /** Shape of a single SSE chunk from an OpenAI-compatible streaming response. */
@@ -60,6 +120,10 @@ interface SSEChunkChoice {
   index: number;
   delta: {
     content?: string;
+    /** Separate reasoning stream (vLLM, DeepSeek). */
+    reasoning_content?: string;
+    /** Separate reasoning stream (OpenRouter). */
+    reasoning?: string;
     tool_calls?: Array<{
       index?: number;
       id?: string;
@@ -74,14 +138,17 @@ interface SSEChunkChoice {
 
 interface SSEChunk {
   choices?: SSEChunkChoice[];
+  /** Sent in a final chunk (with empty choices) when stream_options.include_usage is set. */
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
 }
 
+/** Default inline reasoning tag: <think>...</think>. */
+export const DEFAULT_THINK_TAG = "think";
+
 /** Callback for live token display. isThinking=true when inside <think> block. */
 export type OnTokenCallback = (token: string, isThinking: boolean) => void;
 
-const LLM_REQUEST_TIMEOUT_MS = 300_000;
-
-export class LLMClient {
+export class LLMClient implements ChatClient {
   readonly opts: LLMClientOptions;
 
   constructor(opts: LLMClientOptions) {
@@ -103,147 +170,137 @@ export class LLMClient {
     tools?: ToolDefinition[],
     onToken?: OnTokenCallback,
     signal?: AbortSignal,
+    options?: ChatOptions,
   ): Promise<LLMResponse> {
+    const request = schemaRequest(messages, tools, options);
     const payload: Record<string, unknown> = {
       model: this.opts.model,
-      messages,
+      messages: request.messages,
       max_tokens: this.opts.maxTokens,
       stream: true,
     };
+    if (this.opts.streamUsage !== false) {
+      payload.stream_options = { include_usage: true };
+    }
+    const sampling = this.opts.sampling ?? {};
+    if (sampling.temperature !== undefined) payload.temperature = sampling.temperature;
+    if (sampling.topP !== undefined) payload.top_p = sampling.topP;
+    if (sampling.stop?.length) payload.stop = sampling.stop;
+    if (sampling.seed !== undefined) payload.seed = sampling.seed;
     if (tools && tools.length > 0) {
       payload.tools = tools;
     }
+    if (request.schema) {
+      payload.response_format = {
+        type: "json_schema",
+        json_schema: { name: RESPONSE_SCHEMA_NAME, schema: request.schema },
+      };
+    }
 
     const headers: Record<string, string> = { "Content-Type": "application/json" };
     if (this.opts.apiKey) {
       headers.Authorization = `Bearer ${this.opts.apiKey}`;
     }
 
-    // Combine user-supplied abort signal with the timeout signal
-    const timeoutSignal = AbortSignal.timeout(LLM_REQUEST_TIMEOUT_MS);
-    const combinedSignal = signal ? AbortSignal.any([timeoutSignal, signal]) : timeoutSignal;
-
-    let resp: Response;
-    try {
-      resp = await fetch(`${this.opts.baseUrl}/chat/completions`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(payload),
-        signal: combinedSignal,
-      });
-    } catch (err: unknown) {
-      if (signal?.aborted) throw new UserAbortError();
-      const msg = err instanceof Error ? err.message : String(err);
-      if (msg.includes("ECONNREFUSED") || msg.includes("fetch failed")) {
-        throw new Error(
-          `Could not connect to LLM at ${this.opts.baseUrl}.\n` +
-            "Make sure your LLM provider (exo, ollama, etc.) is running.\n" +
-            "You can change the provider in config/config.yaml under 'provider' and 'providers'.",
-        );
-      }
-      throw err;
-    }
-
-    if (resp.status === 404) {
-      throw new Error(
-        `Model "${this.opts.model}" not found at ${this.opts.baseUrl} (404).\n` +
-          "Check that the model name is correct in config/config.yaml under providers.<your-provider>.model.\n" +
-          `Run 'curl ${this.opts.baseUrl}/models' to see available models.`,
-      );
-    }
-
-    if (!resp.ok) {
-      const body = await resp.text();
-      throw new Error(`LLM request failed (${resp.status}): ${body}`);
-    }
+    const body = await openStream({
+      url: `${this.opts.baseUrl}/chat/completions`,
+      headers,
+      payload,
+      signal,
+      baseUrl: this.opts.baseUrl,
+      model: this.opts.model,
+      modelsUrl: `${this.opts.baseUrl}/models`,
+      fetch: this.opts.fetch,
+      timeouts: this.opts.timeouts,
+    });
 
     // Parse the SSE stream
     let fullContent = "";
+    let fullReasoning = "";
+    const thinkTag = this.opts.thinkTag ?? DEFAULT_THINK_TAG;
+    const reasoningDisplay = new ReasoningDisplay(onToken);
     let finishReason = "stop";
+    let reportedUsage: { promptTokens?: number; completionTokens?: number } = {};
     // Accumulate tool call deltas: index -> { id, name, arguments }
     const toolCallAccum = new Map<number, { id: string; name: string; arguments: string }>();
     // Track whether we're inside a <think> block for live display
     let insideThink = false;
     let thinkTagBuffer = ""; // buffer for detecting partial <think> or </think> tags
 
-    if (!resp.body) {
-      throw new Error("LLM response has no body");
-    }
-    const reader = resp.body.getReader();
-    const decoder = new TextDecoder();
-    let sseBuffer = "";
+    for await (const line of readLines(body, signal, () => fullContent)) {
+      if (!line.startsWith("data: ")) continue;
+      const data = line.slice(6).trim();
+      if (data === "[DONE]") continue;
 
-    while (true) {
-      let readResult: ReadableStreamReadResult<Uint8Array>;
+      let chunk: SSEChunk;
       try {
-        readResult = await reader.read();
+        chunk = JSON.parse(data);
       } catch {
-        if (signal?.aborted) throw new UserAbortError("Operation cancelled by user", fullContent);
-        throw new Error("Stream read failed");
+        continue;
       }
-      const { done, value } = readResult;
-      if (done) break;
-      if (signal?.aborted) throw new UserAbortError("Operation cancelled by user", fullContent);
-
-      sseBuffer += decoder.decode(value, { stream: true });
-
-      // Process complete SSE lines
-      const lines = sseBuffer.split("\n");
-      sseBuffer = lines.pop() ?? ""; // keep incomplete last line in buffer
-
-      for (const line of lines) {
-        if (!line.startsWith("data: ")) continue;
-        const data = line.slice(6).trim();
-        if (data === "[DONE]") continue;
-
-        let chunk: SSEChunk;
-        try {
-          chunk = JSON.parse(data);
-        } catch {
-          continue;
-        }
 
-        const choice = chunk.choices?.[0];
-        if (!choice?.delta) continue;
-        const { delta } = choice;
+      if (chunk.usage) {
+        reportedUsage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+        };
+      }
 
-        // Accumulate finish reason
-        if (choice.finish_reason) {
-          finishReason = choice.finish_reason;
-        }
+      const choice = chunk.choices?.[0];
+      if (!choice?.delta) continue;
+      const { delta } = choice;
+
+      // Accumulate finish reason
+      if (choice.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
 
-        // Handle content tokens
-        if (delta.content) {
-          fullContent += delta.content;
+      // Handle separate reasoning fields
+      const reasoning = delta.reasoning_content ?? delta.reasoning;
+      if (reasoning) {
+        fullReasoning += reasoning;
+        reasoningDisplay.thinking(reasoning);
+      }
 
-          if (onToken) {
-            // Stream each token through think-block detection
-            thinkTagBuffer += delta.content;
-            // Process the buffer, emitting tokens with correct isThinking state
-            processThinkBuffer(thinkTagBuffer, insideThink, onToken, (newInside, remaining) => {
+      // Handle content tokens
+      if (delta.content) {
+        reasoningDisplay.end();
+        fullContent += delta.content;
+
+        if (onToken) {
+          // Stream each token through think-block detection
+          thinkTagBuffer += delta.content;
+          // Process the buffer, emitting tokens with correct isThinking state
+          processThinkBuffer(
+            thinkTagBuffer,
+            insideThink,
+            onToken,
+            (newInside, remaining) => {
               insideThink = newInside;
               thinkTagBuffer = remaining;
-            });
-          }
+            },
+            thinkTag,
+          );
         }
+      }
 
-        // Handle tool call deltas
-        if (delta.tool_calls) {
-          for (const tc of delta.tool_calls) {
-            const idx = tc.index ?? 0;
-            let accum = toolCallAccum.get(idx);
-            if (!accum) {
-              accum = { id: "", name: "", arguments: "" };
-              toolCallAccum.set(idx, accum);
-            }
-            if (tc.id) accum.id = tc.id;
-            if (tc.function?.name) accum.name += tc.function.name;
-            if (tc.function?.arguments) accum.arguments += tc.function.arguments;
+      // Handle tool call deltas
+      if (delta.tool_calls) {
+        for (const tc of delta.tool_calls) {
+          const idx = tc.index ?? 0;
+          let accum = toolCallAccum.get(idx);
+          if (!accum) {
+            accum = { id: "", name: "", arguments: "" };
+            toolCallAccum.set(idx, accum);
           }
+          if (tc.id) accum.id = tc.id;
+          if (tc.function?.name) accum.name += tc.function.name;
+          if (tc.function?.arguments) accum.arguments += tc.function.arguments;
         }
       }
     }
 
+    reasoningDisplay.end();
     // Flush any remaining think buffer
     if (onToken && thinkTagBuffer) {
       onToken(thinkTagBuffer, insideThink);
@@ -252,36 +309,124 @@ export class LLMClient {
     // Parse accumulated tool calls
     const toolCalls: ToolCall[] = [];
     for (const [, tc] of [...toolCallAccum.entries()].sort((a, b) => a[0] - b[0])) {
-      let args: Record<string, unknown> = {};
-      try {
-        args = JSON.parse(tc.arguments);
-      } catch {
-        // partial or malformed args
-      }
-      toolCalls.push({ id: tc.id, name: tc.name, arguments: args });
+      toolCalls.push({ id: tc.id, name: tc.name, ...parseToolArguments(tc.arguments) });
     }
 
-    // Extract thinking from full content
-    let thinking: string | null = null;
-    let content = fullContent;
-    const thinkMatch = content.match(/<think>([\s\S]*?)<\/think>/);
-    if (thinkMatch) {
-      thinking = thinkMatch[1].trim();
-      content = content.replace(/<think>[\s\S]*?<\/think>/g, "").trim();
-    }
+    const { content, thinking: inlineThinking } = extractThinking(fullContent, thinkTag);
+    const thinking = fullReasoning.trim() || inlineThinking;
+    const toolArgs = [...toolCallAccum.values()].map((tc) => tc.name + tc.arguments).join("");
 
     return {
       content: content || null,
       thinking,
       toolCalls,
       finishReason,
+      usage: resolveUsage(reportedUsage, messages, tools, fullReasoning + fullContent + toolArgs),
     };
   }
 }
 
+/**
+ * Parse streamed tool call arguments. Empty text means no arguments; anything
+ * else that isn't a JSON object (partial or malformed) is kept as
+ * invalidArguments so the caller can report it instead of running the tool.
+ */
+export function parseToolArguments(raw: string): Pick<ToolCall, "arguments" | "invalidArguments"> {
+  if (!raw.trim()) return { arguments: {} };
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+      return { arguments: parsed as Record<string, unknown> };
+    }
+  } catch {
+    // partial or malformed args
+  }
+  return { arguments: {}, invalidArguments: raw };
+}
+
+/** The text of a message, with image parts dropped. */
+export function contentText(content: MessageContent): string {
+  if (typeof content === "string") return content;
+  return content
+    .filter((p): p is TextContentPart => p.type === "text")
+    .map((p) => p.text)
+    .join("\n");
+}
+
+/** The image parts of a message (none for plain string content). */
+export function contentImages(content: MessageContent): ImageContentPart[] {
+  if (typeof content === "string") return [];
+  return content.filter((p): p is ImageContentPart => p.type === "image_url");
+}
+
+/**
+ * Split a data: URL into its media type and base64 payload.
+ * Returns null for anything that isn't a base64 data URL.
+ */
+export function parseDataUrl(url: string): { mediaType: string; data: string } | null {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (!match) return null;
+  return { mediaType: match[1], data: match[2] };
+}
+
+/**
+ * Split inline <think>...</think> blocks out of the final content.
+ * `tag` selects the tag name for models that use e.g. <thinking> or <reasoning>.
+ */
+export function extractThinking(
+  fullContent: string,
+  tag = DEFAULT_THINK_TAG,
+): {
+  content: string;
+  thinking: string | null;
+} {
+  let thinking: string | null = null;
+  let content = fullContent;
+  const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const pattern = `<${escaped}>([\\s\\S]*?)<\\/${escaped}>`;
+  const thinkMatch = content.match(new RegExp(pattern));
+  if (thinkMatch) {
+    thinking = thinkMatch[1].trim();
+    content = content.replace(new RegExp(pattern, "g"), "").trim();
+  }
+  return { content, thinking };
+}
+
+/**
+ * Streams a separate reasoning field (reasoning_content, Ollama's thinking,
+ * etc.) to onToken with the same markers processThinkBuffer uses for inline
+ * <think> blocks, so the CLI display can't tell the two apart.
+ */
+export class ReasoningDisplay {
+  private readonly onToken?: OnTokenCallback;
+  private open = false;
+
+  constructor(onToken?: OnTokenCallback) {
+    this.onToken = onToken;
+  }
+
+  /** Emit a reasoning token, opening the thinking block on the first one. */
+  thinking(text: string): void {
+    if (!this.onToken) return;
+    if (!this.open) {
+      this.open = true;
+      this.onToken("[thinking] ", false); // visual marker
+    }
+    this.onToken(text, true);
+  }
+
+  /** Close an open thinking block — call before emitting regular content. */
+  end(): void {
+    if (!this.open) return;
+    this.open = false;
+    this.onToken?.("\n", true); // end thinking line
+  }
+}
+
 /**
  * Process the think-tag buffer, emitting tokens with correct isThinking state.
  * Detects <think> and </think> tags even when split across chunks.
+ * `tag` selects the tag name (default "think").
  * Extracted as a standalone function for testability.
  */
 export function processThinkBuffer(
@@ -289,19 +434,21 @@ export function processThinkBuffer(
   insideThink: boolean,
   onToken: OnTokenCallback,
   update: (newInside: boolean, remaining: string) => void,
+  tag = DEFAULT_THINK_TAG,
 ): void {
+  const openTag = `<${tag}>`;
+  const closeTag = `</${tag}>`;
   let pos = 0;
   let inside = insideThink;
 
   while (pos < buffer.length) {
     if (!inside) {
-      // Look for <think>
-      const openIdx = buffer.indexOf("<think>", pos);
+      // Look for the open tag
+      const openIdx = buffer.indexOf(openTag, pos);
       if (openIdx === -1) {
-        // Check if buffer ends with a partial "<think>" match
-        const partialCheck = "<think>";
-        for (let i = 1; i < partialCheck.length; i++) {
-          if (buffer.endsWith(partialCheck.slice(0, i))) {
+        // Check if buffer ends with a partial open-tag match
+        for (let i = 1; i < openTag.length; i++) {
+          if (buffer.endsWith(openTag.slice(0, i))) {
             // Emit everything before the partial match, keep partial in buffer
             const safe = buffer.slice(pos, buffer.length - i);
             if (safe) onToken(safe, false);
@@ -314,19 +461,18 @@ export function processThinkBuffer(
         update(inside, "");
         return;
       }
-      // Emit text before <think>
+      // Emit text before the open tag
       if (openIdx > pos) onToken(buffer.slice(pos, openIdx), false);
       inside = true;
-      pos = openIdx + 7; // skip past "<think>"
+      pos = openIdx + openTag.length;
       onToken("[thinking] ", false); // visual marker
     } else {
-      // Look for </think>
-      const closeIdx = buffer.indexOf("</think>", pos);
+      // Look for the close tag
+      const closeIdx = buffer.indexOf(closeTag, pos);
       if (closeIdx === -1) {
-        // Check for partial "</think>" at end
-        const partialCheck = "</think>";
-        for (let i = 1; i < partialCheck.length; i++) {
-          if (buffer.endsWith(partialCheck.slice(0, i))) {
+        // Check for a partial close tag at end
+        for (let i = 1; i < closeTag.length; i++) {
+          if (buffer.endsWith(closeTag.slice(0, i))) {
             const safe = buffer.slice(pos, buffer.length - i);
             if (safe) onToken(safe, true);
             update(inside, buffer.slice(buffer.length - i));
@@ -338,11 +484,11 @@ export function processThinkBuffer(
         update(inside, "");
         return;
       }
-      // Emit thinking content before </think>
+      // Emit thinking content before the close tag
       if (closeIdx > pos) onToken(buffer.slice(pos, closeIdx), true);
       onToken("\n", true); // end thinking line
       inside = false;
-      pos = closeIdx + 8; // skip past "</think>"
+      pos = closeIdx + closeTag.length;
     }
   }
 
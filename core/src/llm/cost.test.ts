@@ -0,0 +1,199 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { BudgetExceededError, LLMRequestError, UserAbortError } from "../errors.js";
+import type { LLMResponse, OnTokenCallback } from "./client.js";
+import { CostLedger, CostTrackingClient, callCost, localDay } from "./cost.js";
+
+let memoryDir: string;
+
+beforeEach(() => {
+  memoryDir = mkdtempSync(join(tmpdir(), "ephileo-cost-"));
+});
+
+afterEach(() => {
+  rmSync(memoryDir, { recursive: true, force: true });
+});
+
+const PRICE = { input: 3, output: 15 };
+
+function pricedResponse(promptTokens: number, completionTokens: number): LLMResponse {
+  return {
+    content: "ok",
+    thinking: null,
+    toolCalls: [],
+    finishReason: "stop",
+    usage: {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      estimated: false,
+    },
+  };
+}
+
+function mockClient(model = "sonnet") {
+  return {
+    opts: { baseUrl: "http://cloud", model, maxTokens: 100 },
+    chat: vi.fn(async () => pricedResponse(1_000_000, 100_000)),
+  };
+}
+
+describe("callCost", () => {
+  it("prices prompt and completion tokens per million", () => {
+    const usage = pricedResponse(2_000, 500).usage;
+    expect(callCost(usage as never, PRICE)).toBeCloseTo(0.0135);
+  });
+});
+
+describe("localDay", () => {
+  it("formats the local calendar day", () => {
+    expect(localDay(new Date(2026, 0, 5, 23, 59))).toBe("2026-01-05");
+  });
+});
+
+describe("CostLedger", () => {
+  it("keeps session totals and sums a day across sessions from the file", () => {
+    const ledger = new CostLedger(memoryDir, "s1");
+    const other = new CostLedger(memoryDir, "s2");
+    const call = { provider: "p", model: "m", promptTokens: 1, completionTokens: 1 };
+    const today = new Date(2026, 9, 19, 12);
+    ledger.record({ ...call, cost: 0.5 }, today);
+    other.record({ ...call, cost: 0.25 }, today);
+    ledger.record({ ...call, cost: 1 }, new Date(2026, 9, 18, 12));
+
+    expect(ledger.sessionTotal()).toBe(1.5);
+    expect(ledger.dayTotal("2026-10-19")).toBe(0.75);
+    expect(readFileSync(ledger.path, "utf-8").trim().split("\n")).toHaveLength(3);
+  });
+
+  it("skips a torn last line", () => {
+    const ledger = new CostLedger(memoryDir, "s1");
+    ledger.record({ provider: "p", model: "m", promptTokens: 1, completionTokens: 1, cost: 0.1 });
+    appendFileSync(ledger.path, '{"day":"');
+
+    expect(ledger.dayTotal()).toBeCloseTo(0.1);
+  });
+
+  it("counts nothing before the first call", () => {
+    expect(new CostLedger(memoryDir, "s1").dayTotal()).toBe(0);
+  });
+});
+
+describe("CostTrackingClient", () => {
+  it("records the cost of each priced call", async () => {
+    const ledger = new CostLedger(memoryDir, "s1");
+    const client = new CostTrackingClient(mockClient(), {
+      provider: "openrouter",
+      prices: { sonnet: PRICE },
+      ledger,
+    });
+
+    await client.chat([{ role: "user", content: "hi" }]);
+
+    expect(ledger.sessionRecords).toEqual([
+      expect.objectContaining({
+        provider: "openrouter",
+        model: "sonnet",
+        promptTokens: 1_000_000,
+        completionTokens: 100_000,
+        cost: 4.5,
+      }),
+    ]);
+  });
+
+  it("records estimated usage for a call that fails mid-stream", async () => {
+    const ledger = new CostLedger(memoryDir, "s1");
+    const dropped = new LLMRequestError("Stream read failed", { kind: "stream", retryable: true });
+    const inner = {
+      opts: { baseUrl: "http://cloud", model: "sonnet", maxTokens: 100 },
+      chat: vi.fn(async (_m: unknown, _t: unknown, onToken?: OnTokenCallback) => {
+        onToken?.("a long partial answer", false);
+        throw dropped;
+      }),
+    };
+    const client = new CostTrackingClient(inner, {
+      provider: "openrouter",
+      prices: { sonnet: PRICE },
+      ledger,
+    });
+
+    await expect(client.chat([{ role: "user", content: "hi" }], undefined, () => {})).rejects.toBe(
+      dropped,
+    );
+
+    expect(ledger.sessionRecords).toHaveLength(1);
+    expect(ledger.sessionRecords[0]).toMatchObject({ model: "sonnet", partial: true });
+    expect(ledger.sessionRecords[0].completionTokens).toBeGreaterThan(0);
+    expect(ledger.sessionTotal()).toBeGreaterThan(0);
+  });
+
+  it("records a cancelled call from its partial content", async () => {
+    const ledger = new CostLedger(memoryDir, "s1");
+    const inner = {
+      opts: { baseUrl: "http://cloud", model: "sonnet", maxTokens: 100 },
+      chat: vi.fn(async () => {
+        throw new UserAbortError("Operation cancelled by user", "half an answer");
+      }),
+    };
+    const client = new CostTrackingClient(inner, {
+      provider: "openrouter",
+      prices: { sonnet: PRICE },
+      ledger,
+    });
+
+    await expect(client.chat([{ role: "user", content: "hi" }])).rejects.toBeInstanceOf(
+      UserAbortError,
+    );
+    expect(ledger.sessionRecords).toEqual([expect.objectContaining({ partial: true })]);
+  });
+
+  it("records nothing for a call that fails before any output", async () => {
+    const ledger = new CostLedger(memoryDir, "s1");
+    const inner = {
+      opts: { baseUrl: "http://cloud", model: "sonnet", maxTokens: 100 },
+      chat: vi.fn(async () => {
+        throw new LLMRequestError("LLM request failed (503): busy", { kind: "http", status: 503 });
+      }),
+    };
+    const client = new CostTrackingClient(inner, {
+      provider: "openrouter",
+      prices: { sonnet: PRICE },
+      ledger,
+    });
+
+    await expect(client.chat([])).rejects.toThrow("busy");
+    expect(ledger.sessionRecords).toEqual([]);
+  });
+
+  it("lets calls to unpriced models through without recording them", async () => {
+    const ledger = new CostLedger(memoryDir, "s1");
+    const client = new CostTrackingClient(mockClient("other"), {
+      provider: "openrouter",
+      prices: { sonnet: PRICE },
+      ledger,
+    });
+
+    await client.chat([]);
+    expect(ledger.sessionRecords).toEqual([]);
+  });
+
+  it("refuses calls once today's spending reaches the cap", async () => {
+    const ledger = new CostLedger(memoryDir, "s1");
+    const inner = mockClient();
+    const client = new CostTrackingClient(inner, {
+      provider: "openrouter",
+      prices: { sonnet: PRICE },
+      ledger,
+      dailyCap: 4,
+    });
+
+    await client.chat([]);
+    const err = await client.chat([]).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(BudgetExceededError);
+    expect((err as Error).message).toContain("$4.50 of $4.00 spent today");
+    expect(inner.chat).toHaveBeenCalledTimes(1);
+  });
+});
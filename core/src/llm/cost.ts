@@ -0,0 +1,187 @@
+/**
+ * Cost tracking — what calls to paid providers cost, and a daily cap on it.
+ *
+ * Providers list per-model prices in config.yaml. CostTrackingClient wraps a
+ * priced provider's client: after each call it prices the reported usage and
+ * appends it to the CostLedger (memory/costs.jsonl, one call per line), and
+ * before each call it refuses with BudgetExceededError once today's total
+ * has reached the cap. A call that is cancelled or fails mid-stream was still
+ * billed for what it generated, so it is recorded with estimated usage.
+ * Unpriced (local) providers are never wrapped.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { ModelPrice } from "../config/loader.js";
+import { BudgetExceededError, StreamTimeoutError, UserAbortError } from "../errors.js";
+import type {
+  ChatClient,
+  ChatMessage,
+  LLMClientOptions,
+  LLMResponse,
+  OnTokenCallback,
+  ToolDefinition,
+} from "./client.js";
+import type { ChatOptions } from "./schema.js";
+import { resolveUsage, type TokenUsage } from "./usage.js";
+
+/** Ledger file under the memory dir. */
+export const COST_LEDGER_FILE = "costs.jsonl";
+
+/** One priced call as stored in the ledger. */
+export interface CostRecord {
+  ts: string;
+  /** Local calendar day, YYYY-MM-DD — what the daily cap counts against. */
+  day: string;
+  session: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** US dollars. */
+  cost: number;
+  /** The call ended early; its tokens are estimated from what had streamed. */
+  partial?: boolean;
+}
+
+/** Dollars for one call. Prices are per million tokens. */
+export function callCost(usage: TokenUsage, price: ModelPrice): number {
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/** Local calendar day of a date, YYYY-MM-DD. */
+export function localDay(date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export class CostLedger {
+  readonly session: string;
+  readonly path: string;
+  /** Calls recorded by this session, oldest first. */
+  readonly sessionRecords: CostRecord[] = [];
+
+  constructor(memoryDir: string, session: string) {
+    this.session = session;
+    this.path = resolve(memoryDir, COST_LEDGER_FILE);
+  }
+
+  /** Append a call. Written synchronously so concurrent sessions see it on their next check. */
+  record(entry: Omit<CostRecord, "ts" | "day" | "session">, now = new Date()): CostRecord {
+    const record: CostRecord = {
+      ts: now.toISOString(),
+      day: localDay(now),
+      session: this.session,
+      ...entry,
+    };
+    mkdirSync(resolve(this.path, ".."), { recursive: true });
+    appendFileSync(this.path, `${JSON.stringify(record)}\n`, "utf-8");
+    this.sessionRecords.push(record);
+    return record;
+  }
+
+  /** Dollars spent by this session. */
+  sessionTotal(): number {
+    return this.sessionRecords.reduce((sum, r) => sum + r.cost, 0);
+  }
+
+  /** Dollars spent on `day` by every session, read from the ledger file. */
+  dayTotal(day = localDay()): number {
+    if (!existsSync(this.path)) return 0;
+    let total = 0;
+    for (const line of readFileSync(this.path, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as CostRecord;
+        if (record.day === day) total += record.cost;
+      } catch {
+        // Partial line from an interrupted write
+      }
+    }
+    return total;
+  }
+}
+
+export interface CostTrackingOptions {
+  /** Provider name, as in config.yaml. */
+  provider: string;
+  /** Prices by model id; calls to models without one are let through unpriced. */
+  prices: Record<string, ModelPrice>;
+  ledger: CostLedger;
+  /** Dollars per day after which calls are refused. Unlimited when unset. */
+  dailyCap?: number;
+}
+
+/** Prices each call to a paid provider and enforces the daily cap. */
+export class CostTrackingClient implements ChatClient {
+  readonly inner: ChatClient;
+  private readonly tracking: CostTrackingOptions;
+
+  constructor(inner: ChatClient, tracking: CostTrackingOptions) {
+    this.inner = inner;
+    this.tracking = tracking;
+  }
+
+  get opts(): LLMClientOptions {
+    return this.inner.opts;
+  }
+
+  async chat(
+    messages: ChatMessage[],
+    tools?: ToolDefinition[],
+    onToken?: OnTokenCallback,
+    signal?: AbortSignal,
+    options?: ChatOptions,
+  ): Promise<LLMResponse> {
+    const { provider, prices, ledger, dailyCap } = this.tracking;
+    if (dailyCap !== undefined) {
+      const spent = ledger.dayTotal();
+      if (spent >= dailyCap) throw new BudgetExceededError(provider, spent, dailyCap);
+    }
+    const model = this.inner.opts.model;
+    const price = prices[model];
+    let streamed = "";
+    const counting: OnTokenCallback | undefined = onToken
+      ? (token, isThinking) => {
+          streamed += token;
+          onToken(token, isThinking);
+        }
+      : undefined;
+
+    let response: LLMResponse;
+    try {
+      response = await this.inner.chat(messages, tools, counting, signal, options);
+    } catch (err: unknown) {
+      const output = streamed || partialContent(err);
+      if (price && output) {
+        const usage = resolveUsage({}, messages, tools, output);
+        ledger.record({
+          provider,
+          model,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          cost: callCost(usage, price),
+          partial: true,
+        });
+      }
+      throw err;
+    }
+    if (price && response.usage) {
+      ledger.record({
+        provider,
+        model,
+        promptTokens: response.usage.promptTokens,
+        completionTokens: response.usage.completionTokens,
+        cost: callCost(response.usage, price),
+      });
+    }
+    return response;
+  }
+}
+
+/** What a cancelled or timed-out call had generated, when the error carries it. */
+function partialContent(err: unknown): string {
+  return err instanceof UserAbortError || err instanceof StreamTimeoutError
+    ? err.partialContent
+    : "";
+}
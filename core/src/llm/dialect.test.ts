@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from "vitest";
+import type { LLMResponse, OnTokenCallback } from "./client.js";
+import { extractTextToolCalls, MarkerFilter, TextToolCallClient } from "./dialect.js";
+
+describe("MarkerFilter", () => {
+  it("drops text between markers within one chunk", () => {
+    const filter = new MarkerFilter("<tool_call>", "</tool_call>");
+    expect(filter.push("before<tool_call>{}</tool_call>after")).toBe("beforeafter");
+  });
+
+  it("holds back a marker split across chunks", () => {
+    const filter = new MarkerFilter("<tool_call>", "</tool_call>");
+    expect(filter.push("text<tool")).toBe("text");
+    expect(filter.push('_call>{"name":')).toBe("");
+    expect(filter.push('"x"}</tool_')).toBe("");
+    expect(filter.push("call> done")).toBe(" done");
+  });
+
+  it("releases a held-back non-marker on flush", () => {
+    const filter = new MarkerFilter("<tool_call>", "</tool_call>");
+    expect(filter.push("a <to")).toBe("a ");
+    expect(filter.flush()).toBe("<to");
+  });
+
+  it("drops an unterminated block on flush", () => {
+    const filter = new MarkerFilter("<tool_call>", "</tool_call>");
+    filter.push("<tool_call>{partial");
+    expect(filter.flush()).toBe("");
+  });
+
+  it("shows blocks the hide check rejects once they close", () => {
+    const filter = new MarkerFilter("```json", "```", (block) => block.includes('"name"'));
+    expect(filter.push('a ```json\n{"x": 1}')).toBe("a ");
+    expect(filter.push("\n``` b")).toBe('```json\n{"x": 1}\n``` b');
+    expect(filter.push('```json{"name": "t"}``` c')).toBe(" c");
+    filter.push("```json{unfinished");
+    expect(filter.flush()).toBe("```json{unfinished");
+  });
+});
+
+describe("extractTextToolCalls", () => {
+  it("parses hermes-style tool calls", () => {
+    const content =
+      'Let me check.\n<tool_call>{"name": "read_file", "arguments": {"path": "a.txt"}}</tool_call>';
+    const result = extractTextToolCalls(content, "hermes");
+    expect(result.content).toBe("Let me check.");
+    expect(result.toolCalls).toEqual([
+      { id: "call_text_0", name: "read_file", arguments: { path: "a.txt" } },
+    ]);
+  });
+
+  it("parses multiple fenced JSON calls and string arguments", () => {
+    const content =
+      '```json\n{"name": "a", "arguments": "{\\"x\\": 1}"}\n```\n```json\n{"name": "b", "parameters": {}}\n```';
+    const result = extractTextToolCalls(content, "fenced-json");
+    expect(result.toolCalls.map((tc) => tc.name)).toEqual(["a", "b"]);
+    expect(result.toolCalls[0].arguments).toEqual({ x: 1 });
+    expect(result.content).toBe("");
+  });
+
+  it("leaves blocks that are not tool calls in the content", () => {
+    const content = 'Here is data:\n```json\n{"answer": 42}\n```';
+    const result = extractTextToolCalls(content, "fenced-json");
+    expect(result.toolCalls).toEqual([]);
+    expect(result.content).toBe(content);
+  });
+
+  it("does nothing for the native dialect", () => {
+    const content = '<tool_call>{"name": "a", "arguments": {}}</tool_call>';
+    expect(extractTextToolCalls(content, "native").toolCalls).toEqual([]);
+  });
+});
+
+describe("TextToolCallClient", () => {
+  /** Inner client that streams the given tokens and returns them joined as content. */
+  function streamingClient(tokens: string[], toolCalls: LLMResponse["toolCalls"] = []) {
+    return {
+      opts: { baseUrl: "http://test", model: "test", maxTokens: 100 },
+      chat: vi.fn(async (_m, _t, onToken?: OnTokenCallback): Promise<LLMResponse> => {
+        for (const t of tokens) onToken?.(t, false);
+        return { content: tokens.join(""), thinking: null, toolCalls, finishReason: "stop" };
+      }),
+    };
+  }
+
+  it("hides embedded calls from the live display and returns them as ToolCalls", async () => {
+    const inner = streamingClient([
+      "Checking",
+      "<tool_",
+      'call>{"name":"shell","arguments":{"command":"ls"}}',
+      "</tool_call>",
+    ]);
+    const client = new TextToolCallClient(inner, "hermes");
+    const shown: string[] = [];
+
+    const resp = await client.chat([], undefined, (t) => shown.push(t));
+
+    expect(shown.join("")).toBe("Checking");
+    expect(resp.toolCalls).toEqual([
+      { id: "call_text_0", name: "shell", arguments: { command: "ls" } },
+    ]);
+    expect(resp.content).toBe("Checking");
+    expect(resp.finishReason).toBe("tool_calls");
+  });
+
+  it("keeps fenced JSON that isn't a tool call on the live display", async () => {
+    const tokens = ["Here:\n```json\n", '{"total": 3}', "\n```"];
+    const client = new TextToolCallClient(streamingClient(tokens), "fenced-json");
+    const shown: string[] = [];
+
+    const resp = await client.chat([], undefined, (t) => shown.push(t));
+
+    expect(shown.join("")).toBe(tokens.join(""));
+    expect(resp.toolCalls).toEqual([]);
+  });
+
+  it("keeps native tool calls when the model used them", async () => {
+    const native = [{ id: "n1", name: "echo", arguments: {} }];
+    const client = new TextToolCallClient(streamingClient(["hi"], native), "hermes");
+
+    const resp = await client.chat([]);
+    expect(resp.toolCalls).toBe(native);
+  });
+});
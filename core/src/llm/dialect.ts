@@ -0,0 +1,213 @@
+/**
+ * Text-embedded tool calls — for models without native function calling.
+ *
+ * Many Qwen/Hermes/Llama builds served by exo or llama.cpp write tool calls
+ * into the content stream instead of delta.tool_calls:
+ *   - "hermes":      <tool_call>{"name": "...", "arguments": {...}}</tool_call>
+ *   - "fenced-json": ```json {"name": "...", "arguments": {...}} ```
+ *
+ * TextToolCallClient wraps any ChatClient: it hides the blocks that are tool
+ * calls from the live token display (like processThinkBuffer does for <think>)
+ * and turns them into proper ToolCalls once the response is complete.
+ */
+
+import type { ToolCallDialect } from "../config/loader.js";
+import type {
+  ChatClient,
+  ChatMessage,
+  LLMClientOptions,
+  LLMResponse,
+  OnTokenCallback,
+  ToolCall,
+  ToolDefinition,
+} from "./client.js";
+import type { ChatOptions } from "./schema.js";
+
+const MARKERS: Record<Exclude<ToolCallDialect, "native">, { open: string; close: string }> = {
+  hermes: { open: "<tool_call>", close: "</tool_call>" },
+  "fenced-json": { open: "```json", close: "```" },
+};
+
+/**
+ * Streaming filter for blocks between an open and close marker. A block is
+ * held back until it closes, then dropped if `hide` says so and shown whole
+ * otherwise. Markers split across chunks are held back until they can be
+ * decided, the same way processThinkBuffer handles partial <think> tags.
+ */
+export class MarkerFilter {
+  private readonly open: string;
+  private readonly close: string;
+  private readonly hide: (block: string) => boolean;
+  private buffer = "";
+  private block = "";
+  private inside = false;
+
+  /** `hide` decides each block by its content; by default every block is dropped. */
+  constructor(open: string, close: string, hide: (block: string) => boolean = () => true) {
+    this.open = open;
+    this.close = close;
+    this.hide = hide;
+  }
+
+  /** Feed a chunk; returns the text that is safe to display now. */
+  push(chunk: string): string {
+    this.buffer += chunk;
+    let out = "";
+
+    while (this.buffer.length > 0) {
+      const marker = this.inside ? this.close : this.open;
+      const idx = this.buffer.indexOf(marker);
+      if (idx !== -1) {
+        if (this.inside) out += this.release(this.block + this.buffer.slice(0, idx), true);
+        else out += this.buffer.slice(0, idx);
+        this.buffer = this.buffer.slice(idx + marker.length);
+        this.inside = !this.inside;
+        continue;
+      }
+      // Hold back a trailing partial marker; release (or collect) the rest
+      const keep = partialSuffixLength(this.buffer, marker);
+      const ready = this.buffer.slice(0, this.buffer.length - keep);
+      if (this.inside) this.block += ready;
+      else out += ready;
+      this.buffer = this.buffer.slice(this.buffer.length - keep);
+      break;
+    }
+
+    return out;
+  }
+
+  /** End of stream: release held-back text, and an unterminated block unless it's hidden. */
+  flush(): string {
+    const rest = this.inside ? this.release(this.block + this.buffer, false) : this.buffer;
+    this.buffer = "";
+    this.inside = false;
+    return rest;
+  }
+
+  /** A finished block as it should be displayed — nothing if it's hidden. */
+  private release(block: string, closed: boolean): string {
+    this.block = "";
+    if (this.hide(block)) return "";
+    return `${this.open}${block}${closed ? this.close : ""}`;
+  }
+}
+
+/** Length of the longest suffix of text that is a proper prefix of marker. */
+function partialSuffixLength(text: string, marker: string): number {
+  for (let i = Math.min(marker.length - 1, text.length); i > 0; i--) {
+    if (text.endsWith(marker.slice(0, i))) return i;
+  }
+  return 0;
+}
+
+/** Parse one embedded block into a ToolCall, or null if it isn't one. */
+function parseToolCallJson(raw: string, id: string): ToolCall | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.trim());
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== "object" || parsed === null) return null;
+  const obj = parsed as Record<string, unknown>;
+  if (typeof obj.name !== "string") return null;
+
+  let args = obj.arguments ?? obj.parameters ?? {};
+  if (typeof args === "string") {
+    try {
+      args = JSON.parse(args);
+    } catch {
+      return null;
+    }
+  }
+  if (typeof args !== "object" || args === null) return null;
+  return { id, name: obj.name, arguments: args as Record<string, unknown> };
+}
+
+/**
+ * Pull embedded tool calls out of final content. Blocks that don't parse as
+ * a tool call are left in the content so nothing the model wrote is lost.
+ */
+export function extractTextToolCalls(
+  content: string,
+  dialect: ToolCallDialect,
+): { content: string; toolCalls: ToolCall[] } {
+  if (dialect === "native") return { content, toolCalls: [] };
+  const { open, close } = MARKERS[dialect];
+  const toolCalls: ToolCall[] = [];
+  let remaining = "";
+  let pos = 0;
+
+  while (pos < content.length) {
+    const start = content.indexOf(open, pos);
+    if (start === -1) break;
+    const end = content.indexOf(close, start + open.length);
+    if (end === -1) break;
+    const call = parseToolCallJson(
+      content.slice(start + open.length, end),
+      `call_text_${toolCalls.length}`,
+    );
+    if (call) {
+      remaining += content.slice(pos, start);
+      toolCalls.push(call);
+    } else {
+      remaining += content.slice(pos, end + close.length);
+    }
+    pos = end + close.length;
+  }
+  remaining += content.slice(pos);
+
+  return { content: toolCalls.length > 0 ? remaining.trim() : content, toolCalls };
+}
+
+export class TextToolCallClient implements ChatClient {
+  readonly inner: ChatClient;
+  readonly dialect: Exclude<ToolCallDialect, "native">;
+
+  constructor(inner: ChatClient, dialect: Exclude<ToolCallDialect, "native">) {
+    this.inner = inner;
+    this.dialect = dialect;
+  }
+
+  get opts(): LLMClientOptions {
+    return this.inner.opts;
+  }
+
+  async chat(
+    messages: ChatMessage[],
+    tools?: ToolDefinition[],
+    onToken?: OnTokenCallback,
+    signal?: AbortSignal,
+    options?: ChatOptions,
+  ): Promise<LLMResponse> {
+    const { open, close } = MARKERS[this.dialect];
+    // Only blocks that are tool calls are hidden; other JSON the model writes stays visible
+    const filter = new MarkerFilter(open, close, (block) => parseToolCallJson(block, "") !== null);
+    const filteredOnToken: OnTokenCallback | undefined = onToken
+      ? (token, isThinking) => {
+          if (isThinking) {
+            onToken(token, true);
+            return;
+          }
+          const visible = filter.push(token);
+          if (visible) onToken(visible, false);
+        }
+      : undefined;
+
+    const response = await this.inner.chat(messages, tools, filteredOnToken, signal, options);
+    const tail = filter.flush();
+    if (tail) onToken?.(tail, false);
+
+    // A model that did use native tool calls wins — don't double up
+    if (response.toolCalls.length > 0 || !response.content) return response;
+
+    const extracted = extractTextToolCalls(response.content, this.dialect);
+    if (extracted.toolCalls.length === 0) return response;
+    return {
+      ...response,
+      content: extracted.content || null,
+      toolCalls: extracted.toolCalls,
+      finishReason: "tool_calls",
+    };
+  }
+}
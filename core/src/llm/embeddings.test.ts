@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from "vitest";
+import { LLMRequestError } from "../errors.js";
+import { EmbeddingsClient } from "./embeddings.js";
+
+function fakeFetch(status: number, body: unknown) {
+  return vi.fn(async (_url: string | URL | Request, _init?: RequestInit) => {
+    return new Response(JSON.stringify(body), { status });
+  });
+}
+
+describe("EmbeddingsClient", () => {
+  it("posts to /embeddings and returns vectors in input order", async () => {
+    const fetch = fakeFetch(200, {
+      data: [
+        { index: 1, embedding: [0, 1] },
+        { index: 0, embedding: [1, 0] },
+      ],
+    });
+    const client = new EmbeddingsClient({
+      baseUrl: "http://x/v1",
+      model: "embed",
+      apiKey: "k",
+      fetch: fetch as typeof globalThis.fetch,
+    });
+
+    const vectors = await client.embed(["a", "b"]);
+
+    expect(vectors).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe("http://x/v1/embeddings");
+    expect(JSON.parse(init?.body as string)).toEqual({ model: "embed", input: ["a", "b"] });
+    expect((init?.headers as Record<string, string>).Authorization).toBe("Bearer k");
+  });
+
+  it("uses /api/embed for ollama-native providers", async () => {
+    const fetch = fakeFetch(200, { embeddings: [[0.5, 0.5]] });
+    const client = new EmbeddingsClient({
+      baseUrl: "http://localhost:11434",
+      model: "nomic-embed-text",
+      type: "ollama-native",
+      fetch: fetch as typeof globalThis.fetch,
+    });
+
+    expect(await client.embed(["a"])).toEqual([[0.5, 0.5]]);
+    expect(fetch.mock.calls[0][0]).toBe("http://localhost:11434/api/embed");
+  });
+
+  it("skips the request for an empty batch", async () => {
+    const fetch = fakeFetch(200, {});
+    const client = new EmbeddingsClient({
+      baseUrl: "http://x/v1",
+      model: "embed",
+      fetch: fetch as typeof globalThis.fetch,
+    });
+
+    expect(await client.embed([])).toEqual([]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("reports an unknown model as not_found", async () => {
+    const client = new EmbeddingsClient({
+      baseUrl: "http://x/v1",
+      model: "missing",
+      fetch: fakeFetch(404, {}) as typeof globalThis.fetch,
+    });
+
+    const err = await client.embed(["a"]).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(LLMRequestError);
+    expect((err as LLMRequestError).kind).toBe("not_found");
+    expect((err as Error).message).toContain('Model "missing" not found');
+  });
+
+  it("rejects a response with the wrong number of vectors", async () => {
+    const client = new EmbeddingsClient({
+      baseUrl: "http://x/v1",
+      model: "embed",
+      fetch: fakeFetch(200, { data: [] }) as typeof globalThis.fetch,
+    });
+
+    await expect(client.embed(["a"])).rejects.toThrow("0 vectors for 1 inputs");
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Embeddings client — turns text into vectors for semantic search.
+ *
+ * OpenAI-compatible servers (and Ollama's /v1 endpoint) answer at
+ * POST /embeddings; Ollama's native API at POST /api/embed. Unlike chat,
+ * the response is a single JSON body, so there's no streaming here.
+ */
+
+import { LLMRequestError, UserAbortError } from "../errors.js";
+import { modelNotFoundError, toConnectionError } from "./http.js";
+import { apiRoot } from "./ollama.js";
+
+/** Embedding a batch of journal entries is quick — don't hang a turn on a dead server. */
+const EMBEDDINGS_TIMEOUT_MS = 60_000;
+
+export interface EmbeddingsClientOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  /** Wire format of the provider serving the model. Defaults to "openai". */
+  type?: "openai" | "ollama-native";
+  /** fetch to use instead of the global one — for tests. */
+  fetch?: typeof fetch;
+}
+
+export class EmbeddingsClient {
+  readonly opts: EmbeddingsClientOptions;
+
+  constructor(opts: EmbeddingsClientOptions) {
+    this.opts = opts;
+  }
+
+  /** Embed each text; vectors come back in input order. */
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const native = this.opts.type === "ollama-native";
+    const url = native
+      ? `${apiRoot(this.opts.baseUrl)}/api/embed`
+      : `${this.opts.baseUrl}/embeddings`;
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.opts.apiKey) headers.Authorization = `Bearer ${this.opts.apiKey}`;
+
+    const timeoutSignal = AbortSignal.timeout(EMBEDDINGS_TIMEOUT_MS);
+    const combinedSignal = signal ? AbortSignal.any([timeoutSignal, signal]) : timeoutSignal;
+    let resp: Response;
+    try {
+      resp = await (this.opts.fetch ?? fetch)(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ model: this.opts.model, input: texts }),
+        signal: combinedSignal,
+      });
+    } catch (err: unknown) {
+      if (signal?.aborted) throw new UserAbortError();
+      throw toConnectionError(err, this.opts.baseUrl);
+    }
+
+    if (resp.status === 404) {
+      const listUrl = native
+        ? `${apiRoot(this.opts.baseUrl)}/api/tags`
+        : `${this.opts.baseUrl}/models`;
+      throw modelNotFoundError(this.opts.model, this.opts.baseUrl, listUrl);
+    }
+    if (!resp.ok) {
+      throw new LLMRequestError(
+        `Embeddings request failed (${resp.status}): ${await resp.text()}`,
+        {
+          kind: "http",
+          status: resp.status,
+        },
+      );
+    }
+
+    const vectors = parseEmbeddings(await resp.json());
+    if (vectors.length !== texts.length) {
+      throw new LLMRequestError(
+        `Embeddings response has ${vectors.length} vectors for ${texts.length} inputs.`,
+        { kind: "http", status: resp.status },
+      );
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Pull vectors out of either response shape: OpenAI's
+ * { data: [{ index, embedding }] } or Ollama's { embeddings: [[...]] }.
+ */
+function parseEmbeddings(body: unknown): number[][] {
+  if (typeof body !== "object" || body === null) return [];
+  const obj = body as {
+    data?: Array<{ index?: number; embedding?: number[] }>;
+    embeddings?: number[][];
+  };
+  if (Array.isArray(obj.embeddings)) return obj.embeddings;
+  return [...(obj.data ?? [])]
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    .map((d) => d.embedding ?? []);
+}
@@ -0,0 +1,141 @@
+/**
+ * Client factory — picks the ChatClient implementation for a provider entry.
+ *
+ * Callers (CLI, daemon) pass a provider config and get back something that
+ * satisfies ChatClient, without knowing which wire protocol is in use.
+ */
+
+import {
+  type AgentConfig,
+  type EphileoConfig,
+  getProviderChain,
+  type ProviderConfig,
+  resolveRetry,
+} from "../config/loader.js";
+import { AnthropicClient } from "./anthropic.js";
+import { type ChatClient, LLMClient } from "./client.js";
+import { type CostLedger, CostTrackingClient } from "./cost.js";
+import { TextToolCallClient } from "./dialect.js";
+import { EmbeddingsClient } from "./embeddings.js";
+import { FallbackClient } from "./fallback.js";
+import { OllamaClient } from "./ollama.js";
+import { FixtureRecorder, loadFixture, ReplayClient } from "./replay.js";
+import { RetryingClient } from "./retry.js";
+
+/**
+ * Build the client for the configured provider chain. A single provider
+ * yields its client directly; a list yields a FallbackClient over all of them.
+ * With a ledger, calls to providers that have prices are costed into it and
+ * held to cost.dailyCap.
+ */
+export function createAgentClient(config: EphileoConfig, ledger?: CostLedger): ChatClient {
+  const recorder = config.record ? new FixtureRecorder(config.record) : undefined;
+  const chain = getProviderChain(config).map(({ name, provider }) => {
+    const client = createLLMClient(provider, config.agent, recorder);
+    if (!ledger || !provider.prices) return { name, client };
+    return {
+      name,
+      client: new CostTrackingClient(client, {
+        provider: name,
+        prices: provider.prices,
+        ledger,
+        dailyCap: config.cost.dailyCap,
+      }),
+    };
+  });
+  return chain.length === 1 ? chain[0].client : new FallbackClient(chain);
+}
+
+/**
+ * Build the client for a provider, with text tool-call parsing for its
+ * dialect and the resolved retry policy layered on top. With a recorder,
+ * every exchange is also written to its fixture file.
+ */
+export function createLLMClient(
+  provider: ProviderConfig,
+  agent: AgentConfig,
+  recorder?: FixtureRecorder,
+): ChatClient {
+  let client =
+    provider.type === "replay"
+      ? createReplayClient(provider, agent.maxTokens)
+      : createBaseClient(provider, agent.maxTokens, recorder?.wrap(provider.type ?? "openai"));
+  const dialect = provider.toolCallDialect ?? "native";
+  if (dialect !== "native") client = new TextToolCallClient(client, dialect);
+  const retry = resolveRetry(provider, agent);
+  return retry.maxAttempts > 1 ? new RetryingClient(client, retry) : client;
+}
+
+/**
+ * Build the embeddings client for semantic memory recall, or undefined when
+ * memory.embeddings isn't configured. Reuses the named provider's URL and key.
+ */
+export function createEmbeddingsClient(config: EphileoConfig): EmbeddingsClient | undefined {
+  const embeddings = config.memory.embeddings;
+  if (!embeddings) return undefined;
+  const provider = config.providers[embeddings.provider];
+  return new EmbeddingsClient({
+    baseUrl: provider.baseUrl,
+    model: embeddings.model,
+    apiKey: provider.apiKey,
+    type: provider.type === "ollama-native" ? "ollama-native" : "openai",
+  });
+}
+
+/** Serve a recorded fixture through real clients of the recorded wire formats. */
+function createReplayClient(provider: ProviderConfig, maxTokens: number): ChatClient {
+  const fixture = loadFixture(provider.fixture ?? "");
+  const recorded = fixture.exchanges[0]?.request as { model?: unknown } | undefined;
+  const model = provider.model ?? (typeof recorded?.model === "string" ? recorded.model : "replay");
+  const replayed: ProviderConfig = { ...provider, baseUrl: provider.baseUrl ?? "replay", model };
+  return new ReplayClient(
+    fixture,
+    { baseUrl: replayed.baseUrl, model, maxTokens },
+    (type, fetch) => createBaseClient({ ...replayed, type }, maxTokens, fetch),
+    { strict: provider.strict },
+  );
+}
+
+function createBaseClient(
+  provider: ProviderConfig,
+  maxTokens: number,
+  fetch?: typeof globalThis.fetch,
+): ChatClient {
+  const base = {
+    baseUrl: provider.baseUrl,
+    model: provider.model,
+    apiKey: provider.apiKey,
+    maxTokens,
+    thinkTag: provider.thinkTag,
+    sampling: {
+      temperature: provider.temperature,
+      topP: provider.topP,
+      stop: provider.stop,
+      seed: provider.seed,
+    },
+    supportsTools: provider.supportsTools,
+    fetch,
+    timeouts: { totalMs: provider.timeoutMs, idleMs: provider.idleTimeoutMs },
+  };
+  // Don't ask a model for reasoning it can't produce, whatever else is configured
+  const canThink = provider.supportsThinking !== false;
+
+  switch (provider.type ?? "openai") {
+    case "ollama-native":
+      return new OllamaClient({
+        ...base,
+        numCtx: provider.numCtx ?? provider.contextWindow,
+        keepAlive: provider.keepAlive,
+        think: canThink ? provider.think : undefined,
+      });
+    case "anthropic":
+      return new AnthropicClient({
+        ...base,
+        thinkingBudget: canThink ? provider.thinkingBudget : undefined,
+      });
+    case "openai":
+      return new LLMClient({ ...base, streamUsage: provider.streamUsage });
+    case "replay":
+      throw new Error("replay providers are built by createReplayClient");
+  }
+}
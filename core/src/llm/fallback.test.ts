@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+import { BudgetExceededError, LLMRequestError } from "../errors.js";
+import type { LLMResponse } from "./client.js";
+import { FallbackClient } from "./fallback.js";
+
+function response(content: string): LLMResponse {
+  return { content, thinking: null, toolCalls: [], finishReason: "stop" };
+}
+
+function okClient(model: string, content: string) {
+  return {
+    opts: { baseUrl: `http://${model}`, model, maxTokens: 100 },
+    chat: vi.fn(async () => response(content)),
+  };
+}
+
+function failingClient(model: string, err: unknown) {
+  return {
+    opts: { baseUrl: `http://${model}`, model, maxTokens: 100 },
+    chat: vi.fn(async (): Promise<LLMResponse> => {
+      throw err;
+    }),
+  };
+}
+
+const refused = () => new LLMRequestError("Could not connect to LLM", { kind: "connection" });
+
+describe("FallbackClient", () => {
+  it("uses the first provider when it answers", async () => {
+    const exo = okClient("exo-model", "from exo");
+    const ollama = okClient("ollama-model", "from ollama");
+    const client = new FallbackClient([
+      { name: "exo", client: exo },
+      { name: "ollama", client: ollama },
+    ]);
+
+    const resp = await client.chat([{ role: "user", content: "hi" }]);
+    expect(resp.content).toBe("from exo");
+    expect(client.activeProvider).toBe("exo");
+    expect(ollama.chat).not.toHaveBeenCalled();
+  });
+
+  it("fails over on connection errors and records who answered", async () => {
+    const client = new FallbackClient([
+      { name: "exo", client: failingClient("exo-model", refused()) },
+      { name: "ollama", client: okClient("ollama-model", "from ollama") },
+    ]);
+
+    const resp = await client.chat([{ role: "user", content: "hi" }]);
+    expect(resp.content).toBe("from ollama");
+    expect(client.activeProvider).toBe("ollama");
+    expect(client.opts.model).toBe("ollama-model");
+  });
+
+  it("fails over on 404 model-not-found", async () => {
+    const client = new FallbackClient([
+      {
+        name: "exo",
+        client: failingClient("exo-model", new LLMRequestError("404", { kind: "not_found" })),
+      },
+      { name: "ollama", client: okClient("ollama-model", "ok") },
+    ]);
+
+    await client.chat([]);
+    expect(client.activeProvider).toBe("ollama");
+  });
+
+  it("does not fail over on other errors", async () => {
+    const ollama = okClient("ollama-model", "ok");
+    const client = new FallbackClient([
+      {
+        name: "exo",
+        client: failingClient(
+          "exo-model",
+          new LLMRequestError("bad request", { kind: "http", status: 400 }),
+        ),
+      },
+      { name: "ollama", client: ollama },
+    ]);
+
+    await expect(client.chat([])).rejects.toThrow("bad request");
+    expect(ollama.chat).not.toHaveBeenCalled();
+  });
+
+  it("goes back to the primary once it recovers", async () => {
+    const exo = failingClient("exo-model", refused());
+    const client = new FallbackClient([
+      { name: "exo", client: exo },
+      { name: "ollama", client: okClient("ollama-model", "ok") },
+    ]);
+    await client.chat([]);
+    expect(client.activeProvider).toBe("ollama");
+
+    exo.chat.mockResolvedValueOnce(response("exo is back"));
+    const resp = await client.chat([]);
+    expect(resp.content).toBe("exo is back");
+    expect(client.activeProvider).toBe("exo");
+  });
+
+  it("lists every provider when all are unavailable", async () => {
+    const client = new FallbackClient([
+      { name: "exo", client: failingClient("a", refused()) },
+      { name: "ollama", client: failingClient("b", refused()) },
+    ]);
+
+    await expect(client.chat([])).rejects.toThrow("No provider could answer (tried exo, ollama)");
+  });
+
+  it("moves on from a provider over the daily spending cap", async () => {
+    const client = new FallbackClient([
+      {
+        name: "openrouter",
+        client: failingClient("a", new BudgetExceededError("openrouter", 2, 2)),
+      },
+      { name: "ollama", client: okClient("b", "from ollama") },
+    ]);
+
+    const resp = await client.chat([]);
+    expect(resp.content).toBe("from ollama");
+  });
+
+  it("keeps the budget error when every provider is over the cap or down", async () => {
+    const client = new FallbackClient([
+      { name: "exo", client: failingClient("a", refused()) },
+      {
+        name: "openrouter",
+        client: failingClient("b", new BudgetExceededError("openrouter", 3, 2)),
+      },
+    ]);
+
+    const err = await client.chat([]).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(BudgetExceededError);
+    expect((err as Error).message).toContain("No provider could answer (tried exo, openrouter)");
+  });
+});
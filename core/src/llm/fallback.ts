@@ -0,0 +1,80 @@
+/**
+ * Fallback client — tries an ordered chain of providers until one answers.
+ *
+ * Used when `provider` in config.yaml is a list such as [exo, ollama, openrouter].
+ * A provider is skipped when it can't be reached, doesn't have the model
+ * (404) or is over the daily spending cap; any other failure is the
+ * provider's real answer and is thrown as-is.
+ * Every call starts from the top of the chain, so a local model that comes
+ * back online is picked up again on the next turn.
+ */
+
+import { BudgetExceededError, LLMRequestError } from "../errors.js";
+import type {
+  ChatClient,
+  ChatMessage,
+  LLMClientOptions,
+  LLMResponse,
+  OnTokenCallback,
+  ToolDefinition,
+} from "./client.js";
+import type { ChatOptions } from "./schema.js";
+
+export interface NamedClient {
+  name: string;
+  client: ChatClient;
+}
+
+/** Errors that mean "this provider is unavailable", not "this request was bad". */
+function isUnavailable(err: unknown): err is LLMRequestError | BudgetExceededError {
+  if (err instanceof BudgetExceededError) return true;
+  return err instanceof LLMRequestError && (err.kind === "connection" || err.kind === "not_found");
+}
+
+export class FallbackClient implements ChatClient {
+  readonly chain: readonly NamedClient[];
+  /** Name of the provider that answered the most recent call (initially the first). */
+  activeProvider: string;
+
+  constructor(chain: NamedClient[]) {
+    if (chain.length === 0) throw new Error("FallbackClient needs at least one provider");
+    this.chain = chain;
+    this.activeProvider = chain[0].name;
+  }
+
+  /** Options of the provider that answered last — model name for banners etc. */
+  get opts(): LLMClientOptions {
+    const active = this.chain.find((c) => c.name === this.activeProvider) ?? this.chain[0];
+    return active.client.opts;
+  }
+
+  async chat(
+    messages: ChatMessage[],
+    tools?: ToolDefinition[],
+    onToken?: OnTokenCallback,
+    signal?: AbortSignal,
+    options?: ChatOptions,
+  ): Promise<LLMResponse> {
+    const failures: Array<{ name: string; err: LLMRequestError | BudgetExceededError }> = [];
+
+    for (const { name, client } of this.chain) {
+      try {
+        const response = await client.chat(messages, tools, onToken, signal, options);
+        this.activeProvider = name;
+        return response;
+      } catch (err: unknown) {
+        if (!isUnavailable(err)) throw err;
+        failures.push({ name, err });
+      }
+    }
+
+    if (failures.length === 1) throw failures[0].err;
+    const last = failures[failures.length - 1].err;
+    const message =
+      `No provider could answer (tried ${failures.map((f) => f.name).join(", ")}).\n` +
+      failures.map((f) => `${f.name}: ${f.err.message.split("\n")[0]}`).join("\n");
+    if (last instanceof BudgetExceededError)
+      throw new BudgetExceededError(last.provider, last.spent, last.cap, message);
+    throw new LLMRequestError(message, { kind: last.kind, status: last.status });
+  }
+}
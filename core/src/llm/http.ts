@@ -0,0 +1,262 @@
+/**
+ * HTTP plumbing shared by every provider client.
+ *
+ * Opens a streaming POST with the request timeout and user abort signal wired
+ * together, maps transport failures to friendly errors, and splits the
+ * response body into lines. Clients only deal with their own wire format.
+ */
+
+import { LLMRequestError, StreamTimeoutError, UserAbortError } from "../errors.js";
+
+/** Whole-request limit. Generous — stalls are caught by the idle timeout instead. */
+export const DEFAULT_TOTAL_TIMEOUT_MS = 900_000;
+/** Longest silence between chunks before the stream counts as stalled. */
+export const DEFAULT_IDLE_TIMEOUT_MS = 120_000;
+
+/** Per-provider time limits for a streaming request. */
+export interface StreamTimeouts {
+  /** Limit for the whole request, headers to last chunk. */
+  totalMs?: number;
+  /** Limit on the wait for response headers and on the gap between chunks. 0 disables it. */
+  idleMs?: number;
+}
+
+/** Statuses worth retrying besides 5xx: rate limiting and request timeout. */
+const RETRYABLE_STATUSES = new Set([408, 429]);
+
+/** Socket-level failures that mean "try again", as opposed to "nothing is listening". */
+const RESET_CODES = new Set([
+  "ECONNRESET",
+  "EPIPE",
+  "ETIMEDOUT",
+  "ECONNABORTED",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CLOSED",
+]);
+
+export interface StreamRequest {
+  url: string;
+  headers: Record<string, string>;
+  payload: unknown;
+  signal?: AbortSignal;
+  /** Provider base URL and model — used in error messages only. */
+  baseUrl: string;
+  model: string;
+  /** URL the user can curl to list available models (shown on 404). */
+  modelsUrl: string;
+  /** fetch to use instead of the global one — for recording and replay. */
+  fetch?: typeof fetch;
+  timeouts?: StreamTimeouts;
+}
+
+/**
+ * POST the payload and return the streaming response body.
+ * Throws UserAbortError if the user cancelled, StreamTimeoutError when the
+ * request runs out of time or no headers arrive within the idle timeout, and
+ * LLMRequestError for connection failures, 404s and other non-OK statuses.
+ * The body errors with StreamTimeoutError when it stalls or the total time
+ * runs out mid-stream.
+ */
+export async function openStream(req: StreamRequest): Promise<ReadableStream<Uint8Array>> {
+  const totalMs = req.timeouts?.totalMs ?? DEFAULT_TOTAL_TIMEOUT_MS;
+  const idleMs = req.timeouts?.idleMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  // Combine user-supplied abort signal with the timeout signal
+  const timeoutSignal = AbortSignal.timeout(totalMs);
+  const combinedSignal = req.signal ? AbortSignal.any([timeoutSignal, req.signal]) : timeoutSignal;
+  // A server that accepts the connection but never answers counts as stalled too
+  const headersWait = new AbortController();
+  const headersTimer = idleMs > 0 ? setTimeout(() => headersWait.abort(), idleMs) : undefined;
+
+  let resp: Response;
+  try {
+    resp = await (req.fetch ?? fetch)(req.url, {
+      method: "POST",
+      headers: req.headers,
+      body: JSON.stringify(req.payload),
+      signal: AbortSignal.any([combinedSignal, headersWait.signal]),
+    });
+  } catch (err: unknown) {
+    if (req.signal?.aborted) throw new UserAbortError();
+    if (timeoutSignal.aborted) throw new StreamTimeoutError("total", totalMs, req.baseUrl);
+    if (headersWait.signal.aborted) throw new StreamTimeoutError("idle", idleMs, req.baseUrl);
+    throw toConnectionError(err, req.baseUrl);
+  } finally {
+    clearTimeout(headersTimer);
+  }
+
+  if (resp.status === 404) {
+    throw modelNotFoundError(req.model, req.baseUrl, req.modelsUrl);
+  }
+
+  if (!resp.ok) {
+    const body = await resp.text();
+    throw new LLMRequestError(`LLM request failed (${resp.status}): ${body}`, {
+      kind: "http",
+      status: resp.status,
+      retryable: RETRYABLE_STATUSES.has(resp.status) || resp.status >= 500,
+      retryAfterMs: parseRetryAfter(resp.headers.get("retry-after")),
+    });
+  }
+
+  if (!resp.body) {
+    throw new Error("LLM response has no body");
+  }
+  return watchStream(resp.body, {
+    idleMs,
+    totalMs,
+    signal: combinedSignal,
+    timeoutSignal,
+    userSignal: req.signal,
+    baseUrl: req.baseUrl,
+  });
+}
+
+/**
+ * Pass the body through, failing it with StreamTimeoutError when no chunk
+ * arrives within idleMs of being asked for, or when the total timeout fires
+ * mid-stream. A user abort ends the read at once with the abort reason.
+ */
+function watchStream(
+  body: ReadableStream<Uint8Array>,
+  watch: {
+    idleMs: number;
+    totalMs: number;
+    signal: AbortSignal;
+    timeoutSignal: AbortSignal;
+    userSignal?: AbortSignal;
+    baseUrl: string;
+  },
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let onAbort: (() => void) | undefined;
+      const interrupted = new Promise<never>((_, reject) => {
+        if (watch.idleMs > 0) {
+          timer = setTimeout(
+            () => reject(new StreamTimeoutError("idle", watch.idleMs, watch.baseUrl)),
+            watch.idleMs,
+          );
+        }
+        onAbort = () => reject(watch.signal.reason);
+        if (watch.signal.aborted) onAbort();
+        else watch.signal.addEventListener("abort", onAbort, { once: true });
+      });
+      try {
+        const { done, value } = await Promise.race([reader.read(), interrupted]);
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (err: unknown) {
+        reader.cancel().catch(() => {});
+        if (watch.timeoutSignal.aborted && !watch.userSignal?.aborted) {
+          controller.error(new StreamTimeoutError("total", watch.totalMs, watch.baseUrl));
+        } else {
+          controller.error(err);
+        }
+      } finally {
+        clearTimeout(timer);
+        if (onAbort) watch.signal.removeEventListener("abort", onAbort);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Yield complete lines from a streaming body as they arrive.
+ * On abort, throws UserAbortError carrying whatever partial() returns, so the
+ * caller's accumulated content survives the cancellation.
+ */
+export async function* readLines(
+  body: ReadableStream<Uint8Array>,
+  signal: AbortSignal | undefined,
+  partial: () => string,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    let readResult: ReadableStreamReadResult<Uint8Array>;
+    try {
+      readResult = await reader.read();
+    } catch (err: unknown) {
+      if (signal?.aborted) throw new UserAbortError("Operation cancelled by user", partial());
+      if (err instanceof StreamTimeoutError) throw err.withPartialContent(partial());
+      throw new LLMRequestError("Stream read failed", { kind: "stream", retryable: true });
+    }
+    const { done, value } = readResult;
+    if (done) break;
+    if (signal?.aborted) throw new UserAbortError("Operation cancelled by user", partial());
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? ""; // keep incomplete last line in buffer
+    yield* lines;
+  }
+
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns undefined when the header is missing or unparseable.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Map a fetch() failure to an LLMRequestError. Refusals get a hint about
+ * starting the provider; resets and timeouts are marked retryable. Anything
+ * that isn't a network failure is returned as-is.
+ */
+export function toConnectionError(err: unknown, baseUrl: string): unknown {
+  const msg = err instanceof Error ? err.message : String(err);
+  if (!msg.includes("ECONNREFUSED") && !msg.includes("fetch failed")) return err;
+
+  const code = errorCode(err);
+  if (code && RESET_CODES.has(code)) {
+    return new LLMRequestError(`Connection to LLM at ${baseUrl} was interrupted (${code}).`, {
+      kind: "connection",
+      retryable: true,
+    });
+  }
+  return new LLMRequestError(
+    `Could not connect to LLM at ${baseUrl}.\n` +
+      "Make sure your LLM provider (exo, ollama, etc.) is running.\n" +
+      "You can change the provider in config/config.yaml under 'provider' and 'providers'.",
+    { kind: "connection" },
+  );
+}
+
+/** Error for a 404 response — almost always a wrong model name in config. */
+export function modelNotFoundError(model: string, baseUrl: string, listUrl: string): Error {
+  return new LLMRequestError(
+    `Model "${model}" not found at ${baseUrl} (404).\n` +
+      "Check that the model name is correct in config/config.yaml under providers.<your-provider>.model.\n" +
+      `Run 'curl ${listUrl}' to see available models.`,
+    { kind: "not_found", status: 404 },
+  );
+}
+
+/** Pull the system error code (ECONNRESET etc.) out of undici's "fetch failed" cause chain. */
+function errorCode(err: unknown): string | undefined {
+  let current: unknown = err;
+  for (let depth = 0; depth < 3 && current; depth++) {
+    if (typeof current === "object" && "code" in current && typeof current.code === "string") {
+      return current.code;
+    }
+    current = current instanceof Error ? current.cause : undefined;
+  }
+  return undefined;
+}
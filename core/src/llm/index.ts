@@ -1,9 +1,61 @@
+export type { AnthropicClientOptions } from "./anthropic.js";
+export { AnthropicClient, toAnthropicMessages, toAnthropicTools } from "./anthropic.js";
 export type {
+  ChatClient,
   ChatMessage,
+  ContentPart,
+  ImageContentPart,
   LLMClientOptions,
   LLMResponse,
+  MessageContent,
   OnTokenCallback,
+  SamplingOptions,
+  TextContentPart,
   ToolCall,
   ToolDefinition,
 } from "./client.js";
-export { LLMClient, processThinkBuffer } from "./client.js";
+export {
+  contentImages,
+  contentText,
+  DEFAULT_THINK_TAG,
+  extractThinking,
+  LLMClient,
+  parseDataUrl,
+  parseToolArguments,
+  processThinkBuffer,
+  ReasoningDisplay,
+} from "./client.js";
+export type { CostRecord, CostTrackingOptions } from "./cost.js";
+export { COST_LEDGER_FILE, CostLedger, CostTrackingClient, callCost, localDay } from "./cost.js";
+export { extractTextToolCalls, MarkerFilter, TextToolCallClient } from "./dialect.js";
+export type { EmbeddingsClientOptions } from "./embeddings.js";
+export { EmbeddingsClient } from "./embeddings.js";
+export { createAgentClient, createEmbeddingsClient, createLLMClient } from "./factory.js";
+export type { NamedClient } from "./fallback.js";
+export { FallbackClient } from "./fallback.js";
+export { listModels } from "./models.js";
+export type { OllamaClientOptions } from "./ollama.js";
+export { OllamaClient, toOllamaMessages } from "./ollama.js";
+export type {
+  Fixture,
+  RecordedExchange,
+  ReplayClientFactory,
+  ReplayOptions,
+} from "./replay.js";
+export { FixtureRecorder, loadFixture, ReplayClient } from "./replay.js";
+export { computeRetryDelay, RetryingClient } from "./retry.js";
+export type { ChatOptions, JsonSchema } from "./schema.js";
+export {
+  parseJsonContent,
+  RESPONSE_SCHEMA_NAME,
+  schemaInstruction,
+  validateJsonSchema,
+} from "./schema.js";
+export type { TokenUsage } from "./usage.js";
+export {
+  addUsage,
+  estimateMessageTokens,
+  estimatePromptTokens,
+  estimateTokens,
+  ZERO_USAGE,
+} from "./usage.js";
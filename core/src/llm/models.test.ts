@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LLMRequestError } from "../errors.js";
+import { listModels } from "./models.js";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function stubFetch(status: number, body: unknown) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("listModels", () => {
+  it("reads OpenAI-style listings from /models", async () => {
+    const fetchMock = stubFetch(200, { data: [{ id: "b" }, { id: "a" }] });
+
+    const models = await listModels({ baseUrl: "http://x/v1", model: "a", apiKey: "k" });
+
+    expect(models).toEqual(["a", "b"]);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://x/v1/models");
+    expect(init.headers).toEqual({ Authorization: "Bearer k" });
+  });
+
+  it("reads Ollama's /api/tags for ollama-native providers", async () => {
+    const fetchMock = stubFetch(200, { models: [{ name: "llama3:8b" }] });
+
+    const models = await listModels({
+      baseUrl: "http://localhost:11434/v1",
+      model: "llama3:8b",
+      type: "ollama-native",
+    });
+
+    expect(models).toEqual(["llama3:8b"]);
+    expect(fetchMock.mock.calls[0][0]).toBe("http://localhost:11434/api/tags");
+  });
+
+  it("sends Anthropic auth headers", async () => {
+    const fetchMock = stubFetch(200, { data: [{ id: "claude" }] });
+
+    await listModels({
+      baseUrl: "https://api.anthropic.com/v1",
+      model: "c",
+      apiKey: "k",
+      type: "anthropic",
+    });
+
+    const init = (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1];
+    expect(init.headers).toMatchObject({ "x-api-key": "k", "anthropic-version": "2023-06-01" });
+  });
+
+  it("throws LLMRequestError on error statuses", async () => {
+    stubFetch(404, {});
+    await expect(listModels({ baseUrl: "http://x/v1", model: "a" })).rejects.toBeInstanceOf(
+      LLMRequestError,
+    );
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Model discovery — asks a provider which models it can serve.
+ *
+ * OpenAI-compatible servers and Anthropic list models at GET /models,
+ * Ollama's native API at GET /api/tags. Used by the REPL's /model command.
+ */
+
+import type { ProviderConfig } from "../config/loader.js";
+import { LLMRequestError, UserAbortError } from "../errors.js";
+import { ANTHROPIC_VERSION } from "./anthropic.js";
+import { toConnectionError } from "./http.js";
+import { apiRoot } from "./ollama.js";
+
+/** Listing models is a quick metadata call — don't hang the REPL on a dead server. */
+const LIST_MODELS_TIMEOUT_MS = 10_000;
+
+/** URL and headers of the model listing endpoint for a provider. */
+function modelsRequest(provider: ProviderConfig): { url: string; headers: Record<string, string> } {
+  const headers: Record<string, string> = {};
+  switch (provider.type ?? "openai") {
+    case "ollama-native":
+      if (provider.apiKey) headers.Authorization = `Bearer ${provider.apiKey}`;
+      return { url: `${apiRoot(provider.baseUrl)}/api/tags`, headers };
+    case "anthropic":
+      headers["anthropic-version"] = ANTHROPIC_VERSION;
+      if (provider.apiKey) headers["x-api-key"] = provider.apiKey;
+      return { url: `${provider.baseUrl}/models`, headers };
+    default:
+      if (provider.apiKey) headers.Authorization = `Bearer ${provider.apiKey}`;
+      return { url: `${provider.baseUrl}/models`, headers };
+  }
+}
+
+/** Pull model ids out of either listing shape: { data: [{ id }] } or { models: [{ name }] }. */
+function parseModelIds(body: unknown): string[] {
+  if (typeof body !== "object" || body === null) return [];
+  const obj = body as { data?: Array<{ id?: unknown }>; models?: Array<{ name?: unknown }> };
+  const ids = [...(obj.data ?? []).map((m) => m.id), ...(obj.models ?? []).map((m) => m.name)];
+  return ids.filter((id): id is string => typeof id === "string");
+}
+
+/**
+ * List the model ids a provider serves, sorted. Throws LLMRequestError when
+ * the provider can't be reached or answers with an error status.
+ */
+export async function listModels(
+  provider: ProviderConfig,
+  signal?: AbortSignal,
+): Promise<string[]> {
+  const { url, headers } = modelsRequest(provider);
+  const timeoutSignal = AbortSignal.timeout(LIST_MODELS_TIMEOUT_MS);
+  const combinedSignal = signal ? AbortSignal.any([timeoutSignal, signal]) : timeoutSignal;
+
+  let resp: Response;
+  try {
+    resp = await fetch(url, { headers, signal: combinedSignal });
+  } catch (err: unknown) {
+    if (signal?.aborted) throw new UserAbortError();
+    throw toConnectionError(err, provider.baseUrl);
+  }
+  if (!resp.ok) {
+    throw new LLMRequestError(`Listing models at ${url} failed (${resp.status})`, {
+      kind: resp.status === 404 ? "not_found" : "http",
+      status: resp.status,
+    });
+  }
+  return parseModelIds(await resp.json()).sort();
+}
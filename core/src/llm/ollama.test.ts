@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ChatMessage } from "./client.js";
+import { OllamaClient, toOllamaMessages } from "./ollama.js";
+
+/** Build a streaming Response that emits each NDJSON line as its own chunk. */
+function ndjsonResponse(lines: unknown[]): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const line of lines) controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+      controller.close();
+    },
+  });
+  return new Response(stream, { status: 200 });
+}
+
+function makeClient() {
+  return new OllamaClient({
+    baseUrl: "http://localhost:11434/v1",
+    model: "qwen3",
+    maxTokens: 100,
+    numCtx: 8192,
+    keepAlive: "10m",
+    think: true,
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("toOllamaMessages", () => {
+  it("converts tool call arguments to objects and names tool results", () => {
+    const messages: ChatMessage[] = [
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [
+          {
+            id: "c1",
+            type: "function",
+            function: { name: "read_file", arguments: '{"path":"a"}' },
+          },
+        ],
+      },
+      { role: "tool", content: "file body", tool_call_id: "c1" },
+    ];
+
+    const out = toOllamaMessages(messages);
+    expect(out[0].tool_calls).toEqual([
+      { function: { name: "read_file", arguments: { path: "a" } } },
+    ]);
+    expect(out[1]).toEqual({ role: "tool", content: "file body", tool_name: "read_file" });
+  });
+});
+
+describe("toOllamaMessages images", () => {
+  it("sends text content with base64 images alongside", () => {
+    const out = toOllamaMessages([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "describe" },
+          { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+        ],
+      },
+    ]);
+    expect(out[0]).toEqual({ role: "user", content: "describe", images: ["iVBORw0KGgo="] });
+  });
+});
+
+describe("OllamaClient.chat", () => {
+  it("posts native options to /api/chat", async () => {
+    const fetchMock = vi.fn(async () =>
+      ndjsonResponse([{ message: { content: "hi" }, done: true }]),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await makeClient().chat([{ role: "user", content: "hello" }]);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://localhost:11434/api/chat");
+    const body = JSON.parse(String(init.body));
+    expect(body.options).toEqual({ num_predict: 100, num_ctx: 8192 });
+    expect(body.keep_alive).toBe("10m");
+    expect(body.think).toBe(true);
+  });
+
+  it("puts sampling parameters into options", async () => {
+    const fetchMock = vi.fn(async () =>
+      ndjsonResponse([{ message: { content: "hi" }, done: true }]),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new OllamaClient({
+      baseUrl: "http://localhost:11434",
+      model: "llama3",
+      maxTokens: 100,
+      sampling: { temperature: 0, topP: 0.5, stop: ["\n\n"], seed: 1 },
+    });
+
+    await client.chat([{ role: "user", content: "hello" }]);
+
+    const init = (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1];
+    expect(JSON.parse(String(init.body)).options).toEqual({
+      num_predict: 100,
+      temperature: 0,
+      top_p: 0.5,
+      stop: ["\n\n"],
+      seed: 1,
+    });
+  });
+
+  it("streams thinking and content separately", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        ndjsonResponse([
+          { message: { thinking: "let me " } },
+          { message: { thinking: "see" } },
+          { message: { content: "Hello" } },
+          { message: { content: " there" }, done: true, done_reason: "stop" },
+        ]),
+      ),
+    );
+    const tokens: Array<{ text: string; isThinking: boolean }> = [];
+
+    const resp = await makeClient().chat([{ role: "user", content: "hi" }], undefined, (t, th) =>
+      tokens.push({ text: t, isThinking: th }),
+    );
+
+    expect(resp.content).toBe("Hello there");
+    expect(resp.thinking).toBe("let me see");
+    expect(resp.finishReason).toBe("stop");
+    const thinkingText = tokens
+      .filter((t) => t.isThinking)
+      .map((t) => t.text)
+      .join("");
+    expect(thinkingText).toBe("let me see\n");
+  });
+
+  it("maps native tool calls into ToolCall objects", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        ndjsonResponse([
+          {
+            message: {
+              content: "",
+              tool_calls: [{ function: { name: "shell", arguments: { command: "ls" } } }],
+            },
+          },
+          { message: { content: "" }, done: true, done_reason: "stop" },
+        ]),
+      ),
+    );
+
+    const resp = await makeClient().chat([{ role: "user", content: "list" }]);
+    expect(resp.toolCalls).toEqual([{ id: "call_0", name: "shell", arguments: { command: "ls" } }]);
+    expect(resp.finishReason).toBe("tool_calls");
+    expect(resp.content).toBeNull();
+  });
+
+  it("reads token usage from the final line", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        ndjsonResponse([
+          { message: { content: "ok" } },
+          { message: { content: "" }, done: true, prompt_eval_count: 42, eval_count: 7 },
+        ]),
+      ),
+    );
+
+    const resp = await makeClient().chat([{ role: "user", content: "hi" }]);
+    expect(resp.usage).toEqual({
+      promptTokens: 42,
+      completionTokens: 7,
+      totalTokens: 49,
+      estimated: false,
+    });
+  });
+
+  it("throws a model-not-found error on 404", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("not found", { status: 404 })),
+    );
+    await expect(makeClient().chat([{ role: "user", content: "hi" }])).rejects.toThrow(
+      'Model "qwen3" not found',
+    );
+  });
+
+  it("surfaces in-stream error lines", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => ndjsonResponse([{ error: "out of memory" }])),
+    );
+    await expect(makeClient().chat([{ role: "user", content: "hi" }])).rejects.toThrow(
+      "out of memory",
+    );
+  });
+});
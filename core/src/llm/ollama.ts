@@ -0,0 +1,264 @@
+/**
+ * Ollama native client — talks to Ollama's own /api/chat endpoint.
+ *
+ * The OpenAI-compatible /v1 endpoint drops Ollama-specific options such as
+ * num_ctx, keep_alive and the separate `thinking` field. This client speaks
+ * the native NDJSON stream instead and returns the same LLMResponse shape,
+ * so the agent loop can't tell the difference.
+ */
+
+import {
+  type ChatClient,
+  type ChatMessage,
+  contentImages,
+  contentText,
+  DEFAULT_THINK_TAG,
+  extractThinking,
+  type LLMClientOptions,
+  type LLMResponse,
+  type OnTokenCallback,
+  parseDataUrl,
+  parseToolArguments,
+  processThinkBuffer,
+  ReasoningDisplay,
+  type ToolCall,
+  type ToolDefinition,
+} from "./client.js";
+import { openStream, readLines } from "./http.js";
+import { type ChatOptions, schemaRequest } from "./schema.js";
+import { resolveUsage } from "./usage.js";
+
+export interface OllamaClientOptions extends LLMClientOptions {
+  /** Context window size (num_ctx). Ollama defaults to a small window if unset. */
+  numCtx?: number;
+  /** How long the model stays loaded after the request, e.g. "10m" or -1. */
+  keepAlive?: string | number;
+  /** Ask thinking models to stream reasoning in the separate `thinking` field. */
+  think?: boolean;
+}
+
+/**
+ * Message shape accepted by /api/chat. Tool call arguments are objects, not
+ * JSON strings, and images travel as bare base64 strings beside the text.
+ */
+interface OllamaMessage {
+  role: ChatMessage["role"];
+  content: string;
+  images?: string[];
+  tool_calls?: Array<{ function: { name: string; arguments: Record<string, unknown> } }>;
+  tool_name?: string;
+}
+
+/** Shape of a single NDJSON line from a streaming /api/chat response. */
+interface OllamaChunk {
+  message?: {
+    content?: string;
+    thinking?: string;
+    tool_calls?: Array<{
+      id?: string;
+      function?: { name?: string; arguments?: Record<string, unknown> | string };
+    }>;
+  };
+  done?: boolean;
+  done_reason?: string;
+  /** Prompt and output token counts, present on the final (done) line. */
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * Convert OpenAI-style messages into /api/chat messages.
+ * Tool results carry the tool name (looked up from the assistant's tool call id)
+ * since Ollama does not use tool_call_id. Only data: URL images can be sent.
+ */
+export function toOllamaMessages(messages: ChatMessage[]): OllamaMessage[] {
+  const toolNames = new Map<string, string>();
+  return messages.map((m) => {
+    const out: OllamaMessage = { role: m.role, content: contentText(m.content) };
+    const images = contentImages(m.content)
+      .map((p) => parseDataUrl(p.image_url.url)?.data)
+      .filter((d): d is string => d !== undefined);
+    if (images.length > 0) out.images = images;
+    if (m.tool_calls) {
+      out.tool_calls = m.tool_calls.map((tc) => {
+        toolNames.set(tc.id, tc.function.name);
+        let args: Record<string, unknown> = {};
+        try {
+          args = JSON.parse(tc.function.arguments);
+        } catch {
+          // malformed args were already reported to the model — send empty
+        }
+        return { function: { name: tc.function.name, arguments: args } };
+      });
+    }
+    if (m.role === "tool" && m.tool_call_id) {
+      const name = toolNames.get(m.tool_call_id);
+      if (name) out.tool_name = name;
+    }
+    return out;
+  });
+}
+
+/** Strip a trailing /v1 so the same baseUrl works for both client types. */
+export function apiRoot(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, "").replace(/\/v1$/, "");
+}
+
+export class OllamaClient implements ChatClient {
+  readonly opts: OllamaClientOptions;
+
+  constructor(opts: OllamaClientOptions) {
+    this.opts = opts;
+  }
+
+  /**
+   * Streaming chat via /api/chat.
+   *
+   * Thinking arrives either in the native `thinking` field (when think is on)
+   * or inline as <think> tags in content — both are routed to onToken with
+   * isThinking=true, matching LLMClient's behaviour.
+   */
+  async chat(
+    messages: ChatMessage[],
+    tools?: ToolDefinition[],
+    onToken?: OnTokenCallback,
+    signal?: AbortSignal,
+    options?: ChatOptions,
+  ): Promise<LLMResponse> {
+    const root = apiRoot(this.opts.baseUrl);
+    const modelOptions: Record<string, unknown> = { num_predict: this.opts.maxTokens };
+    if (this.opts.numCtx !== undefined) modelOptions.num_ctx = this.opts.numCtx;
+    const sampling = this.opts.sampling ?? {};
+    if (sampling.temperature !== undefined) modelOptions.temperature = sampling.temperature;
+    if (sampling.topP !== undefined) modelOptions.top_p = sampling.topP;
+    if (sampling.stop?.length) modelOptions.stop = sampling.stop;
+    if (sampling.seed !== undefined) modelOptions.seed = sampling.seed;
+
+    const request = schemaRequest(messages, tools, options);
+    const payload: Record<string, unknown> = {
+      model: this.opts.model,
+      messages: toOllamaMessages(request.messages),
+      stream: true,
+      options: modelOptions,
+    };
+    if (tools && tools.length > 0) payload.tools = tools;
+    if (this.opts.think !== undefined) payload.think = this.opts.think;
+    if (this.opts.keepAlive !== undefined) payload.keep_alive = this.opts.keepAlive;
+    if (request.schema) payload.format = request.schema;
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.opts.apiKey) {
+      headers.Authorization = `Bearer ${this.opts.apiKey}`;
+    }
+
+    const body = await openStream({
+      url: `${root}/api/chat`,
+      headers,
+      payload,
+      signal,
+      baseUrl: root,
+      model: this.opts.model,
+      modelsUrl: `${root}/api/tags`,
+      fetch: this.opts.fetch,
+      timeouts: this.opts.timeouts,
+    });
+
+    let fullContent = "";
+    let fullThinking = "";
+    let finishReason = "stop";
+    let reportedUsage: { promptTokens?: number; completionTokens?: number } = {};
+    const toolCalls: ToolCall[] = [];
+    const thinkTag = this.opts.thinkTag ?? DEFAULT_THINK_TAG;
+    // Native thinking display state
+    const reasoningDisplay = new ReasoningDisplay(onToken);
+    // Inline <think> tag display state
+    let insideThink = false;
+    let thinkTagBuffer = "";
+
+    for await (const line of readLines(body, signal, () => fullContent)) {
+      if (!line.trim()) continue;
+      let chunk: OllamaChunk;
+      try {
+        chunk = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (chunk.error) {
+        throw new Error(`LLM request failed: ${chunk.error}`);
+      }
+
+      const msg = chunk.message;
+      if (msg?.thinking) {
+        fullThinking += msg.thinking;
+        reasoningDisplay.thinking(msg.thinking);
+      }
+
+      if (msg?.content) {
+        reasoningDisplay.end();
+        fullContent += msg.content;
+        if (onToken) {
+          thinkTagBuffer += msg.content;
+          processThinkBuffer(
+            thinkTagBuffer,
+            insideThink,
+            onToken,
+            (newInside, remaining) => {
+              insideThink = newInside;
+              thinkTagBuffer = remaining;
+            },
+            thinkTag,
+          );
+        }
+      }
+
+      if (msg?.tool_calls) {
+        for (const tc of msg.tool_calls) {
+          const rawArgs = tc.function?.arguments;
+          toolCalls.push({
+            id: tc.id || `call_${toolCalls.length}`,
+            name: tc.function?.name ?? "",
+            ...(typeof rawArgs === "string"
+              ? parseToolArguments(rawArgs)
+              : { arguments: rawArgs ?? {} }),
+          });
+        }
+      }
+
+      if (chunk.done && chunk.done_reason) {
+        finishReason = chunk.done_reason;
+      }
+      if (chunk.done) {
+        reportedUsage = {
+          promptTokens: chunk.prompt_eval_count,
+          completionTokens: chunk.eval_count,
+        };
+      }
+    }
+
+    reasoningDisplay.end();
+    if (onToken && thinkTagBuffer) {
+      onToken(thinkTagBuffer, insideThink);
+    }
+
+    const { content, thinking: inlineThinking } = extractThinking(fullContent, thinkTag);
+    const thinking = fullThinking.trim() || inlineThinking;
+
+    if (toolCalls.length > 0 && finishReason === "stop") {
+      finishReason = "tool_calls";
+    }
+
+    return {
+      content: content || null,
+      thinking: thinking || null,
+      toolCalls,
+      finishReason,
+      usage: resolveUsage(
+        reportedUsage,
+        messages,
+        tools,
+        fullThinking + fullContent + JSON.stringify(toolCalls),
+      ),
+    };
+  }
+}
@@ -0,0 +1,168 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runAgentLoop } from "../agent/loop.js";
+import type { ProviderConfig } from "../config/loader.js";
+import { LLMRequestError } from "../errors.js";
+import { ToolRegistry } from "../tools/registry.js";
+import { createLLMClient } from "./factory.js";
+import { type Fixture, FixtureRecorder, loadFixture } from "./replay.js";
+
+const AGENT = {
+  maxTurns: 5,
+  maxTokens: 100,
+  retry: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+};
+
+/** SSE body split into the given network reads. */
+function sseResponse(reads: string[]): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const read of reads) controller.enqueue(encoder.encode(read));
+      controller.close();
+    },
+  });
+  return new Response(stream, { status: 200 });
+}
+
+const data = (chunk: unknown) => `data: ${JSON.stringify(chunk)}\n\n`;
+
+const TOOL_CALL_START = data({
+  choices: [
+    {
+      index: 0,
+      delta: {
+        tool_calls: [{ index: 0, id: "c1", function: { name: "echo", arguments: '{"te' } }],
+      },
+      finish_reason: null,
+    },
+  ],
+});
+
+/**
+ * A two-request session: a tool call whose arguments arrive split (with one
+ * SSE line cut across network reads), then a final answer with thinking.
+ */
+const SESSION = [
+  [
+    TOOL_CALL_START.slice(0, 40),
+    TOOL_CALL_START.slice(40) +
+      data({
+        choices: [
+          {
+            index: 0,
+            delta: { tool_calls: [{ index: 0, function: { arguments: 'xt":"hi"}' } }] },
+            finish_reason: "tool_calls",
+          },
+        ],
+      }),
+    "data: [DONE]\n\n",
+  ],
+  [
+    data({
+      choices: [{ index: 0, delta: { content: "<think>ok</think>Done: " }, finish_reason: null }],
+    }),
+    data({ choices: [{ index: 0, delta: { content: "hi" }, finish_reason: "stop" }] }),
+    "data: [DONE]\n\n",
+  ],
+];
+
+function makeTools(): ToolRegistry {
+  const tools = new ToolRegistry();
+  tools.register({
+    name: "echo",
+    description: "Echo",
+    parameters: { type: "object", properties: { text: { type: "string" } } },
+    handler: async (args) => `echoed: ${String(args.text)}`,
+  });
+  return tools;
+}
+
+describe("recording and replay", () => {
+  let dir: string;
+  let fixturePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ephileo-replay-"));
+    fixturePath = join(dir, "session.json");
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function record(): Promise<string> {
+    let call = 0;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => sseResponse(SESSION[call++])),
+    );
+    const provider: ProviderConfig = { baseUrl: "http://live/v1", model: "m" };
+    const llm = createLLMClient(provider, AGENT, new FixtureRecorder(fixturePath));
+    const result = await runAgentLoop([{ role: "user", content: "say hi" }], llm, makeTools());
+    vi.unstubAllGlobals();
+    return result.response;
+  }
+
+  it("records every request payload and streamed chunk", async () => {
+    await record();
+
+    const fixture: Fixture = JSON.parse(readFileSync(fixturePath, "utf-8"));
+    expect(fixture.exchanges).toHaveLength(2);
+    expect(fixture.exchanges[0].type).toBe("openai");
+    expect(fixture.exchanges[0].url).toBe("http://live/v1/chat/completions");
+    expect(fixture.exchanges[0].chunks).toEqual(SESSION[0]);
+    expect((fixture.exchanges[1].request as { messages: unknown[] }).messages).toHaveLength(3);
+  });
+
+  it("replays a recorded session offline with the same result", async () => {
+    const recorded = await record();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new Error("network used during replay");
+      }),
+    );
+
+    const llm = createLLMClient({ type: "replay", fixture: fixturePath } as ProviderConfig, AGENT);
+    const tools = makeTools();
+    const result = await runAgentLoop([{ role: "user", content: "say hi" }], llm, tools);
+
+    expect(result.response).toBe(recorded);
+    expect(result.response).toBe("Done: hi");
+    expect(result.toolsUsed).toEqual(["echo"]);
+    expect(llm.opts.model).toBe("m");
+  });
+
+  it("fails in strict mode when the session diverges from the recording", async () => {
+    await record();
+    const llm = createLLMClient(
+      { type: "replay", fixture: fixturePath, strict: true } as ProviderConfig,
+      AGENT,
+    );
+
+    await expect(
+      runAgentLoop([{ role: "user", content: "something else" }], llm, makeTools()),
+    ).rejects.toThrow("differs from the recording");
+  });
+
+  it("reports when the session outruns the fixture", async () => {
+    await record();
+    const fixture = loadFixture(fixturePath);
+    expect(fixture.exchanges).toHaveLength(2);
+    const llm = createLLMClient({ type: "replay", fixture: fixturePath } as ProviderConfig, AGENT);
+    await llm.chat([{ role: "user", content: "a" }]);
+    await llm.chat([{ role: "user", content: "b" }]);
+
+    await expect(llm.chat([{ role: "user", content: "c" }])).rejects.toBeInstanceOf(
+      LLMRequestError,
+    );
+  });
+
+  it("rejects files that aren't fixtures", () => {
+    expect(() => loadFixture(join(dir, "missing.json"))).toThrow("Could not read replay fixture");
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Session recording and replay.
+ *
+ * FixtureRecorder wraps fetch so every request payload and every streamed
+ * chunk of the response is written to a fixture file as it happens.
+ * ReplayClient serves such a fixture back through the real client for the
+ * recorded wire format, so a whole agent session — tool calls, thinking,
+ * errors — runs offline exactly as it did when it was recorded.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import type { ProviderType } from "../config/loader.js";
+import { LLMRequestError } from "../errors.js";
+import type {
+  ChatClient,
+  ChatMessage,
+  LLMClientOptions,
+  LLMResponse,
+  OnTokenCallback,
+  ToolDefinition,
+} from "./client.js";
+import type { ChatOptions } from "./schema.js";
+
+const FIXTURE_VERSION = 1;
+
+/** One request/response round trip. */
+export interface RecordedExchange {
+  /** Wire format of the provider that answered — picks the parser on replay. */
+  type: Exclude<ProviderType, "replay">;
+  url: string;
+  /** JSON request payload as sent. */
+  request: unknown;
+  status: number;
+  /** Response body in the order it arrived, one entry per network read. */
+  chunks: string[];
+}
+
+export interface Fixture {
+  version: number;
+  exchanges: RecordedExchange[];
+}
+
+/** Read a fixture file, rejecting anything that isn't one. */
+export function loadFixture(path: string): Fixture {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err: unknown) {
+    throw new Error(
+      `Could not read replay fixture ${path}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  const fixture = parsed as Partial<Fixture>;
+  if (fixture?.version !== FIXTURE_VERSION || !Array.isArray(fixture.exchanges)) {
+    throw new Error(`${path} is not a replay fixture (expected version ${FIXTURE_VERSION}).`);
+  }
+  return fixture as Fixture;
+}
+
+export class FixtureRecorder {
+  readonly path: string;
+  private fixture: Fixture = { version: FIXTURE_VERSION, exchanges: [] };
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * A fetch that passes through to `inner` (the global fetch by default)
+   * and records the exchange.
+   * The fixture is rewritten when a response starts and when it ends, so a
+   * crash or cancel mid-stream still leaves everything received so far.
+   */
+  wrap(type: RecordedExchange["type"], inner?: typeof fetch): typeof fetch {
+    return async (input, init) => {
+      const resp = await (inner ?? fetch)(input, init);
+      const exchange: RecordedExchange = {
+        type,
+        url: String(input),
+        request: typeof init?.body === "string" ? JSON.parse(init.body) : null,
+        status: resp.status,
+        chunks: [],
+      };
+      this.fixture.exchanges.push(exchange);
+      this.save();
+      if (!resp.body) return resp;
+
+      const decoder = new TextDecoder();
+      const recorded = resp.body.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform: (chunk, controller) => {
+            exchange.chunks.push(decoder.decode(chunk, { stream: true }));
+            controller.enqueue(chunk);
+          },
+          flush: () => {
+            const tail = decoder.decode();
+            if (tail) exchange.chunks.push(tail);
+            this.save();
+          },
+        }),
+      );
+      return new Response(recorded, {
+        status: resp.status,
+        statusText: resp.statusText,
+        headers: resp.headers,
+      });
+    };
+  }
+
+  private save(): void {
+    writeFileSync(this.path, `${JSON.stringify(this.fixture, null, 2)}\n`, "utf-8");
+  }
+}
+
+/** Build a client of the given wire format that sends its requests through `serve`. */
+export type ReplayClientFactory = (
+  type: RecordedExchange["type"],
+  serve: typeof fetch,
+) => ChatClient;
+
+export interface ReplayOptions {
+  /** Fail when a request payload differs from the recorded one. */
+  strict?: boolean;
+}
+
+export class ReplayClient implements ChatClient {
+  readonly opts: LLMClientOptions;
+  private readonly fixture: Fixture;
+  private readonly makeClient: ReplayClientFactory;
+  private readonly strict: boolean;
+  /** One client per wire format, kept across calls so client-side state survives. */
+  private clients = new Map<RecordedExchange["type"], ChatClient>();
+  private next = 0;
+  private current?: RecordedExchange;
+
+  constructor(
+    fixture: Fixture,
+    opts: LLMClientOptions,
+    makeClient: ReplayClientFactory,
+    replay: ReplayOptions = {},
+  ) {
+    this.fixture = fixture;
+    this.opts = opts;
+    this.makeClient = makeClient;
+    this.strict = replay.strict ?? false;
+  }
+
+  /** Requests served so far. */
+  get served(): number {
+    return this.next;
+  }
+
+  async chat(
+    messages: ChatMessage[],
+    tools?: ToolDefinition[],
+    onToken?: OnTokenCallback,
+    signal?: AbortSignal,
+    options?: ChatOptions,
+  ): Promise<LLMResponse> {
+    const exchange = this.fixture.exchanges[this.next];
+    if (!exchange) {
+      throw new LLMRequestError(
+        `Replay fixture exhausted: the session made more than ${this.fixture.exchanges.length} requests.`,
+        { kind: "http" },
+      );
+    }
+    this.next++;
+    this.current = exchange;
+
+    let client = this.clients.get(exchange.type);
+    if (!client) {
+      client = this.makeClient(exchange.type, this.serve);
+      this.clients.set(exchange.type, client);
+    }
+    return client.chat(messages, tools, onToken, signal, options);
+  }
+
+  /** fetch stand-in: answers with the current exchange's recorded chunks. */
+  private serve: typeof fetch = async (_input, init) => {
+    const exchange = this.current as RecordedExchange;
+    if (this.strict) {
+      const sent = typeof init?.body === "string" ? JSON.parse(init.body) : null;
+      if (JSON.stringify(sent) !== JSON.stringify(exchange.request)) {
+        throw new LLMRequestError(
+          `Replay request ${this.next} differs from the recording.\n` +
+            `recorded: ${JSON.stringify(exchange.request)}\n` +
+            `sent:     ${JSON.stringify(sent)}`,
+          { kind: "http" },
+        );
+      }
+    }
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of exchange.chunks) controller.enqueue(encoder.encode(chunk));
+        controller.close();
+      },
+    });
+    return new Response(body, { status: exchange.status });
+  };
+}
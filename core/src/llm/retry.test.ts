@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from "vitest";
+import { LLMRequestError, UserAbortError } from "../errors.js";
+import type { LLMResponse, OnTokenCallback } from "./client.js";
+import { parseRetryAfter } from "./http.js";
+import { computeRetryDelay, RetryingClient } from "./retry.js";
+
+const POLICY = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 50 };
+
+const OK: LLMResponse = { content: "ok", thinking: null, toolCalls: [], finishReason: "stop" };
+
+/** Inner client that fails with the given errors in order, then succeeds. */
+function makeFlakyClient(errors: unknown[]) {
+  let call = 0;
+  return {
+    opts: { baseUrl: "http://test", model: "test", maxTokens: 100 },
+    chat: vi.fn(async () => {
+      const err = errors[call++];
+      if (err) throw err;
+      return OK;
+    }),
+  };
+}
+
+const overloaded = () =>
+  new LLMRequestError("LLM request failed (503): busy", {
+    kind: "http",
+    status: 503,
+    retryable: true,
+  });
+
+const dropped = () =>
+  new LLMRequestError("Stream read failed", { kind: "stream", retryable: true });
+
+describe("computeRetryDelay", () => {
+  const policy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+  it("doubles the delay each attempt with jitter in the upper half", () => {
+    expect(computeRetryDelay(1, policy, undefined, () => 0)).toBe(500);
+    expect(computeRetryDelay(1, policy, undefined, () => 1)).toBe(1000);
+    expect(computeRetryDelay(3, policy, undefined, () => 1)).toBe(4000);
+  });
+
+  it("caps backoff at maxDelayMs", () => {
+    expect(computeRetryDelay(10, policy, undefined, () => 1)).toBe(5000);
+  });
+
+  it("uses Retry-After when present", () => {
+    expect(computeRetryDelay(1, policy, 2500)).toBe(2500);
+  });
+
+  it("gives up when Retry-After exceeds maxDelayMs", () => {
+    expect(computeRetryDelay(1, policy, 60_000)).toBeNull();
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses delta-seconds", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+  });
+
+  it("parses an HTTP date relative to now", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:10 GMT", now)).toBe(10_000);
+  });
+
+  it("returns undefined for missing or garbage headers", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("RetryingClient", () => {
+  it("retries retryable errors and returns the eventual response", async () => {
+    const inner = makeFlakyClient([overloaded(), overloaded()]);
+    const client = new RetryingClient(inner, POLICY);
+
+    const resp = await client.chat([{ role: "user", content: "hi" }]);
+    expect(resp).toBe(OK);
+    expect(inner.chat).toHaveBeenCalledTimes(3);
+  });
+
+  it("throws the last error once maxAttempts is reached", async () => {
+    const inner = makeFlakyClient([overloaded(), overloaded(), overloaded()]);
+    const client = new RetryingClient(inner, POLICY);
+
+    await expect(client.chat([])).rejects.toThrow("busy");
+    expect(inner.chat).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry non-retryable errors", async () => {
+    const inner = makeFlakyClient([
+      new LLMRequestError("Model not found", { kind: "not_found", status: 404 }),
+    ]);
+    const client = new RetryingClient(inner, POLICY);
+
+    await expect(client.chat([])).rejects.toThrow("Model not found");
+    expect(inner.chat).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry user aborts", async () => {
+    const inner = makeFlakyClient([new UserAbortError()]);
+    const client = new RetryingClient(inner, POLICY);
+
+    await expect(client.chat([])).rejects.toThrow(UserAbortError);
+    expect(inner.chat).toHaveBeenCalledTimes(1);
+  });
+
+  it("aborts a pending backoff with UserAbortError", async () => {
+    const inner = makeFlakyClient([
+      new LLMRequestError("rate limited", {
+        kind: "http",
+        status: 429,
+        retryable: true,
+        retryAfterMs: 40,
+      }),
+    ]);
+    const client = new RetryingClient(inner, POLICY);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(client.chat([], undefined, undefined, controller.signal)).rejects.toThrow(
+      UserAbortError,
+    );
+    expect(inner.chat).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries a stream that drops before any token arrives", async () => {
+    const inner = makeFlakyClient([dropped()]);
+    const client = new RetryingClient(inner, POLICY);
+    const onToken = vi.fn();
+
+    await expect(client.chat([], undefined, onToken)).resolves.toBe(OK);
+    expect(inner.chat).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry a stream that drops after tokens were shown", async () => {
+    const inner = {
+      opts: { baseUrl: "http://test", model: "test", maxTokens: 100 },
+      chat: vi.fn(async (_m: unknown, _t: unknown, onToken?: OnTokenCallback) => {
+        onToken?.("partial", false);
+        throw dropped();
+      }),
+    };
+    const client = new RetryingClient(inner, POLICY);
+    const onToken = vi.fn();
+
+    await expect(client.chat([], undefined, onToken)).rejects.toThrow("Stream read failed");
+    expect(inner.chat).toHaveBeenCalledTimes(1);
+    expect(onToken).toHaveBeenCalledExactlyOnceWith("partial", false);
+  });
+
+  it("exposes the inner client's options", () => {
+    const inner = makeFlakyClient([]);
+    expect(new RetryingClient(inner, POLICY).opts).toBe(inner.opts);
+  });
+});
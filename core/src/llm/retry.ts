@@ -0,0 +1,99 @@
+/**
+ * Retry wrapper — re-runs a chat call on transient provider failures.
+ *
+ * Wraps any ChatClient. Retries LLMRequestErrors marked retryable (429, 5xx,
+ * connection resets, dropped streams) with exponential backoff and jitter,
+ * honouring the server's Retry-After hint. User aborts are never retried and
+ * cut a pending backoff short. A stream that drops after tokens were shown is
+ * not retried either: the retry would show them a second time.
+ */
+
+import type { RetryConfig } from "../config/loader.js";
+import { LLMRequestError, UserAbortError } from "../errors.js";
+import type {
+  ChatClient,
+  ChatMessage,
+  LLMClientOptions,
+  LLMResponse,
+  OnTokenCallback,
+  ToolDefinition,
+} from "./client.js";
+import type { ChatOptions } from "./schema.js";
+
+/**
+ * Delay before retry number `attempt` (1-based). Uses the server's Retry-After
+ * when present, else exponential backoff with equal jitter (half fixed, half random).
+ * Returns null when Retry-After asks for longer than the policy allows.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: RetryConfig,
+  retryAfterMs?: number,
+  random: () => number = Math.random,
+): number | null {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : null;
+  }
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exp / 2 + random() * (exp / 2));
+}
+
+/** Sleep for ms, rejecting with UserAbortError as soon as the signal fires. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UserAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new UserAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export class RetryingClient implements ChatClient {
+  readonly inner: ChatClient;
+  readonly policy: RetryConfig;
+
+  constructor(inner: ChatClient, policy: RetryConfig) {
+    this.inner = inner;
+    this.policy = policy;
+  }
+
+  get opts(): LLMClientOptions {
+    return this.inner.opts;
+  }
+
+  async chat(
+    messages: ChatMessage[],
+    tools?: ToolDefinition[],
+    onToken?: OnTokenCallback,
+    signal?: AbortSignal,
+    options?: ChatOptions,
+  ): Promise<LLMResponse> {
+    let streamed = false;
+    const forward: OnTokenCallback | undefined = onToken
+      ? (token, isThinking) => {
+          streamed = true;
+          onToken(token, isThinking);
+        }
+      : undefined;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.inner.chat(messages, tools, forward, signal, options);
+      } catch (err: unknown) {
+        if (!(err instanceof LLMRequestError) || !err.retryable || streamed) throw err;
+        if (attempt >= this.policy.maxAttempts) throw err;
+        const delay = computeRetryDelay(attempt, this.policy, err.retryAfterMs);
+        if (delay === null) throw err;
+        await sleep(delay, signal);
+      }
+    }
+  }
+}
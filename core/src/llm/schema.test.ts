@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseJsonContent,
+  schemaInstruction,
+  schemaRequest,
+  validateJsonSchema,
+} from "./schema.js";
+
+describe("parseJsonContent", () => {
+  it("parses bare and fenced JSON", () => {
+    expect(parseJsonContent(' {"a": 1} ')).toEqual({ ok: true, value: { a: 1 } });
+    expect(parseJsonContent('```json\n{"a": 1}\n```')).toEqual({ ok: true, value: { a: 1 } });
+  });
+
+  it("reports invalid JSON", () => {
+    const result = parseJsonContent("Sure! Here it is: {");
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe("validateJsonSchema", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1 },
+      count: { type: "integer", minimum: 0 },
+      tags: { type: "array", items: { type: "string" } },
+      level: { enum: ["low", "high"] },
+    },
+    required: ["name", "count"],
+    additionalProperties: false,
+  };
+
+  it("accepts a matching value", () => {
+    expect(validateJsonSchema({ name: "x", count: 2, tags: ["a"], level: "low" }, schema)).toEqual(
+      [],
+    );
+  });
+
+  it("reports each violation with its path", () => {
+    const errors = validateJsonSchema(
+      { name: "", count: 1.5, tags: ["a", 2], level: "mid", extra: true },
+      schema,
+    );
+    expect(errors).toEqual([
+      "$.name: shorter than 1 characters",
+      "$.count: expected integer, got number",
+      "$.tags[1]: expected string, got integer",
+      '$.level: must be one of ["low","high"]',
+      "$: unexpected property 'extra'",
+    ]);
+  });
+
+  it("reports missing required properties and wrong root types", () => {
+    expect(validateJsonSchema({ name: "x" }, schema)).toEqual([
+      "$: missing required property 'count'",
+    ]);
+    expect(validateJsonSchema([], schema)).toEqual(["$: expected object, got array"]);
+  });
+
+  it("treats integers as numbers and supports anyOf", () => {
+    expect(validateJsonSchema(3, { type: "number" })).toEqual([]);
+    const nullable = { anyOf: [{ type: "string" }, { type: "null" }] };
+    expect(validateJsonSchema(null, nullable)).toEqual([]);
+    expect(validateJsonSchema(1, nullable)).toEqual([
+      "$: does not match any of the allowed schemas",
+    ]);
+  });
+});
+
+describe("schemaRequest", () => {
+  const schema = { type: "object" };
+  const messages = [{ role: "user" as const, content: "q" }];
+  const tools = [
+    { type: "function" as const, function: { name: "echo", description: "", parameters: {} } },
+  ];
+
+  it("sends the schema natively when there are no tools", () => {
+    expect(schemaRequest(messages, undefined, { responseSchema: schema })).toEqual({
+      messages,
+      schema,
+    });
+    expect(schemaRequest(messages, tools, undefined)).toEqual({ messages });
+  });
+
+  it("puts the schema in a system prompt when there are tools", () => {
+    expect(schemaRequest(messages, tools, { responseSchema: schema })).toEqual({
+      messages: [{ role: "system", content: schemaInstruction(schema) }, ...messages],
+    });
+  });
+});
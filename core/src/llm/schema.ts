@@ -0,0 +1,170 @@
+/**
+ * Structured output — JSON Schema response formats and local validation.
+ *
+ * Providers enforce schemas to varying degrees (OpenAI strictly, local servers
+ * often not at all), so the final answer is always checked here too. The
+ * validator covers the subset of JSON Schema that response formats use:
+ * type, enum, const, properties/required/additionalProperties, items,
+ * anyOf, and the common length and range keywords.
+ */
+
+import type { ChatMessage, ToolDefinition } from "./client.js";
+
+export type JsonSchema = Record<string, unknown>;
+
+/** Per-request options that don't fit the positional chat() arguments. */
+export interface ChatOptions {
+  /**
+   * Constrain the answer to JSON matching this schema, where the provider
+   * supports it and the request has no tools (see schemaRequest).
+   */
+  responseSchema?: JsonSchema;
+}
+
+/** Name sent with OpenAI's json_schema response format (required by the API). */
+export const RESPONSE_SCHEMA_NAME = "response";
+
+/** System prompt addition for providers without a native schema option. */
+export function schemaInstruction(schema: JsonSchema): string {
+  return `When you give your final answer, reply with only a JSON value (no prose, no code fences) matching this JSON Schema:\n${JSON.stringify(schema)}`;
+}
+
+/**
+ * What to send for a schema'd request: the schema to request natively, and
+ * the messages. A native schema constrains every token the model produces,
+ * which rules out tool calls, so it is only sent when the request has no
+ * tools. Otherwise the schema goes into the system prompt instead.
+ */
+export function schemaRequest(
+  messages: ChatMessage[],
+  tools: ToolDefinition[] | undefined,
+  options: ChatOptions | undefined,
+): { messages: ChatMessage[]; schema?: JsonSchema } {
+  const schema = options?.responseSchema;
+  if (!schema) return { messages };
+  if (!tools || tools.length === 0) return { messages, schema };
+
+  const instruction = schemaInstruction(schema);
+  const [first, ...rest] = messages;
+  if (first?.role === "system" && typeof first.content === "string") {
+    return { messages: [{ ...first, content: `${first.content}\n\n${instruction}` }, ...rest] };
+  }
+  return { messages: [{ role: "system", content: instruction }, ...messages] };
+}
+
+/**
+ * Parse a model's final answer as JSON. Tolerates a surrounding ```json fence,
+ * which models add out of habit even when told not to.
+ */
+export function parseJsonContent(
+  content: string,
+): { ok: true; value: unknown } | { ok: false; error: string } {
+  const fenced = content.trim().match(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/);
+  const raw = fenced ? fenced[1] : content.trim();
+  try {
+    return { ok: true, value: JSON.parse(raw) };
+  } catch (err) {
+    return {
+      ok: false,
+      error: `response is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+/**
+ * Validate a value against a JSON Schema. Returns one message per violation,
+ * each prefixed with the path of the offending value ($ is the root).
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((t) => matchesType(value, t))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))
+  ) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if ("const" in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const branches = schema.anyOf as JsonSchema[];
+    if (!branches.some((b) => validateJsonSchema(value, b, path).length === 0)) {
+      errors.push(`${path}: does not match any of the allowed schemas`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path}: needs at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path}: allows at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === "object") {
+      value.forEach((item, i) => {
+        errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${i}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    for (const key of (schema.required ?? []) as string[]) {
+      if (!(key in obj)) errors.push(`${path}: missing required property '${key}'`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      if (key in properties) {
+        errors.push(...validateJsonSchema(child, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property '${key}'`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateJsonSchema(child, schema.additionalProperties as JsonSchema, `${path}.${key}`),
+        );
+      }
+    }
+  }
+
+  return errors;
+}
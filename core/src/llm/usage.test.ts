@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  addUsage,
+  estimatePromptTokens,
+  estimateTokens,
+  resolveUsage,
+  ZERO_USAGE,
+} from "./usage.js";
+
+describe("estimateTokens", () => {
+  it("approximates four characters per token, rounding up", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("estimatePromptTokens", () => {
+  it("counts message overhead, content, tool call args and tool schemas", () => {
+    const withoutTools = estimatePromptTokens([{ role: "user", content: "abcdefgh" }]);
+    expect(withoutTools).toBe(4 + 2);
+
+    const withTools = estimatePromptTokens(
+      [{ role: "user", content: "abcdefgh" }],
+      [{ type: "function", function: { name: "t", description: "d", parameters: {} } }],
+    );
+    expect(withTools).toBeGreaterThan(withoutTools);
+  });
+});
+
+describe("resolveUsage", () => {
+  it("uses server-reported counts when both are present", () => {
+    const usage = resolveUsage({ promptTokens: 100, completionTokens: 20 }, [], undefined, "x");
+    expect(usage).toEqual({
+      promptTokens: 100,
+      completionTokens: 20,
+      totalTokens: 120,
+      estimated: false,
+    });
+  });
+
+  it("estimates missing counts and flags the result", () => {
+    const usage = resolveUsage({}, [{ role: "user", content: "abcd" }], undefined, "abcdefgh");
+    expect(usage.promptTokens).toBe(5);
+    expect(usage.completionTokens).toBe(2);
+    expect(usage.estimated).toBe(true);
+  });
+});
+
+describe("addUsage", () => {
+  it("sums counts and keeps the estimated flag sticky", () => {
+    const a = { promptTokens: 1, completionTokens: 2, totalTokens: 3, estimated: false };
+    const b = { promptTokens: 10, completionTokens: 20, totalTokens: 30, estimated: true };
+    expect(addUsage(a, b)).toEqual({
+      promptTokens: 11,
+      completionTokens: 22,
+      totalTokens: 33,
+      estimated: true,
+    });
+    expect(addUsage(ZERO_USAGE, a)).toEqual(a);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Token usage accounting.
+ *
+ * Providers report usage in different shapes (OpenAI's final usage chunk,
+ * Ollama's eval counts, Anthropic's message_start/message_delta). Clients
+ * normalize into TokenUsage, and fall back to a rough local estimate when
+ * the server reports nothing — flagged with `estimated` so the CLI can say so.
+ */
+
+import { type ChatMessage, contentImages, contentText, type ToolDefinition } from "./client.js";
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** True when any part of this count came from the local estimator. */
+  estimated: boolean;
+}
+
+/** Average characters per token for English text and code — good enough for budgeting. */
+const CHARS_PER_TOKEN = 4;
+/** Per-message overhead for role markers and separators in chat templates. */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Flat guess per image — vision encoders typically spend several hundred tokens per tile. */
+const IMAGE_TOKEN_ESTIMATE = 768;
+
+export const ZERO_USAGE: TokenUsage = {
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  estimated: false,
+};
+
+/** Rough token count for a piece of text. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** Rough token count for a single message, including tool call arguments. */
+export function estimateMessageTokens(message: ChatMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(contentText(message.content));
+  tokens += contentImages(message.content).length * IMAGE_TOKEN_ESTIMATE;
+  for (const tc of message.tool_calls ?? []) {
+    tokens += estimateTokens(tc.function.name) + estimateTokens(tc.function.arguments);
+  }
+  return tokens;
+}
+
+/** Rough prompt size: every message plus the tool schemas sent alongside. */
+export function estimatePromptTokens(messages: ChatMessage[], tools?: ToolDefinition[]): number {
+  let tokens = 0;
+  for (const m of messages) tokens += estimateMessageTokens(m);
+  if (tools && tools.length > 0) tokens += estimateTokens(JSON.stringify(tools));
+  return tokens;
+}
+
+/**
+ * Build a TokenUsage from whatever the server reported, estimating any
+ * missing side from the request and the generated output.
+ */
+export function resolveUsage(
+  reported: { promptTokens?: number; completionTokens?: number },
+  messages: ChatMessage[],
+  tools: ToolDefinition[] | undefined,
+  output: string,
+): TokenUsage {
+  const promptTokens = reported.promptTokens ?? estimatePromptTokens(messages, tools);
+  const completionTokens = reported.completionTokens ?? estimateTokens(output);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimated: reported.promptTokens === undefined || reported.completionTokens === undefined,
+  };
+}
+
+/** Sum two usage records. */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    estimated: a.estimated || b.estimated,
+  };
+}
@@ -0,0 +1,5 @@
+export type { JournalEntry } from "./journal.js";
+export { formatEntries, parseJournal, USER_PROFILE_TOPIC } from "./journal.js";
+export type { RecallOptions, RecallResult } from "./recall.js";
+export { cosineSimilarity, keywordScores, recallMemories } from "./recall.js";
+export { VECTOR_STORE_FILE, VectorStore } from "./vector-store.js";
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { formatEntries, parseJournal } from "./journal.js";
+
+const JOURNAL = `# Ephileo Learning Journal
+
+Things I've learned and discovered.
+
+---
+
+## User Profile
+_Learned: 2026-02-22 04:01_
+
+User's name is Alice.
+
+---
+
+## zsh Alias
+_Learned: 2026-02-22 07:19_
+
+Added an alias \`c='clear'\`.
+
+## Notes
+Some text
+`;
+
+describe("parseJournal", () => {
+  it("splits entries on ## headings and skips the journal header", () => {
+    const entries = parseJournal(JOURNAL);
+
+    expect(entries.map((e) => e.topic)).toEqual(["User Profile", "zsh Alias", "Notes"]);
+    expect(entries[0].text).toBe(
+      "## User Profile\n_Learned: 2026-02-22 04:01_\n\nUser's name is Alice.",
+    );
+    expect(entries[2].text).toBe("## Notes\nSome text");
+  });
+
+  it("returns nothing for an empty journal", () => {
+    expect(parseJournal("")).toEqual([]);
+    expect(parseJournal("# Ephileo Learning Journal\n\n---\n")).toEqual([]);
+  });
+});
+
+describe("formatEntries", () => {
+  it("joins entries with separators", () => {
+    const entries = parseJournal(JOURNAL).slice(0, 2);
+    expect(formatEntries(entries)).toBe(`${entries[0].text}\n\n---\n\n${entries[1].text}`);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Learning journal parsing.
+ *
+ * save_learning appends entries to memory/learnings.md in a fixed shape:
+ *
+ *   ## Topic
+ *   _Learned: 2026-02-22 04:01_
+ *
+ *   Markdown content
+ *
+ *   ---
+ *
+ * Everything before the first `## ` heading is the journal's own header.
+ */
+
+export interface JournalEntry {
+  topic: string;
+  /** The whole entry as written, heading included, without the trailing `---`. */
+  text: string;
+}
+
+/** Topic every session needs — save_learning stores the user's name under it. */
+export const USER_PROFILE_TOPIC = "User Profile";
+
+/** Split the journal into entries, oldest first. */
+export function parseJournal(markdown: string): JournalEntry[] {
+  const entries: JournalEntry[] = [];
+  for (const section of markdown.split(/^(?=## )/m)) {
+    if (!section.startsWith("## ")) continue;
+    const text = section.replace(/\n-{3,}\s*$/, "").trim();
+    const topic = text.slice(3, text.includes("\n") ? text.indexOf("\n") : undefined).trim();
+    entries.push({ topic, text });
+  }
+  return entries;
+}
+
+/** Render entries back into journal form for the system prompt. */
+export function formatEntries(entries: JournalEntry[]): string {
+  return entries.map((e) => e.text).join("\n\n---\n\n");
+}
@@ -0,0 +1,134 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EmbeddingsClient } from "../llm/index.js";
+import { cosineSimilarity, recallMemories } from "./recall.js";
+
+const entry = (topic: string, body: string) =>
+  `## ${topic}\n_Learned: 2026-01-01 00:00_\n\n${body}\n\n---\n`;
+
+const JOURNAL = [
+  "# Ephileo Learning Journal\n\n---\n",
+  entry("User Profile", "User's name is Alice."),
+  entry("Cat food", "The cat eats salmon twice a day."),
+  entry("Car service", "The car is due for service in March."),
+  entry("Dog walks", "The dog is walked at 7am."),
+  entry("Garden", "Tomatoes are planted by the fence."),
+].join("\n");
+
+/** Embeds text as [mentions cat, mentions car, mentions dog]. */
+function fakeEmbeddingsFetch() {
+  return vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+    const { input } = JSON.parse(init?.body as string) as { input: string[] };
+    const data = input.map((text, index) => {
+      const t = text.toLowerCase();
+      const embedding = ["cat", "car", "dog"].map((w) => (t.includes(w) ? 1 : 0.01));
+      return { index, embedding };
+    });
+    return new Response(JSON.stringify({ data }), { status: 200 });
+  });
+}
+
+const topics = (memory: string) => [...memory.matchAll(/^## (.+)$/gm)].map((m) => m[1]);
+
+describe("cosineSimilarity", () => {
+  it("scores direction, not length", () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe("recallMemories with keywords", () => {
+  it("returns the whole journal when it fits in topK", async () => {
+    const result = await recallMemories(JOURNAL, "anything", { topK: 10 });
+    expect(result.method).toBe("all");
+    expect(topics(result.memory)).toHaveLength(5);
+  });
+
+  it("picks matching entries plus the user profile, in journal order", async () => {
+    const result = await recallMemories(JOURNAL, "When is the car service due?", { topK: 1 });
+
+    expect(result.method).toBe("keywords");
+    expect(topics(result.memory)).toEqual(["User Profile", "Car service"]);
+  });
+
+  it("falls back to the most recent entries when nothing matches", async () => {
+    const result = await recallMemories(JOURNAL, "hello there", { topK: 2 });
+    expect(topics(result.memory)).toEqual(["User Profile", "Dog walks", "Garden"]);
+  });
+});
+
+describe("recallMemories with embeddings", () => {
+  let dir: string;
+  let storePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ephileo-recall-"));
+    storePath = join(dir, "vectors.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("ranks by similarity and caches entry vectors", async () => {
+    const fetch = fakeEmbeddingsFetch();
+    const embeddings = new EmbeddingsClient({
+      baseUrl: "http://x/v1",
+      model: "embed",
+      fetch: fetch as typeof globalThis.fetch,
+    });
+
+    const first = await recallMemories(JOURNAL, "my kitty cat", { topK: 1, embeddings, storePath });
+
+    expect(first.method).toBe("embeddings");
+    expect(topics(first.memory)).toEqual(["User Profile", "Cat food"]);
+    const store = JSON.parse(readFileSync(storePath, "utf-8"));
+    expect(store.model).toBe("embed");
+    expect(Object.keys(store.vectors)).toHaveLength(4);
+
+    // Second recall embeds only the query
+    fetch.mockClear();
+    const second = await recallMemories(JOURNAL, "walk the dog", {
+      topK: 1,
+      embeddings,
+      storePath,
+    });
+    expect(topics(second.memory)).toEqual(["User Profile", "Dog walks"]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fetch.mock.calls[0][1]?.body as string).input).toEqual(["walk the dog"]);
+  });
+
+  it("re-embeds everything after the model changes", async () => {
+    const fetch = fakeEmbeddingsFetch();
+    const make = (model: string) =>
+      new EmbeddingsClient({
+        baseUrl: "http://x/v1",
+        model,
+        fetch: fetch as typeof globalThis.fetch,
+      });
+    await recallMemories(JOURNAL, "cat", { topK: 1, embeddings: make("a"), storePath });
+    fetch.mockClear();
+
+    await recallMemories(JOURNAL, "cat", { topK: 1, embeddings: make("b"), storePath });
+
+    expect(JSON.parse(fetch.mock.calls[0][1]?.body as string).input).toHaveLength(4);
+    expect(JSON.parse(readFileSync(storePath, "utf-8")).model).toBe("b");
+  });
+
+  it("falls back to keywords with a warning when embedding fails", async () => {
+    const embeddings = new EmbeddingsClient({
+      baseUrl: "http://x/v1",
+      model: "embed",
+      fetch: (async () => new Response("down", { status: 503 })) as typeof globalThis.fetch,
+    });
+
+    const result = await recallMemories(JOURNAL, "car service", { topK: 1, embeddings, storePath });
+
+    expect(result.method).toBe("keywords");
+    expect(result.warning).toContain("Embeddings request failed (503)");
+    expect(topics(result.memory)).toEqual(["User Profile", "Car service"]);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Memory recall — picks the journal entries worth putting in the prompt.
+ *
+ * Injecting the whole journal every turn stops scaling once it has a few
+ * dozen entries, so only the topK entries most relevant to the user's
+ * message go in. Relevance is cosine similarity of embeddings when an
+ * embedding model is configured, and keyword overlap otherwise (or when the
+ * embedding call fails). The User Profile entry is always included.
+ */
+
+import { UserAbortError } from "../errors.js";
+import type { EmbeddingsClient } from "../llm/index.js";
+import { formatEntries, type JournalEntry, parseJournal, USER_PROFILE_TOPIC } from "./journal.js";
+import { VectorStore } from "./vector-store.js";
+
+/** Words too common to say anything about relevance. */
+const STOPWORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "are",
+  "but",
+  "not",
+  "you",
+  "your",
+  "with",
+  "this",
+  "that",
+  "what",
+  "was",
+  "have",
+  "has",
+  "can",
+  "how",
+  "from",
+  "about",
+  "into",
+  "please",
+]);
+
+export interface RecallOptions {
+  topK: number;
+  /** Rank by embedding similarity; keyword overlap is used without it. */
+  embeddings?: EmbeddingsClient;
+  /** Vector cache file, required with `embeddings`. */
+  storePath?: string;
+  signal?: AbortSignal;
+}
+
+export interface RecallResult {
+  /** Selected entries in journal form, oldest first — empty when the journal is. */
+  memory: string;
+  /** How entries were picked; "all" when the journal fits within topK. */
+  method: "all" | "embeddings" | "keywords";
+  /** Why embeddings weren't used although configured. */
+  warning?: string;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/** Lowercase words of three or more letters, minus stopwords. */
+function keywords(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}_]{3,}/gu) ?? [];
+  return new Set(words.filter((w) => !STOPWORDS.has(w)));
+}
+
+/** Number of distinct query keywords found in each entry. */
+export function keywordScores(entries: JournalEntry[], query: string): number[] {
+  const wanted = keywords(query);
+  return entries.map((e) => {
+    const have = keywords(e.text);
+    let score = 0;
+    for (const w of wanted) if (have.has(w)) score++;
+    return score;
+  });
+}
+
+/**
+ * Indices of the topK best-scoring entries. Ties go to the newer entry, so
+ * a query that matches nothing still yields the most recent learnings.
+ */
+function topIndices(scores: number[], topK: number): number[] {
+  return scores
+    .map((score, i) => ({ score, i }))
+    .sort((a, b) => b.score - a.score || b.i - a.i)
+    .slice(0, topK)
+    .map(({ i }) => i);
+}
+
+/** Select the journal entries relevant to `query`. */
+export async function recallMemories(
+  journal: string,
+  query: string,
+  options: RecallOptions,
+): Promise<RecallResult> {
+  const entries = parseJournal(journal);
+  if (entries.length <= options.topK) return { memory: formatEntries(entries), method: "all" };
+
+  // The profile is always injected, so it doesn't take one of the topK slots
+  const pinned = entries.flatMap((e, i) => (e.topic === USER_PROFILE_TOPIC ? [i] : []));
+  const candidates = entries.flatMap((_, i) => (pinned.includes(i) ? [] : [i]));
+  const pick = (scores: number[], method: RecallResult["method"], warning?: string) => {
+    const chosen = new Set([
+      ...pinned,
+      ...topIndices(scores, options.topK).map((c) => candidates[c]),
+    ]);
+    const memory = formatEntries(entries.filter((_, i) => chosen.has(i)));
+    return { memory, method, warning };
+  };
+
+  const candidateEntries = candidates.map((i) => entries[i]);
+  if (options.embeddings && options.storePath) {
+    try {
+      const store = new VectorStore(options.storePath, options.embeddings.opts.model);
+      const vectors = await store.embedAll(
+        candidateEntries.map((e) => e.text),
+        options.embeddings,
+        options.signal,
+      );
+      const [queryVector] = await options.embeddings.embed([query], options.signal);
+      return pick(
+        vectors.map((v) => cosineSimilarity(v, queryVector)),
+        "embeddings",
+      );
+    } catch (err: unknown) {
+      if (err instanceof UserAbortError) throw err;
+      const reason = err instanceof Error ? err.message.split("\n")[0] : String(err);
+      return pick(
+        keywordScores(candidateEntries, query),
+        "keywords",
+        `Embeddings unavailable, using keyword search: ${reason}`,
+      );
+    }
+  }
+  return pick(keywordScores(candidateEntries, query), "keywords");
+}
@@ -0,0 +1,84 @@
+/**
+ * On-disk cache of journal entry embeddings (memory/vectors.json).
+ *
+ * Vectors are keyed by a hash of the entry text, so new entries are embedded
+ * once, edited entries are re-embedded, and deleted ones are dropped on the
+ * next save. Switching the embedding model discards the whole cache — vectors
+ * from different models aren't comparable.
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import type { EmbeddingsClient } from "../llm/index.js";
+
+const STORE_VERSION = 1;
+/** File name of the cache inside the memory directory. */
+export const VECTOR_STORE_FILE = "vectors.json";
+
+interface StoreFile {
+  version: number;
+  model: string;
+  vectors: Record<string, number[]>;
+}
+
+function hashText(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+export class VectorStore {
+  readonly path: string;
+  readonly model: string;
+  private vectors: Record<string, number[]>;
+
+  constructor(path: string, model: string) {
+    this.path = path;
+    this.model = model;
+    this.vectors = VectorStore.read(path, model);
+  }
+
+  /** Cached vectors for the same model, or nothing when the file is missing or stale. */
+  private static read(path: string, model: string): Record<string, number[]> {
+    try {
+      const file = JSON.parse(readFileSync(path, "utf-8")) as Partial<StoreFile>;
+      if (file.version === STORE_VERSION && file.model === model && file.vectors) {
+        return file.vectors;
+      }
+    } catch {
+      // Missing or corrupt — rebuild from scratch
+    }
+    return {};
+  }
+
+  /**
+   * Vectors for the given texts, in order. Texts without a cached vector are
+   * embedded in one batch; the file is rewritten to hold exactly these texts.
+   */
+  async embedAll(
+    texts: string[],
+    client: EmbeddingsClient,
+    signal?: AbortSignal,
+  ): Promise<number[][]> {
+    const hashes = texts.map(hashText);
+    const missing = hashes.flatMap((h, i) => (this.vectors[h] ? [] : [i]));
+    const fresh = await client.embed(
+      missing.map((i) => texts[i]),
+      signal,
+    );
+    missing.forEach((textIdx, n) => {
+      this.vectors[hashes[textIdx]] = fresh[n];
+    });
+
+    const kept: Record<string, number[]> = {};
+    for (const h of hashes) kept[h] = this.vectors[h];
+    const changed =
+      missing.length > 0 || Object.keys(kept).length !== Object.keys(this.vectors).length;
+    this.vectors = kept;
+    if (changed) this.save();
+    return hashes.map((h) => this.vectors[h]);
+  }
+
+  private save(): void {
+    const file: StoreFile = { version: STORE_VERSION, model: this.model, vectors: this.vectors };
+    writeFileSync(this.path, `${JSON.stringify(file)}\n`, "utf-8");
+  }
+}
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { runAgentLoop } from "../agent/loop.js";
+import { LLMRequestError } from "../errors.js";
+import { LLMClient, listModels } from "../llm/index.js";
+import { ToolRegistry } from "../tools/registry.js";
+import {
+  disconnectReply,
+  errorReply,
+  type MockServer,
+  startMockServer,
+  textReply,
+  thinkReply,
+  toolCallReply,
+} from "./mock-openai-server.js";
+
+describe("mock OpenAI server with LLMClient", () => {
+  let server: MockServer;
+  let client: LLMClient;
+
+  beforeEach(async () => {
+    server = await startMockServer({ models: ["b-model", "a-model"] });
+    client = new LLMClient({ baseUrl: server.url, model: "a-model", maxTokens: 50 });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("lists models", async () => {
+    expect(await listModels({ baseUrl: server.url, model: "a-model" })).toEqual([
+      "a-model",
+      "b-model",
+    ]);
+  });
+
+  it("streams think blocks and content", async () => {
+    server.enqueue(thinkReply("pondering", "The answer.", 3));
+    const tokens: string[] = [];
+
+    const resp = await client.chat([{ role: "user", content: "q" }], undefined, (t, thinking) => {
+      if (!thinking) tokens.push(t);
+    });
+
+    expect(resp.thinking).toBe("pondering");
+    expect(resp.content).toBe("The answer.");
+    expect(tokens.join("")).toBe("[thinking] The answer.");
+    expect(server.requests[0].model).toBe("a-model");
+  });
+
+  it("reassembles tool-call arguments split across chunks", async () => {
+    server.enqueue(
+      toolCallReply(
+        [
+          { name: "read_file", arguments: { path: "/tmp/some/long/path.txt" } },
+          { name: "list_directory", arguments: { path: "/tmp" } },
+        ],
+        4,
+      ),
+    );
+
+    const resp = await client.chat([{ role: "user", content: "q" }]);
+
+    expect(resp.finishReason).toBe("tool_calls");
+    expect(resp.toolCalls).toEqual([
+      { id: "call_0", name: "read_file", arguments: { path: "/tmp/some/long/path.txt" } },
+      { id: "call_1", name: "list_directory", arguments: { path: "/tmp" } },
+    ]);
+  });
+
+  it("turns a 404 into a model-not-found error", async () => {
+    server.enqueue(errorReply(404));
+    await expect(client.chat([{ role: "user", content: "q" }])).rejects.toMatchObject({
+      kind: "not_found",
+    });
+  });
+
+  it("reports a mid-stream disconnect as a retryable stream error", async () => {
+    server.enqueue(disconnectReply("partial ans"));
+    const err = await client.chat([{ role: "user", content: "q" }]).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(LLMRequestError);
+    expect(err).toMatchObject({ kind: "stream", retryable: true });
+  });
+
+  it("drives a full agent session with real tools", async () => {
+    server.enqueue(toolCallReply([{ name: "echo", arguments: { text: "hi" } }]), textReply("done"));
+    const tools = new ToolRegistry();
+    tools.register({
+      name: "echo",
+      description: "Echo",
+      parameters: { type: "object", properties: { text: { type: "string" } } },
+      handler: async (args) => `echoed: ${String(args.text)}`,
+    });
+
+    const result = await runAgentLoop([{ role: "user", content: "q" }], client, tools);
+
+    expect(result.response).toBe("done");
+    const second = server.requests[1].messages as Array<{ role: string; content: string }>;
+    expect(second[2]).toMatchObject({ role: "tool", content: "echoed: hi" });
+  });
+});
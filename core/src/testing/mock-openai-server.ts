@@ -0,0 +1,172 @@
+/**
+ * Scriptable fake OpenAI-compatible server for end-to-end tests.
+ *
+ * Serves POST /v1/chat/completions from a queue of scripted replies and
+ * GET /v1/models from a fixed list. Replies are built with the helpers below
+ * (text, <think> blocks, tool calls split across chunks, error statuses,
+ * mid-stream disconnects), so tests can drive LLMClient, the agent loop and
+ * the CLI against a real socket without a model.
+ *
+ *   const server = await startMockServer({ models: ["test-model"] });
+ *   server.enqueue(toolCallReply([{ name: "read_file", arguments: { path: "a" } }]));
+ *   server.enqueue(textReply("done"));
+ *   // ...point EPHILEO_BASE_URL or an LLMClient at server.url...
+ *   await server.close();
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/** One scripted response to a chat completion request. */
+export interface MockReply {
+  /** HTTP status. Non-200 replies send `body` and no stream. Defaults to 200. */
+  status?: number;
+  /** Raw body for non-200 replies. */
+  body?: string;
+  /** SSE chunk objects, each sent as one `data:` line. */
+  events?: unknown[];
+  /** Destroy the socket after the events instead of finishing with [DONE]. */
+  disconnect?: boolean;
+  /** Pause between events, to exercise streaming display. Defaults to 0. */
+  delayMs?: number;
+}
+
+export interface MockServerOptions {
+  /** Model ids served by GET /v1/models. */
+  models?: string[];
+}
+
+export interface MockServer {
+  /** Base URL including /v1, ready for a provider's baseUrl. */
+  url: string;
+  /** Parsed JSON bodies of every chat completion request, in order. */
+  requests: Array<Record<string, unknown>>;
+  /** Queue replies; each request consumes one. */
+  enqueue(...replies: MockReply[]): void;
+  close(): Promise<void>;
+}
+
+type ToolCallSpec = { id?: string; name: string; arguments: Record<string, unknown> };
+
+function choice(delta: Record<string, unknown>, finishReason: string | null = null): unknown {
+  return { choices: [{ index: 0, delta, finish_reason: finishReason }] };
+}
+
+/** Split text into pieces of at most `size` characters. */
+function split(text: string, size: number): string[] {
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += size) pieces.push(text.slice(i, i + size));
+  return pieces.length > 0 ? pieces : [""];
+}
+
+/** Plain answer streamed in pieces of `chunkSize` characters. */
+export function textReply(content: string, chunkSize = 8): MockReply {
+  const pieces = split(content, chunkSize);
+  return {
+    events: pieces.map((p, i) => choice({ content: p }, i === pieces.length - 1 ? "stop" : null)),
+  };
+}
+
+/** Answer preceded by an inline <think> block, the way Qwen-style models stream it. */
+export function thinkReply(thinking: string, content: string, chunkSize = 8): MockReply {
+  return textReply(`<think>${thinking}</think>${content}`, chunkSize);
+}
+
+/**
+ * Tool calls whose JSON arguments arrive in pieces of `argsChunkSize`
+ * characters — only the first delta of each call carries its id and name.
+ */
+export function toolCallReply(calls: ToolCallSpec[], argsChunkSize = 5): MockReply {
+  const events: unknown[] = [];
+  calls.forEach((call, index) => {
+    split(JSON.stringify(call.arguments), argsChunkSize).forEach((piece, i) => {
+      const fn = i === 0 ? { name: call.name, arguments: piece } : { arguments: piece };
+      const tc =
+        i === 0 ? { index, id: call.id ?? `call_${index}`, function: fn } : { index, function: fn };
+      events.push(choice({ tool_calls: [tc] }));
+    });
+  });
+  events.push(choice({}, "tool_calls"));
+  return { events };
+}
+
+/** Non-200 response, e.g. errorReply(404) for an unknown model. */
+export function errorReply(status: number, body = `{"error":"mock ${status}"}`): MockReply {
+  return { status, body };
+}
+
+/** Stream part of an answer, then drop the connection. */
+export function disconnectReply(partialContent: string, chunkSize = 8): MockReply {
+  const pieces = split(partialContent, chunkSize);
+  return { events: pieces.map((p) => choice({ content: p })), disconnect: true };
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function sendReply(res: ServerResponse, reply: MockReply): Promise<void> {
+  const status = reply.status ?? 200;
+  if (status !== 200) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(reply.body ?? "");
+    return;
+  }
+  res.writeHead(200, { "Content-Type": "text/event-stream" });
+  for (const event of reply.events ?? []) {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+    if (reply.delayMs) await sleep(reply.delayMs);
+  }
+  if (reply.disconnect) {
+    // Let the written chunks reach the client before cutting it off
+    await sleep(20);
+    res.socket?.destroy();
+    return;
+  }
+  res.end("data: [DONE]\n\n");
+}
+
+/** Start the server on a free localhost port. */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const queue: MockReply[] = [];
+  const requests: Array<Record<string, unknown>> = [];
+  const models = options.models ?? ["mock-model"];
+
+  const server = createServer(async (req, res) => {
+    if (req.method === "GET" && req.url === "/v1/models") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({ object: "list", data: models.map((id) => ({ id, object: "model" })) }),
+      );
+      return;
+    }
+    if (req.method === "POST" && req.url === "/v1/chat/completions") {
+      requests.push(JSON.parse(await readBody(req)));
+      const reply = queue.shift() ?? errorReply(500, '{"error":"no scripted reply left"}');
+      await sendReply(res, reply);
+      return;
+    }
+    res.writeHead(404);
+    res.end();
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    enqueue: (...replies) => {
+      queue.push(...replies);
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -11,6 +11,7 @@ import { homedir } from "node:os";
 import { dirname, resolve } from "node:path";
 import { promisify } from "node:util";
 import { registerEditTool } from "./edit.js";
+import { registerImageTool } from "./image.js";
 import type { ToolRegistry } from "./registry.js";
 
 const execAsync = promisify(exec);
@@ -33,6 +34,7 @@ export function registerBasicTools(registry: ToolRegistry, memoryDir: string): v
       required: ["path"],
     },
     confirmationGroup: "read",
+    concurrencySafe: true,
     async handler(args) {
       const p = resolve(String(args.path).replace(/^~/, homedir()));
       const content = await readFile(p, "utf-8");
@@ -74,6 +76,7 @@ export function registerBasicTools(registry: ToolRegistry, memoryDir: string): v
       required: [],
     },
     confirmationGroup: "read",
+    concurrencySafe: true,
     async handler(args) {
       const p = resolve(String(args.path || ".").replace(/^~/, homedir()));
       const entries = await readdir(p);
@@ -153,4 +156,5 @@ export function registerBasicTools(registry: ToolRegistry, memoryDir: string): v
   });
 
   registerEditTool(registry);
+  registerImageTool(registry);
 }
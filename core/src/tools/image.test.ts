@@ -0,0 +1,57 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { imageMediaType, loadImage, MAX_IMAGE_BYTES, registerImageTool } from "./image.js";
+import { ToolRegistry } from "./registry.js";
+
+describe("imageMediaType", () => {
+  it("maps supported extensions case-insensitively", () => {
+    expect(imageMediaType("a.png")).toBe("image/png");
+    expect(imageMediaType("b.JPG")).toBe("image/jpeg");
+    expect(imageMediaType("c.webp")).toBe("image/webp");
+    expect(imageMediaType("notes.txt")).toBeNull();
+  });
+});
+
+describe("read_image", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ephileo-image-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("loads an image as a data URL", async () => {
+    const path = join(dir, "shot.png");
+    await writeFile(path, Buffer.from([1, 2, 3]));
+
+    const image = await loadImage(path);
+    expect(image).toEqual({ type: "image_url", image_url: { url: "data:image/png;base64,AQID" } });
+  });
+
+  it("rejects unsupported types and oversized files", async () => {
+    const text = join(dir, "a.txt");
+    await writeFile(text, "hi");
+    await expect(loadImage(text)).rejects.toThrow("unsupported image type");
+
+    const big = join(dir, "big.gif");
+    await writeFile(big, Buffer.alloc(MAX_IMAGE_BYTES + 1));
+    await expect(loadImage(big)).rejects.toThrow("limit");
+  });
+
+  it("returns the image alongside the text result", async () => {
+    const path = join(dir, "shot.jpeg");
+    await writeFile(path, Buffer.from([1, 2, 3]));
+    const registry = new ToolRegistry();
+    registerImageTool(registry);
+
+    const result = await registry.executeDetailed("read_image", { path });
+    expect(result.content).toContain(path);
+    expect(result.images?.[0].image_url.url).toBe("data:image/jpeg;base64,AQID");
+    expect(await registry.execute("read_image", { path })).toBe(result.content);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * read_image tool — lets vision models look at screenshots and diagrams.
+ *
+ * The image is returned as a data: URL content part; the agent loop passes it
+ * to the model in a user message, since tool messages can only carry text.
+ */
+
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { extname, resolve } from "node:path";
+import type { ImageContentPart } from "../llm/index.js";
+import type { ToolRegistry } from "./registry.js";
+
+/** Largest image we'll inline — base64 grows it by a third, and APIs cap request size. */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+/** Media type for a supported image path, or null if the extension isn't one. */
+export function imageMediaType(path: string): string | null {
+  return IMAGE_MEDIA_TYPES[extname(path).toLowerCase()] ?? null;
+}
+
+/**
+ * Read an image file into a data: URL content part.
+ * Throws on unsupported extensions and files over MAX_IMAGE_BYTES.
+ */
+export async function loadImage(path: string): Promise<ImageContentPart> {
+  const p = resolve(path.replace(/^~/, homedir()));
+  const mediaType = imageMediaType(p);
+  if (!mediaType) {
+    throw new Error(
+      `unsupported image type '${extname(p)}' (expected ${Object.keys(IMAGE_MEDIA_TYPES).join(", ")})`,
+    );
+  }
+  const bytes = await readFile(p);
+  if (bytes.length > MAX_IMAGE_BYTES) {
+    throw new Error(`image is ${bytes.length} bytes, limit is ${MAX_IMAGE_BYTES}`);
+  }
+  return {
+    type: "image_url",
+    image_url: { url: `data:${mediaType};base64,${bytes.toString("base64")}` },
+  };
+}
+
+/** Register the read_image tool with the given registry. */
+export function registerImageTool(registry: ToolRegistry): void {
+  registry.register({
+    name: "read_image",
+    description:
+      "Load an image file (png, jpg, gif, webp) so you can see it. " +
+      "Use for screenshots, diagrams and photos; requires a vision-capable model.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Absolute or home-relative (~) path to the image." },
+      },
+      required: ["path"],
+    },
+    confirmationGroup: "read",
+    concurrencySafe: true,
+    async handler(args) {
+      const path = String(args.path);
+      const image = await loadImage(path);
+      return { content: `Loaded image ${path}; it is attached below.`, images: [image] };
+    },
+  });
+}
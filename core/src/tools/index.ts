@@ -1,11 +1,15 @@
 export { registerBasicTools } from "./basic.js";
 export type { EditParams, EditResult } from "./edit.js";
 export { applyEdit, registerEditTool } from "./edit.js";
+export { imageMediaType, loadImage, MAX_IMAGE_BYTES, registerImageTool } from "./image.js";
 export type {
   ConfirmationCallback,
   ConfirmationGroup,
   PermissionLevel,
+  ToolContext,
+  ToolEvent,
   ToolHandler,
+  ToolOutput,
   ToolRegistration,
 } from "./registry.js";
 export { ToolRegistry } from "./registry.js";
@@ -265,6 +265,80 @@ describe("ToolRegistry permission levels", () => {
   });
 });
 
+describe("ToolRegistry.isConcurrencySafe", () => {
+  it("is true only for tools marked concurrencySafe", () => {
+    const registry = new ToolRegistry();
+    registry.register({ ...makeTestTool("reader"), concurrencySafe: true });
+    registry.register(makeTestTool("writer"));
+
+    expect(registry.isConcurrencySafe("reader")).toBe(true);
+    expect(registry.isConcurrencySafe("writer")).toBe(false);
+    expect(registry.isConcurrencySafe("missing")).toBe(false);
+  });
+
+  it("is false while the tool would ask for confirmation", () => {
+    const registry = new ToolRegistry();
+    registry.register({
+      ...makeTestTool("reader"),
+      concurrencySafe: true,
+      confirmationGroup: "read",
+    });
+    registry.setConfirmationCallback(async () => true);
+
+    expect(registry.isConcurrencySafe("reader")).toBe(true);
+    registry.setPermissionLevel("read-and-write");
+    expect(registry.isConcurrencySafe("reader")).toBe(false);
+  });
+});
+
+describe("ToolRegistry.confirmationGroup", () => {
+  it("resolves the group, including the legacy requiresConfirmation flag", () => {
+    const registry = new ToolRegistry();
+    registry.register({ ...makeTestTool("reader"), confirmationGroup: "read" });
+    registry.register({ ...makeTestTool("legacy"), requiresConfirmation: true });
+    registry.register(makeTestTool("plain"));
+
+    expect(registry.confirmationGroup("reader")).toBe("read");
+    expect(registry.confirmationGroup("legacy")).toBe("write");
+    expect(registry.confirmationGroup("plain")).toBe("none");
+    expect(registry.confirmationGroup("missing")).toBeUndefined();
+  });
+});
+
+describe("ToolRegistry.subset", () => {
+  it("keeps only the named tools", () => {
+    const registry = new ToolRegistry();
+    registry.register(makeTestTool("alpha"));
+    registry.register(makeTestTool("beta"));
+
+    expect(registry.subset(["beta", "missing"]).listNames()).toEqual(["beta"]);
+  });
+
+  it("shares the permission level and confirmation callback", async () => {
+    const registry = new ToolRegistry();
+    registry.register({ ...makeTestTool("writer"), confirmationGroup: "write" });
+    const callback = vi.fn(async () => false);
+    registry.setConfirmationCallback(callback);
+
+    expect(await registry.subset(["writer"]).execute("writer", {})).toContain("declined");
+    expect(callback).toHaveBeenCalledWith("writer", {});
+
+    registry.setPermissionLevel("auto-accept");
+    expect(await registry.subset(["writer"]).execute("writer", {})).toBe("ok");
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes the call context to the handler", async () => {
+    const registry = new ToolRegistry();
+    const handler = vi.fn(async () => "ok");
+    registry.register({ ...makeTestTool("alpha"), handler });
+    const signal = new AbortController().signal;
+
+    await registry.executeDetailed("alpha", { input: "x" }, { signal });
+    expect(handler).toHaveBeenCalledWith({ input: "x" }, { signal });
+  });
+});
+
 describe("ToolRegistry UserAbortError propagation", () => {
   it("re-throws UserAbortError from confirmation callback", async () => {
     const registry = new ToolRegistry();
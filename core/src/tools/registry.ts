@@ -9,9 +9,46 @@
  */
 
 import { UserAbortError } from "../errors.js";
-import type { ToolDefinition } from "../llm/index.js";
+import type { ChatClient, ImageContentPart, TokenUsage, ToolDefinition } from "../llm/index.js";
 
-export type ToolHandler = (args: Record<string, unknown>) => Promise<string>;
+/**
+ * Rich tool result. Tool messages are text-only in the chat APIs, so images
+ * are handed back to the model by the agent loop in a follow-up user message.
+ */
+export interface ToolOutput {
+  content: string;
+  images?: ImageContentPart[];
+  /** Usage of LLM calls made inside the tool (a sub-agent's), counted in the run's usage. */
+  usage?: TokenUsage[];
+}
+
+/**
+ * Progress reported from inside a tool call. Tools don't know the agent's
+ * event types; the loop that runs them decides how to pass these on.
+ */
+export interface ToolEvent {
+  type: string;
+}
+
+/**
+ * What the agent loop hands a tool along with its arguments. Most tools
+ * ignore it; delegate_task uses it to run a sub-agent inside the call.
+ */
+export interface ToolContext {
+  /** The run's abort signal — long-running tools should stop when it fires. */
+  signal?: AbortSignal;
+  /** The model running the loop. */
+  llm?: ChatClient;
+  /** The registry the loop is running tools from — it may be a subset of this one. */
+  tools?: ToolRegistry;
+  /** Progress from inside the call, passed on to the run's events. */
+  report?: (event: ToolEvent) => void;
+}
+
+export type ToolHandler = (
+  args: Record<string, unknown>,
+  context: ToolContext,
+) => Promise<string | ToolOutput>;
 
 export type ConfirmationCallback = (
   toolName: string,
@@ -43,11 +80,20 @@ export interface ToolRegistration {
   requiresConfirmation?: boolean;
   /** Which permission group this tool belongs to. Defaults to "none". */
   confirmationGroup?: ConfirmationGroup;
+  /**
+   * Safe to run alongside other calls in the same turn: no side effects and
+   * no dependence on another call's outcome (reads, listings). Defaults to false.
+   */
+  concurrencySafe?: boolean;
 }
 
 const DENIAL_MESSAGE =
   "User declined to execute this tool. Adjust your approach or ask the user for guidance.";
 
+function groupOf(tool: ToolRegistration): ConfirmationGroup {
+  return tool.confirmationGroup ?? (tool.requiresConfirmation ? "write" : "none");
+}
+
 export class ToolRegistry {
   private tools = new Map<string, ToolRegistration>();
   private confirmationCallback?: ConfirmationCallback;
@@ -65,6 +111,21 @@ export class ToolRegistry {
     this.permissionLevel = level;
   }
 
+  /**
+   * A registry with only the named tools (unknown names are skipped), sharing
+   * this one's current permission level and confirmation callback.
+   */
+  subset(names: string[]): ToolRegistry {
+    const sub = new ToolRegistry();
+    for (const name of names) {
+      const tool = this.tools.get(name);
+      if (tool) sub.register(tool);
+    }
+    sub.permissionLevel = this.permissionLevel;
+    sub.confirmationCallback = this.confirmationCallback;
+    return sub;
+  }
+
   /** Get all tool schemas in OpenAI format (sent to the LLM). */
   getSchemas(): ToolDefinition[] {
     return Array.from(this.tools.values()).map((t) => ({
@@ -79,37 +140,74 @@ export class ToolRegistry {
 
   /** Execute a tool by name. Returns result string. */
   async execute(name: string, args: Record<string, unknown>): Promise<string> {
+    return (await this.executeDetailed(name, args)).content;
+  }
+
+  /** Execute a tool by name. Returns the result text plus any images it produced. */
+  async executeDetailed(
+    name: string,
+    args: Record<string, unknown>,
+    context: ToolContext = {},
+  ): Promise<ToolOutput> {
     const tool = this.tools.get(name);
     if (!tool) {
-      return `Error: unknown tool '${name}'`;
+      return { content: `Error: unknown tool '${name}'` };
     }
     if (this.shouldConfirm(tool) && this.confirmationCallback !== undefined) {
       try {
         const approved = await this.confirmationCallback(name, args);
         if (!approved) {
-          return DENIAL_MESSAGE;
+          return { content: DENIAL_MESSAGE };
         }
       } catch (err) {
         if (err instanceof UserAbortError) throw err;
-        return `Error during confirmation for ${name}: ${err instanceof Error ? err.message : String(err)}`;
+        return {
+          content: `Error during confirmation for ${name}: ${err instanceof Error ? err.message : String(err)}`,
+        };
       }
     }
     try {
-      return await tool.handler(args);
+      const result = await tool.handler(args, context);
+      return typeof result === "string" ? { content: result } : result;
     } catch (err) {
       if (err instanceof UserAbortError) throw err;
-      return `Error executing ${name}: ${err instanceof Error ? err.message : String(err)}`;
+      return {
+        content: `Error executing ${name}: ${err instanceof Error ? err.message : String(err)}`,
+      };
     }
   }
 
+  /**
+   * Whether a call may run in parallel with others: the tool is marked
+   * concurrencySafe and won't stop to ask for confirmation at the current
+   * permission level (prompts are shown one at a time).
+   */
+  isConcurrencySafe(name: string): boolean {
+    return this.tools.get(name)?.concurrencySafe === true && !this.needsConfirmation(name);
+  }
+
+  /** Whether executing this tool will stop to ask the confirmation callback first. */
+  needsConfirmation(name: string): boolean {
+    const tool = this.tools.get(name);
+    return (
+      tool !== undefined && this.shouldConfirm(tool) && this.confirmationCallback !== undefined
+    );
+  }
+
   listNames(): string[] {
     return Array.from(this.tools.keys());
   }
 
+  /** A tool's permission group (see ConfirmationGroup), or undefined if it isn't registered. */
+  confirmationGroup(name: string): ConfirmationGroup | undefined {
+    const tool = this.tools.get(name);
+    return tool && groupOf(tool);
+  }
+
   /** Determine if a tool should prompt for confirmation based on its group and the active permission level. */
   private shouldConfirm(tool: ToolRegistration): boolean {
     if (this.permissionLevel === "auto-accept") return false;
-    const group = tool.confirmationGroup ?? (tool.requiresConfirmation ? "write" : "none");
+    const group = groupOf(tool);
     if (group === "none") return false;
     if (group === "write") return true;
     // group === "read": only confirm in "read-and-write" mode